@@ -1,8 +1,53 @@
-import React, { useState, useEffect } from 'react';
-import { Activity, PlayCircle, AlertCircle, CheckCircle, XCircle, Code2, Zap, Network } from 'lucide-react';
-import { TestCase } from './types/TestCase';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Activity, PlayCircle, AlertCircle, CheckCircle, XCircle, Code2, Zap, Network, Server, Upload, ShieldCheck, Sparkles, ArrowUp, ArrowDown, Pencil, Trash2, Save, Download, FolderOpen, ListTree, StopCircle, Settings, ExternalLink, ShieldAlert, Wallet, Eye, GitCompare, Search } from 'lucide-react';
+import { TestCase, TestResult } from './types/TestCase';
+import { SuiteSummary, TestSuite } from './types/TestSuite';
+import { NetworkConfig } from './types/Network';
+import { GasBaseline, GasReport } from './types/Gas';
+import { SecurityFinding } from './types/Security';
+import { PlannedTransaction, TransactionPreview, WalletState } from './types/Wallet';
+import { CoverageReport } from './types/Coverage';
+import { DifferentialReport, StorageLayoutReport } from './types/Differential';
+import { RunRecord, TestKind } from './types/RunHistory';
+import { TestCaseEditor } from './components/TestCaseEditor';
+import { StepDetails } from './components/StepDetails';
+import { NetworkManager } from './components/NetworkManager';
+import { SecurityFindings } from './components/SecurityFindings';
+import { ConfirmTransactionsDialog, TransactionPreviewPanel } from './components/WalletTransactions';
+import { CoveragePanel } from './components/CoveragePanel';
+import { DifferentialPanel } from './components/DifferentialPanel';
+import { CaseLogs, RunHistoryPanel, RunSummary } from './components/RunDashboard';
 import { AITestGenerator } from './services/AITestGenerator';
+import { HeuristicStrategy } from './services/HeuristicStrategy';
+import { analyzeSecurity } from './services/SecurityAnalyzer';
+import { AttackerLibrary } from './services/AttackerLibrary';
+import { LLMStrategy } from './services/LLMStrategy';
 import { TestExecutor } from './services/TestExecutor';
+import { ScheduledResult, ScheduledRun, TestScheduler } from './services/TestScheduler';
+import { DEFAULT_LOCAL_RPC_URL } from './services/LocalChain';
+import { DEFAULT_NETWORK_ID, LOCAL_NETWORK_ID, NetworkRegistry, explorerAddressUrl, explorerTxUrl } from './services/NetworkRegistry';
+import { loadCustomNetworks, saveCustomNetworks } from './services/NetworkStore';
+import { describeRevert } from './services/RevertDecoder';
+import { IndexedDbSuiteStore } from './services/SuiteStore';
+import { ContractArtifact, loadArtifactFiles, parseAbiText } from './services/ArtifactLoader';
+import { WorkerSolidityCompiler } from './services/SolidityCompiler';
+import { EtherscanSourceFetcher } from './services/VerifiedSourceFetcher';
+import { WalletConnection, findInjectedProvider } from './services/WalletConnection';
+import { MockEip1193Provider } from './services/MockEip1193Provider';
+import { buildCoverageMap } from './services/CoverageMap';
+import { CoverageCollector, toLcov } from './services/CoverageCollector';
+import { DifferentialRun, DifferentialTester, formatDifferentialReport } from './services/DifferentialTester';
+import { checkStorageLayout, compileStorageLayouts, selectLayout } from './services/StorageLayout';
+import { SuiteFormat, createSuite, formatFromFileName, parseSuite, serializeSuite, suiteId } from './services/SuiteSerializer';
+import { DEFAULT_GAS_TOLERANCE, buildGasReport, createGasBaseline, findGasRegressions } from './services/GasProfiler';
+import { loadGasBaseline, saveGasBaseline } from './services/GasBaselineStore';
+import { TEST_KINDS, classifyTestCase, createRunRecord } from './services/RunHistory';
+import { clearRunHistory, loadRunHistory, saveRunRecord } from './services/RunHistoryStore';
+import { errorMessage } from './utils/format';
+
+// Wallet prompts wait on the user, so steps and cases get far longer than the RPC-bound defaults
+const WALLET_STEP_TIMEOUT_MS = 600_000;
+const WALLET_TEST_TIMEOUT_MS = 1_800_000;
 
 function App() {
   const [contractAddress, setContractAddress] = useState('');
@@ -10,24 +55,127 @@ function App() {
   const [testCases, setTestCases] = useState<TestCase[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isExecuting, setIsExecuting] = useState(false);
-  const [selectedNetwork, setSelectedNetwork] = useState('mainnet');
+  const [selectedNetwork, setSelectedNetwork] = useState(DEFAULT_NETWORK_ID);
   const [error, setError] = useState('');
   const [isValidContract, setIsValidContract] = useState(false);
+  const [localRpcUrl, setLocalRpcUrl] = useState(DEFAULT_LOCAL_RPC_URL);
+  const [forkUrl, setForkUrl] = useState('');
+  const [bytecode, setBytecode] = useState('');
+  const [isLocalConnected, setIsLocalConnected] = useState(false);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [isDeploying, setIsDeploying] = useState(false);
+  const [actorAddresses, setActorAddresses] = useState<Record<string, string>>({});
+  const [invariants, setInvariants] = useState('');
+  const [isCheckingInvariants, setIsCheckingInvariants] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [strategy, setStrategy] = useState<'heuristic' | 'llm'>('heuristic');
+  const [llmEndpoint, setLlmEndpoint] = useState('http://localhost:11434/v1');
+  const [llmModel, setLlmModel] = useState('');
+  const [llmApiKey, setLlmApiKey] = useState('');
+  const [source, setSource] = useState('');
+  const [suiteName, setSuiteName] = useState('');
+  const [savedSuites, setSavedSuites] = useState<SuiteSummary[]>([]);
+  // Suite the editor was loaded from or last saved as, so saving over it keeps its creation time
+  const [currentSuite, setCurrentSuite] = useState<Pick<TestSuite, 'id' | 'createdAt'> | null>(null);
+  const [editingCaseId, setEditingCaseId] = useState<string | null>(null);
+  // Last run of each case, kept across partial re-runs
+  const [runResults, setRunResults] = useState<Record<string, ScheduledResult>>({});
+  const [detailsCaseId, setDetailsCaseId] = useState<string | null>(null);
+  const [gasReport, setGasReport] = useState<GasReport | null>(null);
+  const [gasBaseline, setGasBaseline] = useState<GasBaseline | undefined>();
+  const [gasTolerance, setGasTolerance] = useState(String(DEFAULT_GAS_TOLERANCE * 100));
+  // Contracts found in the last loaded artifact files, and the Solidity sources among them by path
+  const [artifacts, setArtifacts] = useState<ContractArtifact[]>([]);
+  const [artifactSources, setArtifactSources] = useState<Record<string, string>>({});
+  const [isLoadingArtifacts, setIsLoadingArtifacts] = useState(false);
+  const [explorerApiKey, setExplorerApiKey] = useState('');
+  const [isFetchingSource, setIsFetchingSource] = useState(false);
+  const [findings, setFindings] = useState<SecurityFinding[]>([]);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [wallet, setWallet] = useState<WalletConnection | null>(null);
+  const [walletState, setWalletState] = useState<WalletState | null>(null);
+  const [isConnectingWallet, setIsConnectingWallet] = useState(false);
+  const [transactionPreview, setTransactionPreview] = useState<TransactionPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [measureCoverage, setMeasureCoverage] = useState(false);
+  const [coverage, setCoverage] = useState<CoverageReport | null>(null);
+  const [isTargeting, setIsTargeting] = useState(false);
+  const [compareAddress, setCompareAddress] = useState('');
+  const [compareBytecode, setCompareBytecode] = useState('');
+  const [compareSource, setCompareSource] = useState('');
+  const [differential, setDifferential] = useState<DifferentialReport | null>(null);
+  const [runHistory, setRunHistory] = useState<RunRecord[]>([]);
+  const [caseSearch, setCaseSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<'all' | TestCase['status']>('all');
+  const [kindFilter, setKindFilter] = useState<'all' | TestKind>('all');
+  const [groupByKind, setGroupByKind] = useState(true);
+  const [pendingConfirmation, setPendingConfirmation] = useState<{
+    transactions: PlannedTransaction[];
+    resolve: (approved: boolean) => void;
+  } | null>(null);
+
+  const networkRegistry = useMemo(() => {
+    try {
+      return new NetworkRegistry(loadCustomNetworks());
+    } catch {
+      // A corrupt stored entry should not lock the user out of the built-in networks
+      return new NetworkRegistry();
+    }
+  }, []);
+  const [networks, setNetworks] = useState<NetworkConfig[]>(() => networkRegistry.list());
+  const [isManagingNetworks, setIsManagingNetworks] = useState(false);
+  // Every path that sets selectedNetwork checks it against the registry first
+  const network = networkRegistry.get(selectedNetwork);
+
+  const isLocal = selectedNetwork === LOCAL_NETWORK_ID;
+  const compiler = useMemo(() => new WorkerSolidityCompiler(), []);
+  const testExecutor = useMemo(() => {
+    const executor = new TestExecutor();
+    executor.setAttackerLibrary(new AttackerLibrary(compiler));
+    return executor;
+  }, [compiler]);
+  const suiteStore = useMemo(() => new IndexedDbSuiteStore(), []);
+  // Handle of the run in progress, for the Stop button
+  const activeRun = useRef<ScheduledRun | DifferentialRun | null>(null);
+  // Set by Approve All, so the rest of the run signs without asking again
+  const approveAll = useRef(false);
+  const walletChainMismatch = walletState !== null && !isLocal && network.chainId !== undefined && walletState.chainId !== network.chainId;
 
-  const networks = [
-    { id: 'mainnet', name: 'Ethereum Mainnet' },
-    { id: 'goerli', name: 'Goerli Testnet' },
-    { id: 'sepolia', name: 'Sepolia Testnet' },
-    { id: 'polygon', name: 'Polygon Mainnet' },
-    { id: 'mumbai', name: 'Mumbai Testnet' }
-  ];
+  const gasRegressions = useMemo(() => {
+    const tolerance = Number(gasTolerance);
+    if (!gasReport || !gasBaseline || !Number.isFinite(tolerance)) return [];
+    return findGasRegressions(gasReport, gasBaseline, tolerance / 100);
+  }, [gasReport, gasBaseline, gasTolerance]);
 
-  const testExecutor = new TestExecutor();
+  const caseKinds = useMemo(
+    () => new Map(testCases.map(test => [test.id, classifyTestCase(test, item => testExecutor.isReadOnly(item))])),
+    [testCases, testExecutor]
+  );
+
+  useEffect(() => {
+    setRunHistory(/^0x[a-fA-F0-9]{40}$/.test(contractAddress) ? loadRunHistory(selectedNetwork, contractAddress) : []);
+  }, [selectedNetwork, contractAddress]);
+
+  useEffect(() => {
+    suiteStore.list().then(setSavedSuites).catch(error => setError(`Could not load saved suites: ${errorMessage(error)}`));
+  }, [suiteStore]);
 
   useEffect(() => {
     const validateContract = async () => {
+      if (isLocal && !isLocalConnected && !walletState) {
+        setIsValidContract(false);
+        return;
+      }
       if (contractAddress && contractAddress.match(/^0x[a-fA-F0-9]{40}$/)) {
-        testExecutor.setProvider(selectedNetwork);
+        if (!isLocal && !walletState) {
+          try {
+            await testExecutor.connectNetwork(network);
+          } catch (error) {
+            setIsValidContract(false);
+            setError(`Could not connect to ${network.name}: ${errorMessage(error)}`);
+            return;
+          }
+        }
         const isValid = await testExecutor.validateContract(contractAddress);
         setIsValidContract(isValid);
         setError(isValid ? '' : 'Invalid contract address or contract not deployed on selected network');
@@ -38,52 +186,627 @@ function App() {
     };
 
     validateContract();
-  }, [contractAddress, selectedNetwork]);
+  }, [contractAddress, network, isLocal, isLocalConnected, walletState, testExecutor]);
+
+  useEffect(() => {
+    if (!wallet) return;
+    return wallet.watch(async (state) => {
+      // A run signing with the previous account or on the previous chain cannot carry on
+      activeRun.current?.abort();
+      setTransactionPreview(null);
+      if (!state) {
+        setWallet(null);
+        setWalletState(null);
+        setNotice('The wallet disconnected');
+        return;
+      }
+      try {
+        setWalletState(await testExecutor.connectWallet(wallet.provider));
+        setActorAddresses(await testExecutor.getActorAddresses());
+        setNotice(`Wallet switched to ${state.account} on chain ${state.chainId}`);
+      } catch (error) {
+        setError(`Could not reconnect the wallet: ${errorMessage(error)}`);
+      }
+    }, (error) => setError(`Wallet error: ${errorMessage(error)}`));
+  }, [wallet, testExecutor]);
+
+  const handleNetworkChange = (id: string) => {
+    setSelectedNetwork(id);
+    setIsLocalConnected(false);
+  };
+
+  const handleAddNetwork = (added: NetworkConfig) => {
+    networkRegistry.add(added);
+    saveCustomNetworks(networkRegistry.getCustom());
+    setNetworks(networkRegistry.list());
+  };
+
+  const handleRemoveNetwork = (id: string) => {
+    networkRegistry.remove(id);
+    saveCustomNetworks(networkRegistry.getCustom());
+    setNetworks(networkRegistry.list());
+    if (!networkRegistry.has(selectedNetwork)) {
+      handleNetworkChange(DEFAULT_NETWORK_ID);
+      setNotice(`Removed the selected network; switched to ${networkRegistry.get(DEFAULT_NETWORK_ID).name}`);
+    }
+  };
+
+  const handleConnectWallet = async () => {
+    try {
+      setError('');
+      setIsConnectingWallet(true);
+      const injected = findInjectedProvider();
+      if (!injected && !isLocal) {
+        throw new Error('no browser wallet found; install one, or select the local network to use the mock wallet');
+      }
+      // Without a browser wallet, a mock one signs with the local node's unlocked accounts
+      const connection = new WalletConnection(injected ?? new MockEip1193Provider({ rpcUrl: localRpcUrl }));
+      await connection.connect();
+      setWalletState(await testExecutor.connectWallet(connection.provider));
+      setActorAddresses(await testExecutor.getActorAddresses());
+      setIsLocalConnected(false);
+      setWallet(connection);
+      if (!injected) {
+        setNotice(`No browser wallet found; signing with a mock wallet on ${localRpcUrl}`);
+      }
+    } catch (error) {
+      setError(`Could not connect the wallet: ${errorMessage(error)}`);
+    } finally {
+      setIsConnectingWallet(false);
+    }
+  };
+
+  const handleDisconnectWallet = () => {
+    activeRun.current?.abort();
+    setWallet(null);
+    setWalletState(null);
+    setTransactionPreview(null);
+  };
+
+  const handleSwitchWalletChain = async () => {
+    try {
+      setError('');
+      await wallet?.switchChain(network);
+    } catch (error) {
+      setError(`Could not switch the wallet to ${network.name}: ${errorMessage(error)}`);
+    }
+  };
+
+  const handlePreviewTransactions = async () => {
+    try {
+      setError('');
+      setIsPreviewing(true);
+      testExecutor.registerAbi(contractAddress, parseAbiText(abi));
+      setTransactionPreview(await testExecutor.previewTransactions(testCases));
+    } catch (error) {
+      setError(`Could not preview transactions: ${errorMessage(error)}`);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  // Resolved by the confirmation dialog; Stop leaves it pending, and the aborted case no longer waits on it
+  const confirmTransactions = (transactions: PlannedTransaction[]): Promise<boolean> =>
+    approveAll.current
+      ? Promise.resolve(true)
+      : new Promise(resolve => setPendingConfirmation({ transactions, resolve }));
+
+  const answerConfirmation = (approved: boolean, all = false) => {
+    approveAll.current = all;
+    pendingConfirmation?.resolve(approved);
+    setPendingConfirmation(null);
+  };
+
+  const handleConnectLocal = async () => {
+    try {
+      setError('');
+      setIsConnecting(true);
+      setWallet(null);
+      setWalletState(null);
+      await testExecutor.connectLocalChain({ rpcUrl: localRpcUrl, forkUrl: forkUrl || undefined });
+      setActorAddresses(await testExecutor.getActorAddresses());
+      setIsLocalConnected(true);
+    } catch (error) {
+      setIsLocalConnected(false);
+      setError(`Could not connect to local node: ${errorMessage(error)}`);
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleDeploy = async () => {
+    try {
+      setError('');
+      setIsDeploying(true);
+      const parsedAbi = parseAbiText(abi);
+      const address = await testExecutor.deployContract(parsedAbi, bytecode.trim());
+      setContractAddress(address);
+    } catch (error) {
+      setError(`Deployment failed: ${errorMessage(error)}`);
+    } finally {
+      setIsDeploying(false);
+    }
+  };
+
+  const createGenerator = () => {
+    const generator = AITestGenerator.getInstance();
+    generator.setStrategy(
+      strategy === 'llm'
+        ? new LLMStrategy({ endpoint: llmEndpoint, model: llmModel, apiKey: llmApiKey || undefined })
+        : new HeuristicStrategy()
+    );
+    return generator;
+  };
 
   const handleGenerateTests = async () => {
     try {
       setError('');
+      setNotice('');
       setIsGenerating(true);
-      const generator = AITestGenerator.getInstance();
-      let parsedAbi;
+      const generator = createGenerator();
+      const parsedAbi = parseAbiText(abi);
+      // The deployed contract is asked which standards it claims, so only generate against the selected network
+      if (!isLocal && !walletState) {
+        await testExecutor.connectNetwork(network);
+      }
+      const result = await generator.generate({
+        abi: parsedAbi,
+        contractAddress,
+        source: source || undefined,
+        attacks: isLocal,
+        timeTravel: isLocal,
+        localChain: isLocal,
+        provider: isLocal && !isLocalConnected ? undefined : testExecutor.getProvider()
+      });
+      setTestCases(result.testCases);
+      setRunResults({});
+      if (result.rejected.length > 0) {
+        setError(`Rejected ${result.rejected.length} generated test cases: ${result.rejected
+          .map(rejection => `${rejection.name} (${rejection.reason})`)
+          .join('; ')}`);
+      }
+    } catch (error) {
+      setError(errorMessage(error));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleAnalyzeSecurity = async () => {
+    try {
+      setError('');
+      setNotice('');
+      setIsAnalyzing(true);
+      const parsedAbi = parseAbiText(abi);
+      // Source gives the precise checks; otherwise scan the deployed code, falling back to the loaded artifact's
+      const deployed = source ? undefined : await testExecutor.getCode(contractAddress);
+      const result = analyzeSecurity({
+        abi: parsedAbi,
+        contractAddress,
+        source: source || undefined,
+        bytecode: deployed && deployed !== '0x' ? deployed : bytecode.trim() || undefined
+      });
+      setFindings(result);
+      if (result.length === 0) {
+        setNotice('No risky patterns found');
+      }
+    } catch (error) {
+      setError(`Security analysis failed: ${errorMessage(error)}`);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleInvariantCampaign = async () => {
+    try {
+      setError('');
+      setNotice('');
+      setIsCheckingInvariants(true);
+      let parsedInvariants;
       try {
-        parsedAbi = JSON.parse(abi);
+        parsedInvariants = JSON.parse(invariants);
       } catch {
-        throw new Error('Invalid ABI format. Please provide a valid JSON ABI.');
+        throw new Error('Invalid invariants format. Please provide a JSON array of invariants.');
+      }
+      const report = await testExecutor.runInvariantCampaign({
+        contractAddress,
+        abi: parseAbiText(abi),
+        invariants: parsedInvariants
+      });
+      if (report.violation) {
+        const failingCase = {
+          ...report.violation.testCase,
+          status: 'failed' as const,
+          actualResult: `${report.violation.message} (seed ${report.seed})`
+        };
+        setTestCases(current => [...current, failingCase]);
+      } else {
+        setNotice(`All invariants held over ${report.runs} runs and ${report.callsExecuted} calls (seed ${report.seed})`);
       }
-      const cases = await generator.generateTestCases(parsedAbi, contractAddress);
-      setTestCases(cases);
     } catch (error) {
-      setError(error.message);
+      setError(errorMessage(error));
     } finally {
-      setIsGenerating(false);
+      setIsCheckingInvariants(false);
+    }
+  };
+
+  // Runs the selected cases; results of cases left out keep showing from earlier runs
+  const executeCases = async (selected: TestCase[]) => {
+    const startedAt = Date.now();
+    try {
+      setError('');
+      setIsExecuting(true);
+      if (walletChainMismatch) {
+        throw new Error(`The wallet is on chain ${walletState.chainId}, but ${network.name} is chain ${network.chainId}; switch the wallet first`);
+      }
+      if (!isLocal && !walletState) {
+        await testExecutor.connectNetwork(network);
+      }
+      testExecutor.registerAbi(contractAddress, parseAbiText(abi));
+      approveAll.current = false;
+      // Wallet runs sign through the browser wallet, which does not serve opcode traces
+      const collector = measureCoverage && isLocal && !walletState ? await createCoverageCollector() : undefined;
+
+      // Cases finish out of order when read-only ones run concurrently, so update each by id
+      const updateCase = (id: string, update: Partial<TestCase>) =>
+        setTestCases(current => current.map(test => (test.id === id ? { ...test, ...update } : test)));
+      const run = new TestScheduler(testExecutor, {
+        ...(walletState
+          ? { confirm: confirmTransactions, stepTimeoutMs: WALLET_STEP_TIMEOUT_MS, testTimeoutMs: WALLET_TEST_TIMEOUT_MS }
+          : {}),
+        coverage: collector,
+        onStart: (test) => updateCase(test.id, { status: 'running', actualResult: undefined }),
+        onResult: (scheduled) => {
+          const { testCase, result, attempts } = scheduled;
+          setRunResults(current => ({ ...current, [testCase.id]: scheduled }));
+          const retried = attempts > 1 ? ` after ${attempts} attempts` : '';
+          updateCase(testCase.id, { status: result.success ? 'passed' : 'failed', actualResult: describeResult(result) + retried });
+        }
+      }).run(selected);
+      activeRun.current = run;
+      const runs = await run.done;
+      // Gas of the whole suite, so re-running a few cases does not shrink the report to those
+      const latest = { ...runResults, ...Object.fromEntries(runs.map(item => [item.testCase.id, item])) };
+      setGasReport(buildGasReport(testCases.flatMap(test => latest[test.id]?.result ?? [])));
+      setGasBaseline(loadGasBaseline(contractAddress));
+      if (runs.length > 0) {
+        const stopped = runs.length < selected.filter(test => !test.disabled).length;
+        const kindOf = (test: TestCase) => caseKinds.get(test.id) ?? classifyTestCase(test, item => testExecutor.isReadOnly(item));
+        setRunHistory(saveRunRecord(createRunRecord(contractAddress, selectedNetwork, startedAt, runs, kindOf, stopped)));
+      }
+      setCoverage(collector ? collector.report() : null);
+    } catch (error) {
+      setError(errorMessage(error));
+    } finally {
+      activeRun.current = null;
+      setPendingConfirmation(null);
+      setIsExecuting(false);
+    }
+  };
+
+  const handleExecuteTests = () => executeCases(testCases);
+
+  const handleRerunFailed = () => executeCases(testCases.filter(test => test.status === 'failed' && !test.disabled));
+
+  const handleClearHistory = () => {
+    clearRunHistory(selectedNetwork, contractAddress);
+    setRunHistory([]);
+  };
+
+  // Loaded sources take precedence over the pasted one, as deployments of loaded artifacts were compiled from them
+  const contractSources = (): Record<string, string> | undefined =>
+    Object.keys(artifactSources).length > 0
+      ? artifactSources
+      : source ? { 'Contract.sol': source } : undefined;
+
+  const createCoverageCollector = async () => {
+    const sources = contractSources();
+    if (!sources) {
+      throw new Error('Coverage needs the Solidity sources; load them with the artifacts or paste the source');
     }
+    return new CoverageCollector(await buildCoverageMap(compiler, sources));
   };
 
-  const handleExecuteTests = async () => {
+  const handleCompareDeployments = async () => {
     try {
       setError('');
       setIsExecuting(true);
-      testExecutor.setProvider(selectedNetwork);
+      if (walletChainMismatch) {
+        throw new Error(`The wallet is on chain ${walletState.chainId}, but ${network.name} is chain ${network.chainId}; switch the wallet first`);
+      }
+      if (!isLocal && !walletState) {
+        await testExecutor.connectNetwork(network);
+      }
+      const parsedAbi = parseAbiText(abi);
+      testExecutor.registerAbi(contractAddress, parsedAbi);
+      approveAll.current = false;
 
-      const updatedTests = [...testCases];
-      for (let i = 0; i < updatedTests.length; i++) {
-        const test = updatedTests[i];
-        test.status = 'running';
-        setTestCases([...updatedTests]);
+      const candidateAddress = isLocal && compareBytecode.trim()
+        ? await testExecutor.deployContract(parsedAbi, compareBytecode.trim())
+        : compareAddress.trim();
+      if (!(await testExecutor.validateContract(candidateAddress))) {
+        throw new Error(`No contract code at ${candidateAddress}`);
+      }
+      testExecutor.registerAbi(candidateAddress, parsedAbi);
 
-        const result = await testExecutor.executeTest(test);
-        test.status = result.success ? 'passed' : 'failed';
-        test.actualResult = result.success ? 'Test passed successfully' : result.error;
-        setTestCases([...updatedTests]);
+      let layout: StorageLayoutReport | undefined;
+      if (compareSource.trim()) {
+        const sources = contractSources();
+        if (!sources) {
+          throw new Error('The storage layout check needs the sources of the tested version too; load them with the artifacts or paste the source');
+        }
+        // The loaded artifact the ABI came from names the baseline contract
+        const baselineName = artifacts.find(artifact => JSON.stringify(artifact.abi, null, 2) === abi)?.contractName;
+        layout = checkStorageLayout(
+          selectLayout(await compileStorageLayouts(compiler, sources), baselineName),
+          selectLayout(await compileStorageLayouts(compiler, { 'Candidate.sol': compareSource }))
+        );
       }
+
+      const run = new DifferentialTester(testExecutor, walletState
+        ? { confirm: confirmTransactions, stepTimeoutMs: WALLET_STEP_TIMEOUT_MS, testTimeoutMs: WALLET_TEST_TIMEOUT_MS }
+        : {}
+      ).run(testCases, contractAddress, { label: 'baseline', address: contractAddress }, { label: 'candidate', address: candidateAddress });
+      activeRun.current = run;
+      setDifferential({ ...(await run.done), layout });
     } catch (error) {
-      setError(error.message);
+      setError(`Comparison failed: ${errorMessage(error)}`);
     } finally {
+      activeRun.current = null;
+      setPendingConfirmation(null);
       setIsExecuting(false);
     }
   };
 
+  const handleExportDifferential = () => {
+    if (!differential) return;
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([formatDifferentialReport(differential)], { type: 'text/markdown' }));
+    link.download = 'differential-report.md';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleTargetUncovered = async () => {
+    if (!coverage) return;
+    try {
+      setError('');
+      setNotice('');
+      setIsTargeting(true);
+      const result = await createGenerator().generate({
+        abi: parseAbiText(abi),
+        contractAddress,
+        source: source || undefined,
+        uncovered: coverage.uncovered
+      });
+      const present = new Set(testCases.map(test => test.id));
+      const added = result.testCases.filter(test => !present.has(test.id));
+      setTestCases(current => [...current, ...added]);
+      setNotice(`Added ${added.length} test cases aimed at ${coverage.uncovered.length} uncovered branch arms`);
+    } catch (error) {
+      setError(`Could not generate cases for uncovered branches: ${errorMessage(error)}`);
+    } finally {
+      setIsTargeting(false);
+    }
+  };
+
+  const handleExportLcov = () => {
+    if (!coverage) return;
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([toLcov(coverage)], { type: 'text/plain' }));
+    link.download = 'lcov.info';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const describeResult = (result: TestResult): string => {
+    if (!result.success) {
+      return result.attack?.achieved ? result.attack.summary : result.error ?? 'Test failed';
+    }
+    if (result.attack) {
+      return `Test passed: ${result.attack.summary}`;
+    }
+    if (result.fuzz) {
+      return `All ${result.fuzz.iterations} fuzz runs passed (seed ${result.fuzz.seed})`;
+    }
+    const reverts = (result.steps ?? []).flatMap(step => (step.revert ? [describeRevert(step.revert)] : []));
+    return reverts.length > 0
+      ? `Test passed, reverted as expected: ${reverts.join('; ')}`
+      : 'Test passed successfully';
+  };
+
+  const applyArtifact = (artifact: ContractArtifact, sources: Record<string, string> = artifactSources) => {
+    setAbi(JSON.stringify(artifact.abi, null, 2));
+    setBytecode(artifact.bytecode ?? '');
+    if (artifact.sourceName && sources[artifact.sourceName]) {
+      setSource(sources[artifact.sourceName]);
+    }
+  };
+
+  const handleLoadArtifacts = async (fileList: FileList) => {
+    try {
+      setError('');
+      setIsLoadingArtifacts(true);
+      const files = await Promise.all(
+        Array.from(fileList).map(async file => ({ path: file.webkitRelativePath || file.name, content: await file.text() }))
+      );
+      const loaded = await loadArtifactFiles(files, compiler);
+      if (loaded.length === 0) {
+        throw new Error('No contract artifacts or Solidity sources found');
+      }
+      const sources = Object.fromEntries(files.filter(file => file.path.endsWith('.sol')).map(file => [file.path, file.content]));
+      setArtifacts(loaded);
+      setArtifactSources(sources);
+      applyArtifact(loaded.find(artifact => artifact.bytecode) ?? loaded[0], sources);
+      setNotice(`Loaded ${loaded.length} contract${loaded.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      setError(`Could not load artifacts: ${errorMessage(error)}`);
+    } finally {
+      setIsLoadingArtifacts(false);
+    }
+  };
+
+  const handleFetchVerifiedSource = async () => {
+    try {
+      setError('');
+      setIsFetchingSource(true);
+      // Reconnecting would drop the wallet; its provider already reports the chain it is on
+      if (!isLocal && !walletState) {
+        await testExecutor.connectNetwork(network);
+      }
+      const fetcher = new EtherscanSourceFetcher({ chainId: await testExecutor.getChainId(), apiKey: explorerApiKey || undefined });
+      const verified = await fetcher.fetchVerifiedSource(contractAddress);
+      if (!verified) {
+        throw new Error('Contract source is not verified on this network');
+      }
+      setAbi(JSON.stringify(verified.abi, null, 2));
+      setSource(Object.values(verified.sources).join('\n\n'));
+      setNotice(`Fetched verified ABI of ${verified.contractName}`);
+    } catch (error) {
+      setError(`Could not fetch verified source: ${errorMessage(error)}`);
+    } finally {
+      setIsFetchingSource(false);
+    }
+  };
+
+  const buildSuite = () => {
+    let parsedAbi;
+    try {
+      parsedAbi = parseAbiText(abi);
+    } catch {
+      parsedAbi = undefined;
+    }
+    const name = suiteName.trim() || `${contractAddress} (${selectedNetwork})`;
+    const createdAt = currentSuite?.id === suiteId(contractAddress, name) ? currentSuite.createdAt : undefined;
+    return createSuite(name, contractAddress, testCases, { network: selectedNetwork, abi: parsedAbi, createdAt });
+  };
+
+  const handleSaveSuite = async () => {
+    try {
+      setError('');
+      const suite = buildSuite();
+      await suiteStore.save(suite);
+      setSuiteName(suite.name);
+      setCurrentSuite({ id: suite.id, createdAt: suite.createdAt });
+      setSavedSuites(await suiteStore.list());
+      setNotice(`Saved suite ${suite.name}`);
+    } catch (error) {
+      setError(`Could not save suite: ${errorMessage(error)}`);
+    }
+  };
+
+  const loadSuite = (suite: ReturnType<typeof parseSuite>) => {
+    setSuiteName(suite.name);
+    setCurrentSuite({ id: suite.id, createdAt: suite.createdAt });
+    setContractAddress(suite.contractAddress);
+    if (suite.abi) {
+      setAbi(JSON.stringify(suite.abi, null, 2));
+    }
+    if (suite.network && networkRegistry.has(suite.network)) {
+      handleNetworkChange(suite.network);
+    } else if (suite.network) {
+      setError(`Suite ${suite.name} was saved for network ${suite.network}, which is not configured; add it or pick a network before running the suite`);
+    }
+    setTestCases(suite.testCases);
+    setEditingCaseId(null);
+    setRunResults({});
+  };
+
+  const handleLoadSuite = async (id: string) => {
+    try {
+      setError('');
+      const suite = await suiteStore.load(id);
+      if (!suite) {
+        throw new Error('Suite no longer exists');
+      }
+      loadSuite(suite);
+    } catch (error) {
+      setError(`Could not load suite: ${errorMessage(error)}`);
+    }
+  };
+
+  const handleDeleteSuite = async (id: string) => {
+    try {
+      await suiteStore.remove(id);
+      setSavedSuites(await suiteStore.list());
+    } catch (error) {
+      setError(`Could not delete suite: ${errorMessage(error)}`);
+    }
+  };
+
+  const handleExportSuite = (format: SuiteFormat) => {
+    const suite = buildSuite();
+    const blob = new Blob([serializeSuite(suite, format)], {
+      type: format === 'yaml' ? 'application/yaml' : 'application/json'
+    });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${suite.name.replace(/[^\w.-]+/g, '_')}.${format}`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleImportSuite = async (file: File) => {
+    try {
+      setError('');
+      const suite = parseSuite(await file.text(), formatFromFileName(file.name));
+      loadSuite(suite);
+      setNotice(`Imported suite ${suite.name} with ${suite.testCases.length} test cases`);
+    } catch (error) {
+      setError(`Could not import suite: ${errorMessage(error)}`);
+    }
+  };
+
+  const updateTestCase = (updated: TestCase) => {
+    setTestCases(current => current.map(test => (test.id === updated.id ? updated : test)));
+  };
+
+  const moveTestCase = (index: number, offset: number) => {
+    setTestCases(current => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const reordered = [...current];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const removeTestCase = (id: string) => {
+    setTestCases(current => current.filter(test => test.id !== id));
+  };
+
+  const handleSaveGasBaseline = () => {
+    if (!gasReport) return;
+    const baseline = createGasBaseline(gasReport, contractAddress);
+    saveGasBaseline(baseline);
+    setGasBaseline(baseline);
+    setNotice(`Saved gas baseline for ${gasReport.functions.length} functions`);
+  };
+
+  const handleExportGasReport = () => {
+    if (!gasReport) return;
+    const report = { contractAddress, tolerance: Number(gasTolerance) / 100, functions: gasReport.functions, regressions: gasRegressions };
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }));
+    link.download = `gas-report-${contractAddress}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const searchText = caseSearch.trim().toLowerCase();
+  const visibleCases = testCases.filter(test =>
+    (statusFilter === 'all' || test.status === statusFilter)
+    && (kindFilter === 'all' || caseKinds.get(test.id) === kindFilter)
+    && (searchText === '' || `${test.name} ${test.description} ${test.id}`.toLowerCase().includes(searchText))
+  );
+  const caseGroups = groupByKind
+    ? TEST_KINDS
+      .map(({ kind, label }) => ({ key: kind, label, cases: visibleCases.filter(test => caseKinds.get(test.id) === kind) }))
+      .filter(group => group.cases.length > 0)
+    : [{ key: 'all', label: undefined, cases: visibleCases }];
+  // Moving a case changes the suite's run order, which the list only shows when neither grouped nor filtered
+  const canReorder = !groupByKind && visibleCases.length === testCases.length;
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'pending':
@@ -123,19 +846,143 @@ function App() {
               <div className="relative">
                 <select
                   value={selectedNetwork}
-                  onChange={(e) => setSelectedNetwork(e.target.value)}
+                  onChange={(e) => handleNetworkChange(e.target.value)}
                   className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
                 >
-                  {networks.map((network) => (
-                    <option key={network.id} value={network.id}>
-                      {network.name}
+                  {networks.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.name}{option.custom ? ' (custom)' : ''}
                     </option>
                   ))}
                 </select>
                 <Network className="absolute right-3 top-2.5 h-5 w-5 text-gray-400" />
               </div>
+              <div className="mt-2 flex items-center justify-between text-sm text-gray-500">
+                <span>
+                  {network.chainId !== undefined ? `Chain ${network.chainId} · ` : ''}{network.nativeCurrency.symbol}
+                  {!isLocal && ` · ${network.rpcUrl}`}
+                </span>
+                <button onClick={() => setIsManagingNetworks(!isManagingNetworks)} className="flex items-center text-gray-600 hover:text-blue-600">
+                  <Settings className="w-4 h-4 mr-1" />
+                  Custom Networks
+                </button>
+              </div>
+              {isManagingNetworks && (
+                <NetworkManager networks={networks} onAdd={handleAddNetwork} onRemove={handleRemoveNetwork} />
+              )}
             </div>
 
+            <div className="mb-6 p-4 border border-gray-200 rounded-lg bg-gray-50">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-700">
+                  {walletState
+                    ? <>Signing as <span className="font-mono">{walletState.account}</span> on chain {walletState.chainId}</>
+                    : 'Run write steps from your own wallet instead of unfunded test accounts'}
+                </span>
+                {walletState ? (
+                  <button onClick={handleDisconnectWallet} className="text-sm text-gray-600 hover:text-red-600">
+                    Disconnect
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleConnectWallet}
+                    disabled={isConnectingWallet}
+                    className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                  >
+                    <Wallet className="w-5 h-5 mr-2" />
+                    {isConnectingWallet ? 'Connecting...' : 'Connect Wallet'}
+                  </button>
+                )}
+              </div>
+              {walletChainMismatch && (
+                <div className="mt-2 flex items-center justify-between text-sm text-yellow-800">
+                  <span>The wallet is on chain {walletState.chainId}, but {network.name} is chain {network.chainId}.</span>
+                  <button onClick={handleSwitchWalletChain} className="text-purple-700 hover:underline">
+                    Switch Wallet
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {isLocal && (
+              <div className="mb-6 p-4 border border-gray-200 rounded-lg bg-gray-50">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Local RPC URL
+                    </label>
+                    <input
+                      type="text"
+                      value={localRpcUrl}
+                      onChange={(e) => {
+                        setLocalRpcUrl(e.target.value);
+                        setIsLocalConnected(false);
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder={DEFAULT_LOCAL_RPC_URL}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Fork From (optional)
+                    </label>
+                    <input
+                      type="text"
+                      value={forkUrl}
+                      onChange={(e) => {
+                        setForkUrl(e.target.value);
+                        setIsLocalConnected(false);
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="https://..."
+                    />
+                  </div>
+                </div>
+                <button
+                  onClick={handleConnectLocal}
+                  disabled={isConnecting || !localRpcUrl}
+                  className="flex items-center px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  <Server className="w-5 h-5 mr-2" />
+                  {isConnecting ? 'Connecting...' : isLocalConnected ? 'Connected' : 'Connect'}
+                </button>
+
+                {isLocalConnected && (
+                  <div className="mt-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Actors
+                    </label>
+                    <ul className="mb-4 space-y-1 text-xs font-mono text-gray-700">
+                      {Object.entries(actorAddresses).map(([name, address]) => (
+                        <li key={name}>
+                          <span className="inline-block w-20 text-gray-500">{name}</span>
+                          {address}
+                        </li>
+                      ))}
+                    </ul>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Deploy From Bytecode
+                    </label>
+                    <textarea
+                      value={bytecode}
+                      onChange={(e) => setBytecode(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      rows={3}
+                      placeholder="0x608060..."
+                    />
+                    <button
+                      onClick={handleDeploy}
+                      disabled={isDeploying || !bytecode || !abi}
+                      className="mt-2 flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                    >
+                      <Upload className="w-5 h-5 mr-2" />
+                      {isDeploying ? 'Deploying...' : 'Deploy'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="mb-6">
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Contract Address
@@ -154,6 +1001,17 @@ function App() {
                   <CheckCircle className="absolute right-3 top-2.5 h-5 w-5 text-green-500" />
                 )}
               </div>
+              {isValidContract && explorerAddressUrl(network, contractAddress) && (
+                <a
+                  href={explorerAddressUrl(network, contractAddress)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="mt-1 inline-flex items-center text-sm text-blue-600 hover:underline"
+                >
+                  <ExternalLink className="w-4 h-4 mr-1" />
+                  View on explorer
+                </a>
+              )}
             </div>
 
             <div className="mb-6">
@@ -165,10 +1023,221 @@ function App() {
                 onChange={(e) => setAbi(e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 rows={5}
-                placeholder="Paste ABI JSON here..."
+                placeholder="Paste an ABI or a Hardhat / Foundry artifact here..."
               />
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                <label className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-md hover:bg-gray-200 cursor-pointer transition-colors duration-200">
+                  <Upload className="w-4 h-4 mr-2" />
+                  {isLoadingArtifacts ? 'Loading...' : 'Load Files'}
+                  <input
+                    type="file"
+                    multiple
+                    accept=".json,.sol"
+                    className="hidden"
+                    onChange={(e) => {
+                      if (e.target.files?.length) handleLoadArtifacts(e.target.files);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                <label className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-md hover:bg-gray-200 cursor-pointer transition-colors duration-200">
+                  <FolderOpen className="w-4 h-4 mr-2" />
+                  Load Folder
+                  <input
+                    type="file"
+                    // Not in React's input typings; lets the picker select artifacts/, out/ or a contracts folder
+                    ref={(input) => input?.setAttribute('webkitdirectory', '')}
+                    className="hidden"
+                    onChange={(e) => {
+                      if (e.target.files?.length) handleLoadArtifacts(e.target.files);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                {artifacts.length > 1 && (
+                  <select
+                    onChange={(e) => applyArtifact(artifacts[Number(e.target.value)])}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {artifacts.map((artifact, index) => (
+                      <option key={`${artifact.sourceName}:${artifact.contractName}`} value={index}>
+                        {artifact.contractName}{artifact.sourceName ? ` (${artifact.sourceName})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              {!isLocal && (
+                <div className="mt-2 flex items-center gap-2">
+                  <input
+                    type="password"
+                    value={explorerApiKey}
+                    onChange={(e) => setExplorerApiKey(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Etherscan API key"
+                  />
+                  <button
+                    onClick={handleFetchVerifiedSource}
+                    disabled={isFetchingSource || !isValidContract}
+                    className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    {isFetchingSource ? 'Fetching...' : 'Fetch Verified ABI'}
+                  </button>
+                </div>
+              )}
             </div>
 
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Generation Strategy
+              </label>
+              <div className="relative">
+                <select
+                  value={strategy}
+                  onChange={(e) => setStrategy(e.target.value as 'heuristic' | 'llm')}
+                  className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+                >
+                  <option value="heuristic">Heuristic (rule-based)</option>
+                  <option value="llm">LLM (OpenAI-compatible endpoint)</option>
+                </select>
+                <Sparkles className="absolute right-3 top-2.5 h-5 w-5 text-gray-400" />
+              </div>
+            </div>
+
+            {strategy === 'llm' && (
+              <div className="mb-6 p-4 border border-gray-200 rounded-lg bg-gray-50">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Endpoint
+                    </label>
+                    <input
+                      type="text"
+                      value={llmEndpoint}
+                      onChange={(e) => setLlmEndpoint(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="https://api.openai.com/v1"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Model
+                    </label>
+                    <input
+                      type="text"
+                      value={llmModel}
+                      onChange={(e) => setLlmModel(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="gpt-4o-mini"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      API Key (optional)
+                    </label>
+                    <input
+                      type="password"
+                      value={llmApiKey}
+                      onChange={(e) => setLlmApiKey(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Solidity Source (optional)
+              </label>
+              <textarea
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                rows={5}
+                placeholder="// SPDX-License-Identifier: MIT ..."
+              />
+            </div>
+
+            {isLocalConnected && (
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Invariants
+                </label>
+                <textarea
+                  value={invariants}
+                  onChange={(e) => setInvariants(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  rows={4}
+                  placeholder='[{"id": "supply", "description": "Sum of balances equals total supply", "left": {"kind": "sum", "method": "balanceOf", "holders": "actors"}, "operator": "eq", "right": {"kind": "call", "method": "totalSupply"}}]'
+                />
+                <button
+                  onClick={handleInvariantCampaign}
+                  disabled={isCheckingInvariants || !invariants || !isValidContract || !abi}
+                  className="mt-2 flex items-center px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  <ShieldCheck className="w-5 h-5 mr-2" />
+                  {isCheckingInvariants ? 'Running Campaign...' : 'Run Invariant Campaign'}
+                </button>
+              </div>
+            )}
+
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Compare With Another Deployment (optional)
+              </label>
+              <input
+                type="text"
+                value={compareAddress}
+                onChange={(e) => setCompareAddress(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="0x... e.g. the new implementation behind an upgrade"
+              />
+              {isLocalConnected && (
+                <textarea
+                  value={compareBytecode}
+                  onChange={(e) => setCompareBytecode(e.target.value)}
+                  className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  rows={2}
+                  placeholder="or creation bytecode to deploy and compare against (0x...)"
+                />
+              )}
+              <textarea
+                value={compareSource}
+                onChange={(e) => setCompareSource(e.target.value)}
+                className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                rows={3}
+                placeholder="Solidity source of the compared version, to check its storage layout against this one (optional)"
+              />
+              <button
+                onClick={handleCompareDeployments}
+                disabled={isExecuting || testCases.length === 0 || !isValidContract || !abi || (!compareAddress.trim() && !(isLocalConnected && compareBytecode.trim()))}
+                className="mt-2 flex items-center px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              >
+                <GitCompare className="w-5 h-5 mr-2" />
+                {isExecuting ? 'Running...' : 'Compare Deployments'}
+              </button>
+            </div>
+
+            {isLocalConnected && !walletState && (
+              <label className="mb-6 flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={measureCoverage}
+                  onChange={(e) => setMeasureCoverage(e.target.checked)}
+                  className="mr-2"
+                />
+                Measure coverage (traces every step against the Solidity sources)
+              </label>
+            )}
+
+            {notice && (
+              <div className="mb-6 p-4 bg-green-50 rounded-md">
+                <p className="text-sm text-green-700">{notice}</p>
+              </div>
+            )}
+
             {error && (
               <div className="mb-6 p-4 bg-red-50 rounded-md">
                 <p className="text-sm text-red-600">{error}</p>
@@ -178,12 +1247,20 @@ function App() {
             <div className="flex space-x-4">
               <button
                 onClick={handleGenerateTests}
-                disabled={isGenerating || !isValidContract || !abi}
+                disabled={isGenerating || !isValidContract || !abi || (strategy === 'llm' && !llmModel)}
                 className="flex-1 flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
               >
                 <Zap className="w-5 h-5 mr-2" />
                 {isGenerating ? 'Generating...' : 'Generate Tests'}
               </button>
+              <button
+                onClick={handleAnalyzeSecurity}
+                disabled={isAnalyzing || !isValidContract || !abi}
+                className="flex-1 flex items-center justify-center px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              >
+                <ShieldAlert className="w-5 h-5 mr-2" />
+                {isAnalyzing ? 'Analyzing...' : 'Analyze Security'}
+              </button>
               <button
                 onClick={handleExecuteTests}
                 disabled={isExecuting || testCases.length === 0}
@@ -192,41 +1269,372 @@ function App() {
                 <PlayCircle className="w-5 h-5 mr-2" />
                 {isExecuting ? 'Executing...' : 'Run Tests'}
               </button>
+              {walletState && (
+                <button
+                  onClick={handlePreviewTransactions}
+                  disabled={isPreviewing || isExecuting || testCases.length === 0}
+                  className="flex items-center justify-center px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  <Eye className="w-5 h-5 mr-2" />
+                  {isPreviewing ? 'Estimating...' : 'Preview'}
+                </button>
+              )}
+              {isExecuting && (
+                <button
+                  onClick={() => activeRun.current?.abort()}
+                  className="flex items-center justify-center px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors duration-200"
+                >
+                  <StopCircle className="w-5 h-5 mr-2" />
+                  Stop
+                </button>
+              )}
+            </div>
+          </div>
+
+          {transactionPreview && (
+            <div className="bg-white shadow-xl rounded-xl p-8 mb-8">
+              <TransactionPreviewPanel
+                preview={transactionPreview}
+                symbol={network.nativeCurrency.symbol}
+                onClose={() => setTransactionPreview(null)}
+              />
+            </div>
+          )}
+
+          {pendingConfirmation && (
+            <ConfirmTransactionsDialog
+              transactions={pendingConfirmation.transactions}
+              symbol={network.nativeCurrency.symbol}
+              onApprove={() => answerConfirmation(true)}
+              onApproveAll={() => answerConfirmation(true, true)}
+              onReject={() => answerConfirmation(false)}
+            />
+          )}
+
+          {coverage && (
+            <div className="bg-white shadow-xl rounded-xl p-8 mb-8">
+              <CoveragePanel
+                report={coverage}
+                isTargeting={isTargeting}
+                onExportLcov={handleExportLcov}
+                onTargetUncovered={handleTargetUncovered}
+              />
+            </div>
+          )}
+
+          {differential && (
+            <div className="bg-white shadow-xl rounded-xl p-8 mb-8">
+              <DifferentialPanel report={differential} onExport={handleExportDifferential} />
+            </div>
+          )}
+
+          {findings.length > 0 && (
+            <div className="bg-white shadow-xl rounded-xl p-8 mb-8">
+              <SecurityFindings
+                findings={findings}
+                testCases={testCases}
+                results={Object.fromEntries(Object.entries(runResults).map(([id, run]) => [id, run.result]))}
+                onAddCases={(added) => setTestCases(current => [...current, ...added])}
+              />
+            </div>
+          )}
+
+          <div className="bg-white shadow-xl rounded-xl p-8 mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-2xl font-semibold">Saved Suites</h2>
+              <label className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-md hover:bg-gray-200 cursor-pointer transition-colors duration-200">
+                <FolderOpen className="w-4 h-4 mr-2" />
+                Import
+                <input
+                  type="file"
+                  accept=".json,.yaml,.yml"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportSuite(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
             </div>
+            {savedSuites.length === 0 ? (
+              <p className="text-sm text-gray-500">No saved suites yet. Generate tests and save them as a suite.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {savedSuites.map((suite) => (
+                  <li key={suite.id} className="flex items-center justify-between py-2">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{suite.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {suite.caseCount} cases · {suite.contractAddress} · updated {new Date(suite.updatedAt).toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="flex space-x-2">
+                      <button onClick={() => handleLoadSuite(suite.id)} className="px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors duration-200">
+                        Load
+                      </button>
+                      <button onClick={() => handleDeleteSuite(suite.id)} className="text-gray-500 hover:text-red-600" title="Delete suite">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
 
           {testCases.length > 0 && (
             <div className="bg-white shadow-xl rounded-xl p-8">
-              <h2 className="text-2xl font-semibold mb-6">Test Cases</h2>
-              <div className="space-y-4">
-                {testCases.map((test) => (
-                  <div
-                    key={test.id}
-                    className="border border-gray-200 rounded-lg p-6 hover:border-blue-200 transition-colors duration-200"
-                  >
-                    <div className="flex items-center justify-between mb-3">
-                      <h3 className="text-lg font-medium text-gray-900">{test.name}</h3>
-                      {getStatusIcon(test.status)}
-                    </div>
-                    <p className="text-gray-600 mb-3">
-                      {test.description}
-                    </p>
-                    {test.actualResult && (
-                      <div className={`mt-4 p-3 rounded-md ${
-                        test.status === 'passed' ? 'bg-green-50' : 'bg-red-50'
-                      }`}>
-                        <p className={`text-sm ${
-                          test.status === 'passed' ? 'text-green-700' : 'text-red-700'
-                        }`}>
-                          Result: {test.actualResult}
-                        </p>
-                      </div>
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                <h2 className="text-2xl font-semibold">Test Cases</h2>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={suiteName}
+                    onChange={(e) => setSuiteName(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Suite name"
+                  />
+                  <button onClick={handleSaveSuite} className="flex items-center px-3 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors duration-200">
+                    <Save className="w-4 h-4 mr-2" />
+                    Save
+                  </button>
+                  <button onClick={() => handleExportSuite('json')} className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-md hover:bg-gray-200 transition-colors duration-200">
+                    <Download className="w-4 h-4 mr-2" />
+                    JSON
+                  </button>
+                  <button onClick={() => handleExportSuite('yaml')} className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-md hover:bg-gray-200 transition-colors duration-200">
+                    <Download className="w-4 h-4 mr-2" />
+                    YAML
+                  </button>
+                </div>
+              </div>
+              <RunSummary testCases={testCases} isExecuting={isExecuting} onRerunFailed={handleRerunFailed} />
+              <div className="flex flex-wrap items-center gap-3 mb-6">
+                <div className="relative flex-1 min-w-[12rem]">
+                  <input
+                    type="text"
+                    value={caseSearch}
+                    onChange={(e) => setCaseSearch(e.target.value)}
+                    className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Search by name, description or id"
+                  />
+                  <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+                </div>
+                <select
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="all">All statuses</option>
+                  <option value="passed">Passed</option>
+                  <option value="failed">Failed</option>
+                  <option value="running">Running</option>
+                  <option value="pending">Not run</option>
+                </select>
+                <select
+                  value={kindFilter}
+                  onChange={(e) => setKindFilter(e.target.value as typeof kindFilter)}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="all">All kinds</option>
+                  {TEST_KINDS.map(({ kind, label }) => (
+                    <option key={kind} value={kind}>{label}</option>
+                  ))}
+                </select>
+                <label className="flex items-center text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={groupByKind}
+                    onChange={(e) => setGroupByKind(e.target.checked)}
+                    className="mr-1"
+                  />
+                  Group by kind
+                </label>
+              </div>
+              {visibleCases.length === 0 && (
+                <p className="text-sm text-gray-500">No test cases match the filters.</p>
+              )}
+              <div className="space-y-6">
+                {caseGroups.map(group => (
+                  <div key={group.key}>
+                    {group.label && (
+                      <h3 className="mb-3 text-sm font-semibold uppercase tracking-wide text-gray-500">
+                        {group.label} · {group.cases.filter(test => test.status === 'passed').length}/{group.cases.length} passed
+                      </h3>
                     )}
+                    <div className="space-y-4">
+                      {group.cases.map(test => {
+                        const index = testCases.indexOf(test);
+                        const run = runResults[test.id];
+                        return (
+                          <div
+                            key={test.id}
+                            className={`border border-gray-200 rounded-lg p-6 hover:border-blue-200 transition-colors duration-200 ${
+                              test.disabled ? 'opacity-60' : ''
+                            }`}
+                          >
+                            <div className="flex items-center justify-between mb-3">
+                              <h3 className="text-lg font-medium text-gray-900">
+                                {test.name}
+                                <span className="ml-2 align-middle text-xs font-normal px-2 py-0.5 rounded bg-gray-100 text-gray-600">
+                                  {TEST_KINDS.find(({ kind }) => kind === caseKinds.get(test.id))?.label}
+                                </span>
+                              </h3>
+                              <div className="flex items-center space-x-2">
+                                <label className="flex items-center text-sm text-gray-600">
+                                  <input
+                                    type="checkbox"
+                                    checked={!test.disabled}
+                                    onChange={(e) => updateTestCase({ ...test, disabled: !e.target.checked })}
+                                    className="mr-1"
+                                  />
+                                  Enabled
+                                </label>
+                                {canReorder && (
+                                  <>
+                                    <button onClick={() => moveTestCase(index, -1)} disabled={index === 0} className="text-gray-500 hover:text-gray-800 disabled:opacity-30" title="Move up">
+                                      <ArrowUp className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={() => moveTestCase(index, 1)} disabled={index === testCases.length - 1} className="text-gray-500 hover:text-gray-800 disabled:opacity-30" title="Move down">
+                                      <ArrowDown className="w-4 h-4" />
+                                    </button>
+                                  </>
+                                )}
+                                <button onClick={() => executeCases([test])} disabled={isExecuting || test.disabled} className="text-gray-500 hover:text-green-600 disabled:opacity-30" title="Run this case">
+                                  <PlayCircle className="w-4 h-4" />
+                                </button>
+                                {run && (
+                                  <button onClick={() => setDetailsCaseId(detailsCaseId === test.id ? null : test.id)} className="text-gray-500 hover:text-blue-600" title="Steps and logs">
+                                    <ListTree className="w-4 h-4" />
+                                  </button>
+                                )}
+                                <button onClick={() => setEditingCaseId(editingCaseId === test.id ? null : test.id)} className="text-gray-500 hover:text-blue-600" title="Edit">
+                                  <Pencil className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => removeTestCase(test.id)} className="text-gray-500 hover:text-red-600" title="Delete">
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                                {getStatusIcon(test.status)}
+                              </div>
+                            </div>
+                            <p className="text-gray-600 mb-3">
+                              {test.description}
+                            </p>
+                            {test.specReference && (
+                              <p className="text-sm text-indigo-700 bg-indigo-50 rounded-md px-3 py-2 mb-3">
+                                {test.specReference}
+                              </p>
+                            )}
+                            {editingCaseId === test.id && (
+                              <TestCaseEditor
+                                testCase={test}
+                                abi={abi}
+                                onSave={(edited) => {
+                                  updateTestCase(edited);
+                                  setEditingCaseId(null);
+                                }}
+                                onCancel={() => setEditingCaseId(null)}
+                              />
+                            )}
+                            {test.actualResult && (
+                              <div className={`mt-4 p-3 rounded-md ${
+                                test.status === 'passed' ? 'bg-green-50' : 'bg-red-50'
+                              }`}>
+                                <p className={`text-sm ${
+                                  test.status === 'passed' ? 'text-green-700' : 'text-red-700'
+                                }`}>
+                                  Result: {test.actualResult}
+                                </p>
+                              </div>
+                            )}
+                            {detailsCaseId === test.id && run && (
+                              <>
+                                {run.result.steps && (
+                                  <StepDetails steps={run.result.steps} txUrl={(hash) => explorerTxUrl(network, hash)} />
+                                )}
+                                <CaseLogs run={run} />
+                              </>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
                   </div>
                 ))}
               </div>
             </div>
           )}
+          {runHistory.length > 0 && (
+            <div className="bg-white shadow-xl rounded-xl p-8 mt-8">
+              <RunHistoryPanel history={runHistory} onClear={handleClearHistory} />
+            </div>
+          )}
+          {gasReport && gasReport.functions.length > 0 && (
+            <div className="bg-white shadow-xl rounded-xl p-8 mt-8">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                <h2 className="text-2xl font-semibold">Gas Report</h2>
+                <div className="flex items-center space-x-2">
+                  <label className="text-sm text-gray-600">Tolerance %</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={gasTolerance}
+                    onChange={(e) => setGasTolerance(e.target.value)}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button onClick={handleSaveGasBaseline} className="flex items-center px-3 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors duration-200">
+                    <Save className="w-4 h-4 mr-2" />
+                    Save as Baseline
+                  </button>
+                  <button onClick={handleExportGasReport} className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-md hover:bg-gray-200 transition-colors duration-200">
+                    <Download className="w-4 h-4 mr-2" />
+                    Export
+                  </button>
+                </div>
+              </div>
+              {gasRegressions.length > 0 && (
+                <div className="mb-4 p-3 bg-red-50 rounded-md">
+                  <p className="text-sm text-red-700">
+                    {gasRegressions.length} function{gasRegressions.length === 1 ? '' : 's'} exceeded the baseline by more than {gasTolerance}%
+                  </p>
+                </div>
+              )}
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2">Function</th>
+                    <th className="py-2 text-right">Calls</th>
+                    <th className="py-2 text-right">Min</th>
+                    <th className="py-2 text-right">Avg</th>
+                    <th className="py-2 text-right">Median</th>
+                    <th className="py-2 text-right">Max</th>
+                    <th className="py-2 text-right">Baseline</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {gasReport.functions.map((stats) => {
+                    const regression = gasRegressions.find(item => item.method === stats.method);
+                    const baseline = gasBaseline?.functions[stats.method];
+                    return (
+                      <tr key={stats.method} className={`border-b border-gray-100 ${regression ? 'bg-red-50 text-red-700' : ''}`}>
+                        <td className="py-2 font-mono text-xs">{stats.method}</td>
+                        <td className="py-2 text-right">{stats.calls}</td>
+                        <td className="py-2 text-right">{stats.min}</td>
+                        <td className="py-2 text-right">{stats.avg}</td>
+                        <td className="py-2 text-right">{stats.median}</td>
+                        <td className="py-2 text-right">{stats.max}</td>
+                        <td className="py-2 text-right">
+                          {baseline ? baseline.median : '—'}
+                          {regression && ` (+${(regression.increase * 100).toFixed(1)}%)`}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
         </div>
       </div>
     </div>
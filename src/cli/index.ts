@@ -0,0 +1,414 @@
+import { readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import { basename, join, relative, sep } from 'node:path';
+import { ethers } from 'ethers';
+import { AITestGenerator } from '../services/AITestGenerator';
+import { HeuristicStrategy } from '../services/HeuristicStrategy';
+import { analyzeSecurity, findingVerdict } from '../services/SecurityAnalyzer';
+import { LLMStrategy } from '../services/LLMStrategy';
+import { TestExecutor } from '../services/TestExecutor';
+import { TestScheduler } from '../services/TestScheduler';
+import { LOCAL_NETWORK_ID, NetworkRegistry } from '../services/NetworkRegistry';
+import { ContractArtifact, loadArtifactFiles, parseArtifact, selectArtifact } from '../services/ArtifactLoader';
+import { InProcessSolidityCompiler, SolidityCompiler } from '../services/SolidityCompiler';
+import { buildCoverageMap } from '../services/CoverageMap';
+import { CoverageCollector, coveragePercent, toLcov } from '../services/CoverageCollector';
+import { DifferentialTester, formatDifferentialReport } from '../services/DifferentialTester';
+import { checkStorageLayout, compileStorageLayouts, selectLayout } from '../services/StorageLayout';
+import { AttackerLibrary } from '../services/AttackerLibrary';
+import { EtherscanSourceFetcher } from '../services/VerifiedSourceFetcher';
+import { createSuite, formatFromFileName, parseSuite, retargetTestCases, serializeSuite } from '../services/SuiteSerializer';
+import { RejectedTestCase } from '../services/TestCaseValidator';
+import { buildGasReport, createGasBaseline, describeGasRegression, findGasRegressions } from '../services/GasProfiler';
+import { GasBaseline } from '../types/Gas';
+import { TestCase, TestResult } from '../types/TestCase';
+import { CoverageTotals, UncoveredBranch } from '../types/Coverage';
+import { DifferentialReport, DifferentialTarget, StorageLayoutReport } from '../types/Differential';
+import { CliOptions, USAGE, UsageError, parseOptions } from './options';
+import { CaseRun, FindingRun, SuiteRun, summarize, toJUnitXml, toJsonReport } from './reports';
+import { errorMessage } from '../utils/format';
+
+async function main(argv: string[]): Promise<number> {
+  let options: CliOptions | null;
+  try {
+    options = parseOptions(argv);
+  } catch (error) {
+    console.error(`${errorMessage(error)}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  let run: SuiteRun;
+  try {
+    run = await runSuite(options);
+  } catch (error) {
+    console.error(`Error: ${error instanceof UsageError ? error.message : errorMessage(error)}`);
+    return 2;
+  }
+
+  if (options.junitPath) {
+    await writeFile(options.junitPath, toJUnitXml(run));
+  }
+  if (options.jsonPath) {
+    await writeFile(options.jsonPath, toJsonReport(run));
+  }
+  if (options.lcovPath && run.coverage) {
+    await writeFile(options.lcovPath, toLcov(run.coverage));
+  }
+  if (options.diffReportPath && run.differential) {
+    await writeFile(options.diffReportPath, formatDifferentialReport(run.differential));
+  }
+
+  for (const { finding, verdict } of run.findings ?? []) {
+    console.log(`  ${finding.severity.toUpperCase()} ${verdict} ${finding.function}: ${finding.title}`);
+  }
+  const { total, passed, failed, skipped } = summarize(run);
+  const regressions = run.gasComparison?.regressions ?? [];
+  for (const regression of regressions) {
+    console.log(`  GAS  ${describeGasRegression(regression)}`);
+  }
+  console.log(`\n${passed}/${total} passed, ${failed} failed, ${skipped} skipped in ${(run.durationMs / 1000).toFixed(1)}s`);
+  if (run.coverage) {
+    console.log(`Coverage: ${describeCoverage(run.coverage.totals)}`);
+    if (run.coverage.error) {
+      console.log(`  ${run.coverage.error}`);
+    }
+  }
+  const differential = run.differential;
+  if (differential) {
+    console.log(`Compared with ${differential.candidate.address}: ${differential.behavioralDivergences} behavioral divergences, ${differential.gasDivergences} gas changes`);
+    if (differential.layout) {
+      console.log(`Storage layout of ${differential.layout.candidateContract} is ${differential.layout.compatible ? 'compatible' : 'INCOMPATIBLE'}`);
+      for (const issue of differential.layout.issues) {
+        console.log(`  ${issue.severity.toUpperCase()} slot ${issue.slot}: ${issue.message}`);
+      }
+    }
+  }
+  if (run.stopped) {
+    console.log('Run stopped before every case ran');
+  }
+  const diverged = differential !== undefined && (differential.behavioralDivergences > 0 || differential.layout?.compatible === false);
+  return failed > 0 || regressions.length > 0 || diverged || run.stopped ? 1 : 0;
+}
+
+async function runSuite(options: CliOptions): Promise<SuiteRun> {
+  const suite = options.suitePath
+    ? parseSuite(await readFile(options.suitePath, 'utf8'), formatFromFileName(options.suitePath))
+    : undefined;
+  const executor = new TestExecutor();
+  const compiler = new InProcessSolidityCompiler();
+  executor.setAttackerLibrary(new AttackerLibrary(compiler));
+
+  const networks = new NetworkRegistry(options.networksPath ? JSON.parse(await readFile(options.networksPath, 'utf8')) : []);
+  if (!networks.has(options.network)) {
+    throw new UsageError(`Unknown network ${options.network}; known networks are ${networks.list().map(network => network.id).join(', ')}`);
+  }
+
+  if (options.network === LOCAL_NETWORK_ID) {
+    await executor.connectLocalChain({ rpcUrl: options.rpcUrl, forkUrl: options.forkUrl });
+  } else {
+    const network = networks.get(options.network);
+    await executor.connectNetwork(options.rpcUrl ? { ...network, rpcUrl: options.rpcUrl } : network);
+  }
+
+  let artifact: Partial<ContractArtifact>;
+  let verifiedSource: string | undefined;
+  // Solidity files found under --abi, keyed by path
+  let sources: Record<string, string> = {};
+  if (options.abiPath) {
+    ({ artifact, sources } = await readArtifact(options.abiPath, compiler, options.contractName));
+  } else if (options.verifiedSource) {
+    const fetcher = new EtherscanSourceFetcher({
+      chainId: await executor.getChainId(),
+      apiKey: process.env.ETHERSCAN_API_KEY,
+      apiUrl: options.explorerApiUrl
+    });
+    const verified = await fetcher.fetchVerifiedSource(options.address as string);
+    if (!verified) {
+      throw new Error(`${options.address} has no verified source on ${options.network}`);
+    }
+    artifact = { abi: verified.abi, contractName: verified.contractName };
+    verifiedSource = Object.values(verified.sources).join('\n\n');
+    console.log(`Fetched verified ABI of ${verified.contractName}`);
+  } else {
+    artifact = { abi: suite?.abi };
+  }
+  if (!artifact.abi) {
+    throw new UsageError('The suite has no ABI; pass --abi');
+  }
+
+  let contractAddress = options.address ?? suite?.contractAddress ?? '';
+  if (options.deploy) {
+    const bytecode = options.bytecode ? await readBytecode(options.bytecode) : artifact.bytecode;
+    if (!bytecode) {
+      throw new UsageError('The artifact has no bytecode; pass --bytecode');
+    }
+    contractAddress = await executor.deployContract(artifact.abi, bytecode, options.constructorArgs);
+    console.log(`Deployed ${artifact.contractName ?? 'contract'} at ${contractAddress}`);
+  }
+  if (!(await executor.validateContract(contractAddress))) {
+    throw new Error(`No contract code at ${contractAddress} on ${options.network}`);
+  }
+  executor.registerAbi(contractAddress, artifact.abi);
+
+  let candidate: DifferentialTarget | undefined;
+  if (options.compareAddress || options.compareBytecode) {
+    const address = options.compareBytecode
+      ? await executor.deployContract(artifact.abi, await readBytecode(options.compareBytecode), options.constructorArgs)
+      : options.compareAddress as string;
+    if (!(await executor.validateContract(address))) {
+      throw new Error(`No contract code at ${address} on ${options.network}`);
+    }
+    executor.registerAbi(address, artifact.abi);
+    candidate = { label: 'candidate', address };
+    console.log(`Comparing against ${address}`);
+  }
+
+  const source = options.sourcePath ? await readFile(options.sourcePath, 'utf8') : verifiedSource;
+  let coverage: CoverageCollector | undefined;
+  const contractSources = Object.keys(sources).length > 0
+    ? sources
+    : source ? { [options.sourcePath ? basename(options.sourcePath) : 'Contract.sol']: source } : undefined;
+  if (options.coverage) {
+    if (!contractSources) {
+      throw new UsageError('--coverage needs Solidity sources: a directory of .sol files as --abi, or --source');
+    }
+    coverage = new CoverageCollector(await buildCoverageMap(compiler, contractSources));
+  }
+  let layout: StorageLayoutReport | undefined;
+  if (options.compareSourcePath) {
+    if (!contractSources) {
+      throw new UsageError('--compare-source needs the sources of the tested version too: a directory of .sol files as --abi, or --source');
+    }
+    layout = checkStorageLayout(
+      selectLayout(await compileStorageLayouts(compiler, contractSources), artifact.contractName),
+      selectLayout(await compileStorageLayouts(compiler, await readSolidity(options.compareSourcePath)), options.compareContract)
+    );
+  }
+  let testCases: TestCase[];
+  let strategy: string;
+  let rejected: RejectedTestCase[] = [];
+  if (suite) {
+    testCases = retargetTestCases(suite.testCases, suite.contractAddress, contractAddress);
+    strategy = 'suite';
+    console.log(`Loaded ${testCases.length} test cases from suite ${suite.name}\n`);
+  } else {
+    const generation = await generate(options, artifact.abi, contractAddress, executor.getProvider(), source);
+    ({ testCases, strategy, rejected } = generation);
+    for (const rejection of rejected) {
+      console.warn(`Rejected generated case ${rejection.name}: ${rejection.reason}`);
+    }
+    console.log(`Generated ${testCases.length} test cases with the ${strategy} strategy\n`);
+  }
+
+  const findings = options.security
+    ? analyzeSecurity({ abi: artifact.abi, contractAddress, source, bytecode: await executor.getCode(contractAddress) })
+    : undefined;
+  if (findings) {
+    const present = new Set(testCases.map(testCase => testCase.id));
+    testCases = [...testCases, ...findings.map(finding => finding.testCase).filter(testCase => !present.has(testCase.id))];
+    console.log(`Security pass flagged ${findings.length} findings; added their exploit cases\n`);
+  }
+
+  if (options.saveSuitePath) {
+    const name = options.suiteName ?? suite?.name ?? `${artifact.contractName ?? contractAddress} (${options.network})`;
+    const saved = createSuite(name, contractAddress, testCases, { network: options.network, abi: artifact.abi });
+    await writeFile(options.saveSuitePath, serializeSuite(saved, formatFromFileName(options.saveSuitePath)));
+    console.log(`Saved suite to ${options.saveSuitePath}`);
+  }
+
+  const startedAt = Date.now();
+  const skipped = testCases.filter(testCase => testCase.disabled);
+  for (const testCase of skipped) {
+    console.log(`  SKIP ${testCase.name}`);
+  }
+  // Ctrl+C stops the run but still writes reports for the cases that finished
+  let stopped = false;
+  const untilDone = <T>(run: { done: Promise<T>; abort: () => void }): Promise<T> => {
+    const stop = () => {
+      console.log('Stopping...');
+      stopped = true;
+      run.abort();
+    };
+    process.once('SIGINT', stop);
+    return run.done.finally(() => process.off('SIGINT', stop));
+  };
+  const schedulerOptions = {
+    concurrency: options.concurrency,
+    stepTimeoutMs: options.stepTimeoutMs,
+    testTimeoutMs: options.testTimeoutMs,
+    retries: options.retries
+  };
+  const printResult = (name: string, result: TestResult, attempts = 1) => {
+    const retried = attempts > 1 ? ` (${attempts} attempts)` : '';
+    console.log(result.success ? `  PASS ${name}${retried}` : `  FAIL ${name}${retried}: ${result.error}`);
+    if (result.attack && result.attack.summary !== result.error) {
+      console.log(`       ${result.attack.summary}`);
+    }
+  };
+  const runCases = (selected: TestCase[]): Promise<CaseRun[]> => untilDone(new TestScheduler(executor, {
+    ...schedulerOptions,
+    coverage,
+    onResult: ({ testCase, result, attempts }) => printResult(testCase.name, result, attempts)
+  }).run(selected));
+
+  let cases: CaseRun[];
+  let differential: DifferentialReport | undefined;
+  if (candidate) {
+    const report = await untilDone(new DifferentialTester(executor, {
+      ...schedulerOptions,
+      onComparison: ({ testCaseName, baseline, divergences }) => {
+        printResult(testCaseName, baseline);
+        for (const divergence of divergences) {
+          const step = divergence.stepId ? `${divergence.stepId} ` : '';
+          console.log(`       DIFF ${step}${divergence.kind}: ${divergence.message} (${divergence.baseline} | ${divergence.candidate})`);
+        }
+      }
+    }).run(testCases, contractAddress, { label: 'baseline', address: contractAddress }, candidate));
+    differential = { ...report, layout };
+    cases = report.cases.map(comparison => ({
+      testCase: testCases.find(testCase => testCase.id === comparison.testCaseId) as TestCase,
+      result: comparison.baseline,
+      durationMs: comparison.durationMs
+    }));
+  } else {
+    cases = await runCases(testCases);
+  }
+
+  if (coverage && options.targetUncovered && !stopped) {
+    const { uncovered } = coverage.report();
+    const present = new Set(testCases.map(testCase => testCase.id));
+    const targeted = uncovered.length > 0
+      ? (await generate(options, artifact.abi, contractAddress, executor.getProvider(), source, uncovered)).testCases.filter(testCase => !present.has(testCase.id))
+      : [];
+    console.log(`\nGenerated ${targeted.length} test cases aimed at ${uncovered.length} uncovered branch arms\n`);
+    cases.push(...await runCases(targeted));
+  }
+  const findingRuns: FindingRun[] | undefined = findings?.map(finding => ({
+    finding,
+    verdict: findingVerdict(finding, cases.find(item => item.testCase.id === finding.testCase.id)?.result)
+  }));
+
+  const gas = buildGasReport(cases.map(item => item.result));
+  let gasComparison: SuiteRun['gasComparison'];
+  if (options.gasBaselinePath && options.updateGasBaseline) {
+    await writeFile(options.gasBaselinePath, JSON.stringify(createGasBaseline(gas, contractAddress), null, 2) + '\n');
+    console.log(`Updated gas baseline ${options.gasBaselinePath}`);
+  } else if (options.gasBaselinePath) {
+    const baseline: GasBaseline = JSON.parse(await readFile(options.gasBaselinePath, 'utf8'));
+    gasComparison = {
+      tolerance: options.gasTolerance,
+      regressions: findGasRegressions(gas, baseline, options.gasTolerance)
+    };
+  }
+
+  return {
+    contractAddress,
+    network: options.network,
+    strategy,
+    startedAt,
+    durationMs: Date.now() - startedAt,
+    cases,
+    skipped,
+    rejected,
+    gas,
+    gasComparison,
+    stopped,
+    findings: findingRuns,
+    coverage: coverage?.report(),
+    differential
+  };
+}
+
+async function generate(
+  options: CliOptions,
+  abi: ethers.InterfaceAbi,
+  contractAddress: string,
+  provider: ethers.Provider,
+  source?: string,
+  uncovered?: UncoveredBranch[]
+) {
+  const generator = AITestGenerator.getInstance();
+  generator.setStrategy(
+    options.strategy === 'llm'
+      ? new LLMStrategy({
+        endpoint: options.llmEndpoint as string,
+        model: options.llmModel as string,
+        apiKey: process.env.LLM_API_KEY
+      })
+      : new HeuristicStrategy()
+  );
+  const local = options.network === LOCAL_NETWORK_ID;
+  return generator.generate({ abi, contractAddress, source, attacks: local, timeTravel: local, localChain: local, uncovered, provider });
+}
+
+// A single ABI or artifact file, or a directory tree of artifacts or Solidity sources, returned along with the sources
+async function readArtifact(
+  path: string,
+  compiler: SolidityCompiler,
+  contractName?: string
+): Promise<{ artifact: ContractArtifact; sources: Record<string, string> }> {
+  if (!(await stat(path)).isDirectory()) {
+    const artifact = parseArtifact(JSON.parse(await readFile(path, 'utf8')));
+    if (contractName && artifact.contractName !== contractName) {
+      throw new UsageError(`${path} holds ${artifact.contractName ?? 'an unnamed contract'}, not ${contractName}`);
+    }
+    return { artifact, sources: {} };
+  }
+  const entries = await readdir(path, { recursive: true, withFileTypes: true });
+  const files = await Promise.all(
+    entries
+      .filter(entry => entry.isFile() && /\.(json|sol)$/.test(entry.name))
+      .map(async entry => {
+        const fullPath = join(entry.parentPath, entry.name);
+        // Solidity imports resolve against these paths, so keep them relative and slash-separated
+        return { path: relative(path, fullPath).split(sep).join('/'), content: await readFile(fullPath, 'utf8') };
+      })
+  );
+  const artifact = selectArtifact(await loadArtifactFiles(files, compiler), contractName);
+  console.log(`Using ${artifact.contractName ?? 'contract'}${artifact.sourceName ? ` from ${artifact.sourceName}` : ''}`);
+  const sources = Object.fromEntries(files.filter(file => file.path.endsWith('.sol')).map(file => [file.path, file.content]));
+  return { artifact, sources };
+}
+
+function describeCoverage(totals: CoverageTotals): string {
+  const labels: Record<keyof CoverageTotals, string> = { functions: 'functions', lines: 'lines', branches: 'branches', revertPaths: 'revert paths' };
+  return (Object.keys(labels) as (keyof CoverageTotals)[])
+    .map(key => `${labels[key]} ${totals[key].covered}/${totals[key].total} (${coveragePercent(totals[key]).toFixed(1)}%)`)
+    .join(', ');
+}
+
+// A single .sol file keyed by its name, or every .sol file under a directory keyed by its relative path
+async function readSolidity(path: string): Promise<Record<string, string>> {
+  if (!(await stat(path)).isDirectory()) {
+    return { [basename(path)]: await readFile(path, 'utf8') };
+  }
+  const entries = await readdir(path, { recursive: true, withFileTypes: true });
+  const files = entries.filter(entry => entry.isFile() && entry.name.endsWith('.sol'));
+  if (files.length === 0) {
+    throw new UsageError(`${path} holds no .sol files`);
+  }
+  return Object.fromEntries(await Promise.all(files.map(async entry => {
+    const fullPath = join(entry.parentPath, entry.name);
+    return [relative(path, fullPath).split(sep).join('/'), await readFile(fullPath, 'utf8')];
+  })));
+}
+
+// Accepts inline hex or a path to a file holding it
+async function readBytecode(value: string): Promise<string> {
+  const text = ethers.isHexString(value) ? value : (await readFile(value, 'utf8')).trim();
+  if (!ethers.isHexString(text)) {
+    throw new UsageError(`${value} is not hex bytecode`);
+  }
+  return text;
+}
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  error => {
+    console.error(error);
+    process.exit(2);
+  }
+);
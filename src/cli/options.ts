@@ -0,0 +1,301 @@
+import { parseArgs } from 'node:util';
+import { DEFAULT_GAS_TOLERANCE } from '../services/GasProfiler';
+import { BUILTIN_NETWORKS, DEFAULT_NETWORK_ID, LOCAL_NETWORK_ID } from '../services/NetworkRegistry';
+import { DEFAULT_CONCURRENCY, DEFAULT_RETRIES, DEFAULT_STEP_TIMEOUT_MS, DEFAULT_TEST_TIMEOUT_MS } from '../services/TestScheduler';
+
+export interface CliOptions {
+  // ABI or artifact file, or a directory of artifacts or Solidity sources
+  abiPath?: string;
+  // Contract to pick when the ABI path holds several
+  contractName?: string;
+  // Fetch the ABI of the address from an Etherscan-compatible explorer
+  verifiedSource: boolean;
+  explorerApiUrl?: string;
+  address?: string;
+  // Deploy the artifact's bytecode, or the given hex or file, to the local node before testing
+  deploy: boolean;
+  bytecode?: string;
+  constructorArgs: unknown[];
+  network: string;
+  // JSON array of extra networks, or built-in ones with other settings
+  networksPath?: string;
+  rpcUrl?: string;
+  forkUrl?: string;
+  strategy: 'heuristic' | 'llm';
+  llmEndpoint?: string;
+  llmModel?: string;
+  sourcePath?: string;
+  // Add the security pass's exploit cases to the run
+  security: boolean;
+  // Run a saved suite instead of generating cases
+  suitePath?: string;
+  // Write the cases about to run as a suite file
+  saveSuitePath?: string;
+  suiteName?: string;
+  gasBaselinePath?: string;
+  // Overwrite the baseline with this run's gas instead of comparing against it
+  updateGasBaseline: boolean;
+  gasTolerance: number;
+  concurrency: number;
+  stepTimeoutMs: number;
+  testTimeoutMs: number;
+  retries: number;
+  junitPath?: string;
+  jsonPath?: string;
+  // Trace every step and map it back to the Solidity sources
+  coverage: boolean;
+  lcovPath?: string;
+  // Generate and run cases aimed at the branch arms the first pass never took
+  targetUncovered: boolean;
+  // Second deployment to run every case against and compare with, given or deployed from bytecode
+  compareAddress?: string;
+  compareBytecode?: string;
+  // Solidity sources of the second deployment, for the storage layout check
+  compareSourcePath?: string;
+  compareContract?: string;
+  diffReportPath?: string;
+}
+
+export const USAGE = `Usage: npm run cli -- (--abi <path> | --suite <file> | --verified-source) [--address <0x...> | --deploy] [options]
+
+Contract
+  --abi <path>               ABI JSON, Hardhat or Foundry artifact, or a directory of
+                             artifacts (artifacts/, out/) or .sol sources to compile
+  --contract <name>          Contract to test when the --abi directory holds several
+  --verified-source          Fetch the ABI of --address from an Etherscan-compatible explorer
+                             (API key from ETHERSCAN_API_KEY)
+  --explorer-api <url>       Explorer API URL (default Etherscan's multichain API)
+  --address <0x...>          Address of the deployed contract to test
+  --deploy                   Deploy the artifact bytecode to the local node first
+  --bytecode <hex|file>      Creation bytecode to deploy instead of the artifact's
+  --constructor-args <json>  JSON array of constructor arguments
+
+Backend
+  --network <id>             ${BUILTIN_NETWORKS.map(network => network.id).join(', ')} or an id from --networks
+                             (default ${DEFAULT_NETWORK_ID})
+  --networks <file>          JSON array of custom networks ({ id, name, chainId, rpcUrl, nativeCurrency, ... })
+  --rpc-url <url>            RPC endpoint for the network, whose chain id must match; the node URL with --network local
+  --fork-url <url>           Upstream RPC the local node forks from
+
+Generation
+  --strategy <name>          heuristic (default) or llm
+  --llm-endpoint <url>       OpenAI-compatible API base URL (API key from LLM_API_KEY)
+  --llm-model <name>         Model name for the llm strategy
+  --source <file>            Solidity source with NatSpec for the llm strategy and the security pass
+  --security                 Flag risky patterns and add an exploit case per finding (needs --network local)
+
+Suites
+  --suite <file>             Run a saved JSON or YAML suite instead of generating cases
+  --save-suite <file>        Save the cases as a suite (.json, .yaml or .yml) before running
+  --suite-name <name>        Name of the saved suite
+
+Gas
+  --gas-baseline <file>      Compare median gas per function against this baseline
+  --update-gas-baseline      Write this run's gas profile to the baseline file instead
+  --gas-tolerance <percent>  Allowed median gas increase before failing (default 5)
+
+Execution
+  --concurrency <n>          Read-only cases run at once (default ${DEFAULT_CONCURRENCY}); writes always run one at a time
+  --step-timeout <seconds>   Fail a step whose RPC calls take longer (default ${DEFAULT_STEP_TIMEOUT_MS / 1000})
+  --test-timeout <seconds>   Fail a test that takes longer (default ${DEFAULT_TEST_TIMEOUT_MS / 1000})
+  --retries <n>              Retries for tests failing on RPC errors (default ${DEFAULT_RETRIES})
+
+Coverage
+  --coverage                 Report function, line, branch and revert-path coverage against the
+                             .sol sources of --abi or --source (needs --network local)
+  --lcov <file>              Write the coverage as an LCOV tracefile (implies --coverage)
+  --target-uncovered         Then generate cases aimed at the branches never taken and run them too
+                             (implies --coverage)
+
+Differential
+  --compare-address <0x...>  Run every case against this deployment too and report where it diverges
+                             (return values, events, reverts, ether moved, gas)
+  --compare-bytecode <hex|file>
+                             Deploy this creation bytecode to the local node and compare against it
+  --compare-source <path>    .sol file or directory of the compared version; checks that its storage layout
+                             keeps the one of --abi or --source, as a proxy upgrade needs
+  --compare-contract <name>  Contract of --compare-source to check (default the one with the most state)
+  --diff-report <file>       Write the divergences as a Markdown report
+
+Reports
+  --junit <file>             Write a JUnit XML report
+  --json <file>              Write a JSON report
+
+Exits with 0 when every test passes, 1 when any test fails, gas regresses or the compared deployment diverges and 2 on usage or setup errors.`;
+
+export class UsageError extends Error {}
+
+export function parseOptions(argv: string[]): CliOptions | null {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      abi: { type: 'string' },
+      contract: { type: 'string' },
+      'verified-source': { type: 'boolean', default: false },
+      'explorer-api': { type: 'string' },
+      address: { type: 'string' },
+      deploy: { type: 'boolean', default: false },
+      bytecode: { type: 'string' },
+      'constructor-args': { type: 'string' },
+      network: { type: 'string', default: DEFAULT_NETWORK_ID },
+      networks: { type: 'string' },
+      'rpc-url': { type: 'string' },
+      'fork-url': { type: 'string' },
+      strategy: { type: 'string', default: 'heuristic' },
+      'llm-endpoint': { type: 'string' },
+      'llm-model': { type: 'string' },
+      source: { type: 'string' },
+      security: { type: 'boolean', default: false },
+      suite: { type: 'string' },
+      'save-suite': { type: 'string' },
+      'suite-name': { type: 'string' },
+      'gas-baseline': { type: 'string' },
+      'update-gas-baseline': { type: 'boolean', default: false },
+      'gas-tolerance': { type: 'string' },
+      concurrency: { type: 'string' },
+      'step-timeout': { type: 'string' },
+      'test-timeout': { type: 'string' },
+      retries: { type: 'string' },
+      junit: { type: 'string' },
+      json: { type: 'string' },
+      coverage: { type: 'boolean', default: false },
+      lcov: { type: 'string' },
+      'target-uncovered': { type: 'boolean', default: false },
+      'compare-address': { type: 'string' },
+      'compare-bytecode': { type: 'string' },
+      'compare-source': { type: 'string' },
+      'compare-contract': { type: 'string' },
+      'diff-report': { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  if (values.help) {
+    return null;
+  }
+  if (!values.abi && !values.suite && !values['verified-source']) {
+    throw new UsageError('--abi, --suite or --verified-source is required');
+  }
+  if (values.abi && values['verified-source']) {
+    throw new UsageError('Pass either --abi or --verified-source');
+  }
+  if (values['verified-source'] && !values.address) {
+    throw new UsageError('--verified-source needs --address');
+  }
+  const deploy = values.deploy || values.bytecode !== undefined;
+  if (values.address && deploy) {
+    throw new UsageError('Pass either --address or --deploy');
+  }
+  // A suite carries the address it was written for
+  if (!values.address && !deploy && !values.suite) {
+    throw new UsageError('Pass either --address or --deploy');
+  }
+  if (deploy && values.network !== LOCAL_NETWORK_ID) {
+    throw new UsageError('Deploying requires --network local');
+  }
+  // Exploit attempts change state and need funded actors
+  if (values.security && values.network !== LOCAL_NETWORK_ID) {
+    throw new UsageError('--security requires --network local');
+  }
+  // Opcode traces are only served by local nodes
+  const coverage = values.coverage || values.lcov !== undefined || values['target-uncovered'];
+  if (coverage && values.network !== LOCAL_NETWORK_ID) {
+    throw new UsageError('--coverage requires --network local');
+  }
+  const compare = values['compare-address'] !== undefined || values['compare-bytecode'] !== undefined;
+  if (values['compare-address'] && values['compare-bytecode']) {
+    throw new UsageError('Pass either --compare-address or --compare-bytecode');
+  }
+  if (values['compare-bytecode'] && values.network !== LOCAL_NETWORK_ID) {
+    throw new UsageError('--compare-bytecode requires --network local');
+  }
+  if (!compare && (values['compare-source'] || values['compare-contract'] || values['diff-report'])) {
+    throw new UsageError('--compare-source, --compare-contract and --diff-report need --compare-address or --compare-bytecode');
+  }
+  // The compared deployment's code matches none of the sources, and targeted cases would run on one side only
+  if (compare && coverage) {
+    throw new UsageError('Comparing deployments cannot be combined with --coverage');
+  }
+  if (values.strategy !== 'heuristic' && values.strategy !== 'llm') {
+    throw new UsageError(`Unknown strategy ${values.strategy}`);
+  }
+  if (values.strategy === 'llm' && (!values['llm-endpoint'] || !values['llm-model'])) {
+    throw new UsageError('The llm strategy needs --llm-endpoint and --llm-model');
+  }
+
+  if (values['update-gas-baseline'] && !values['gas-baseline']) {
+    throw new UsageError('--update-gas-baseline needs --gas-baseline');
+  }
+  const gasTolerance = values['gas-tolerance'] === undefined ? DEFAULT_GAS_TOLERANCE * 100 : Number(values['gas-tolerance']);
+  if (!Number.isFinite(gasTolerance) || gasTolerance < 0) {
+    throw new UsageError('--gas-tolerance must be a non-negative percentage');
+  }
+
+  const concurrency = parseCount(values.concurrency, DEFAULT_CONCURRENCY, '--concurrency', 1);
+  const retries = parseCount(values.retries, DEFAULT_RETRIES, '--retries', 0);
+  const stepTimeout = parseCount(values['step-timeout'], DEFAULT_STEP_TIMEOUT_MS / 1000, '--step-timeout', 1);
+  const testTimeout = parseCount(values['test-timeout'], DEFAULT_TEST_TIMEOUT_MS / 1000, '--test-timeout', 1);
+
+  let constructorArgs: unknown[] = [];
+  if (values['constructor-args']) {
+    try {
+      constructorArgs = JSON.parse(values['constructor-args']);
+    } catch {
+      throw new UsageError('--constructor-args must be a JSON array');
+    }
+    if (!Array.isArray(constructorArgs)) {
+      throw new UsageError('--constructor-args must be a JSON array');
+    }
+  }
+
+  return {
+    abiPath: values.abi,
+    contractName: values.contract,
+    verifiedSource: values['verified-source'] ?? false,
+    explorerApiUrl: values['explorer-api'],
+    address: values.address,
+    deploy,
+    bytecode: values.bytecode,
+    constructorArgs,
+    network: values.network ?? DEFAULT_NETWORK_ID,
+    networksPath: values.networks,
+    rpcUrl: values['rpc-url'],
+    forkUrl: values['fork-url'],
+    strategy: values.strategy,
+    llmEndpoint: values['llm-endpoint'],
+    llmModel: values['llm-model'],
+    sourcePath: values.source,
+    security: values.security ?? false,
+    suitePath: values.suite,
+    saveSuitePath: values['save-suite'],
+    suiteName: values['suite-name'],
+    gasBaselinePath: values['gas-baseline'],
+    updateGasBaseline: values['update-gas-baseline'] ?? false,
+    gasTolerance: gasTolerance / 100,
+    concurrency,
+    stepTimeoutMs: stepTimeout * 1000,
+    testTimeoutMs: testTimeout * 1000,
+    retries,
+    junitPath: values.junit,
+    jsonPath: values.json,
+    coverage: coverage ?? false,
+    lcovPath: values.lcov,
+    targetUncovered: values['target-uncovered'] ?? false,
+    compareAddress: values['compare-address'],
+    compareBytecode: values['compare-bytecode'],
+    compareSourcePath: values['compare-source'],
+    compareContract: values['compare-contract'],
+    diffReportPath: values['diff-report']
+  };
+}
+
+function parseCount(value: string | undefined, fallback: number, flag: string, min: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < min) {
+    throw new UsageError(`${flag} must be an integer of at least ${min}`);
+  }
+  return count;
+}
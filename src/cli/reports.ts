@@ -0,0 +1,186 @@
+import { TestCase, TestResult } from '../types/TestCase';
+import { GasRegression, GasReport } from '../types/Gas';
+import { FindingVerdict, SecurityFinding } from '../types/Security';
+import { CoverageReport } from '../types/Coverage';
+import { DifferentialReport } from '../types/Differential';
+import { describeGasRegression } from '../services/GasProfiler';
+import { RejectedTestCase } from '../services/TestCaseValidator';
+import { stringify } from '../utils/format';
+
+export interface SuiteRun {
+  contractAddress: string;
+  network: string;
+  strategy: string;
+  startedAt: number;
+  durationMs: number;
+  cases: CaseRun[];
+  // Disabled in the suite and not run
+  skipped: TestCase[];
+  // Generated cases dropped by validation; reported but not run
+  rejected: RejectedTestCase[];
+  gas: GasReport;
+  // Only set when the run was compared against a baseline
+  gasComparison?: { tolerance: number; regressions: GasRegression[] };
+  // Interrupted before every case ran
+  stopped: boolean;
+  // Only set when the security pass ran
+  findings?: FindingRun[];
+  // Only set when the run traced coverage
+  coverage?: CoverageReport;
+  // Only set when the cases also ran against a second deployment; cases then hold the first deployment's results
+  differential?: DifferentialReport;
+}
+
+export interface FindingRun {
+  finding: SecurityFinding;
+  verdict: FindingVerdict;
+}
+
+export interface CaseRun {
+  testCase: TestCase;
+  result: TestResult;
+  durationMs: number;
+}
+
+export function summarize(run: SuiteRun): { total: number; passed: number; failed: number; skipped: number } {
+  const failed = run.cases.filter(item => !item.result.success).length;
+  return {
+    total: run.cases.length + run.skipped.length,
+    passed: run.cases.length - failed,
+    failed,
+    skipped: run.skipped.length
+  };
+}
+
+export function toJUnitXml(run: SuiteRun): string {
+  const { total, failed, skipped } = summarize(run);
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const suiteName = `${run.contractAddress} (${run.network})`;
+
+  const testCases = run.cases.map(({ testCase, result, durationMs }) => {
+    const lines = [`    <testcase name="${escapeXml(testCase.name)}" classname="${escapeXml(suiteName)}" time="${seconds(durationMs)}">`];
+    if (!result.success) {
+      const message = result.error ?? 'Test failed';
+      lines.push(`      <failure message="${escapeXml(message)}">${escapeXml(failureDetails(result))}</failure>`);
+    }
+    lines.push(`      <system-out>${escapeXml(result.logs.join('\n'))}</system-out>`);
+    lines.push('    </testcase>');
+    return lines.join('\n');
+  });
+  const gasCases = run.gasComparison ? run.gas.functions.map(stats => {
+    const regression = run.gasComparison?.regressions.find(item => item.method === stats.method);
+    const lines = [`    <testcase name="${escapeXml(stats.method)}" classname="gas" time="0.000">`];
+    if (regression) {
+      lines.push(`      <failure message="${escapeXml(describeGasRegression(regression))}"/>`);
+    }
+    lines.push(`      <system-out>calls ${stats.calls}, min ${stats.min}, avg ${stats.avg}, median ${stats.median}, max ${stats.max}</system-out>`);
+    lines.push('    </testcase>');
+    return lines.join('\n');
+  }) : [];
+  const gasFailures = run.gasComparison?.regressions.length ?? 0;
+  const skippedCases = run.skipped.map(testCase =>
+    `    <testcase name="${escapeXml(testCase.name)}" classname="${escapeXml(suiteName)}" time="0.000">\n      <skipped message="Disabled in suite"/>\n    </testcase>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="dapp-test-ai" tests="${total + gasCases.length}" failures="${failed + gasFailures}" skipped="${skipped}" time="${seconds(run.durationMs)}">`,
+    `  <testsuite name="${escapeXml(suiteName)}" tests="${total}" failures="${failed}" errors="0" skipped="${skipped}" timestamp="${new Date(run.startedAt).toISOString()}" time="${seconds(run.durationMs)}">`,
+    ...testCases,
+    ...skippedCases,
+    '  </testsuite>',
+    ...(gasCases.length > 0
+      ? [`  <testsuite name="gas" tests="${gasCases.length}" failures="${gasFailures}" errors="0" skipped="0">`, ...gasCases, '  </testsuite>']
+      : []),
+    '</testsuites>',
+    ''
+  ].join('\n');
+}
+
+export function toJsonReport(run: SuiteRun): string {
+  const report = {
+    contractAddress: run.contractAddress,
+    network: run.network,
+    strategy: run.strategy,
+    startedAt: new Date(run.startedAt).toISOString(),
+    durationMs: run.durationMs,
+    summary: summarize(run),
+    stopped: run.stopped,
+    rejected: run.rejected,
+    skipped: run.skipped.map(testCase => ({ id: testCase.id, name: testCase.name })),
+    gas: {
+      functions: run.gas.functions,
+      tolerance: run.gasComparison?.tolerance,
+      regressions: run.gasComparison?.regressions
+    },
+    findings: run.findings?.map(({ finding, verdict }) => ({
+      id: finding.id,
+      detector: finding.detector,
+      severity: finding.severity,
+      title: finding.title,
+      function: finding.function,
+      evidence: finding.evidence,
+      verdict,
+      testCaseId: finding.testCase.id
+    })),
+    coverage: run.coverage,
+    // Divergences only; the candidate's full results would repeat most of cases
+    differential: run.differential && {
+      baseline: run.differential.baseline,
+      candidate: run.differential.candidate,
+      behavioralDivergences: run.differential.behavioralDivergences,
+      gasDivergences: run.differential.gasDivergences,
+      layout: run.differential.layout,
+      cases: run.differential.cases.map(comparison => ({
+        id: comparison.testCaseId,
+        name: comparison.testCaseName,
+        divergences: comparison.divergences
+      }))
+    },
+    cases: run.cases.map(({ testCase, result, durationMs }) => ({
+      id: testCase.id,
+      name: testCase.name,
+      description: testCase.description,
+      specReference: testCase.specReference,
+      success: result.success,
+      durationMs,
+      error: result.error,
+      failedAssertion: result.failedAssertion,
+      fuzz: result.fuzz,
+      attack: result.attack,
+      steps: result.steps,
+      logs: result.logs
+    }))
+  };
+  // Round-trip through stringify so bigints and decoded ABI values are serialisable
+  return JSON.stringify(JSON.parse(stringify(report)), null, 2) + '\n';
+}
+
+function failureDetails(result: TestResult): string {
+  const details = [result.error ?? 'Test failed'];
+  if (result.attack?.achieved && result.attack.summary !== result.error) {
+    details.push(result.attack.summary);
+  }
+  if (result.failedAssertion) {
+    details.push(`Assertion: ${stringify(result.failedAssertion.assertion)}`);
+    if (result.failedAssertion.actual !== undefined) {
+      details.push(`Actual: ${result.failedAssertion.actual}`);
+    }
+  }
+  if (result.fuzz?.counterexample) {
+    details.push(`Counterexample: ${stringify(result.fuzz.counterexample)} (seed ${result.fuzz.seed})`);
+  }
+  return details.join('\n');
+}
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters other than tab and newlines are not allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,146 @@
+import { Download, Target } from 'lucide-react';
+import { CoverageCounter, CoverageReport, CoverageTotals, FileCoverage } from '../types/Coverage';
+import { coveragePercent } from '../services/CoverageCollector';
+
+interface CoveragePanelProps {
+  report: CoverageReport;
+  isTargeting: boolean;
+  onExportLcov: () => void;
+  // Generates cases aimed at the uncovered branch arms and adds them to the suite
+  onTargetUncovered: () => void;
+}
+
+const METRICS: { key: keyof CoverageTotals; label: string }[] = [
+  { key: 'functions', label: 'Functions' },
+  { key: 'lines', label: 'Lines' },
+  { key: 'branches', label: 'Branches' },
+  { key: 'revertPaths', label: 'Revert paths' }
+];
+
+function barColor(percent: number): string {
+  if (percent >= 80) return 'bg-green-500';
+  if (percent >= 50) return 'bg-yellow-500';
+  return 'bg-red-500';
+}
+
+function Metric({ label, counter }: { label: string; counter: CoverageCounter }) {
+  const percent = coveragePercent(counter);
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="text-gray-700">{label}</span>
+        <span className="text-gray-500">{counter.covered}/{counter.total} · {percent.toFixed(1)}%</span>
+      </div>
+      <div className="h-2 bg-gray-100 rounded">
+        <div className={`h-2 rounded ${barColor(percent)}`} style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+}
+
+function FileDetails({ file }: { file: FileCoverage }) {
+  const missedFunctions = file.functions.filter(item => item.hits === 0);
+  const missedLines = file.lines.filter(item => item.hits === 0).map(item => item.line);
+  return (
+    <details className="py-3 text-sm">
+      <summary className="cursor-pointer flex items-center justify-between">
+        <span className="font-mono text-gray-900">{file.path}</span>
+        <span className="text-xs text-gray-500">
+          {METRICS.map(({ key, label }) => `${label.toLowerCase()} ${coveragePercent(file.totals[key]).toFixed(0)}%`).join(' · ')}
+        </span>
+      </summary>
+      {missedFunctions.length > 0 && (
+        <p className="mt-2 text-xs text-gray-600">Never called: {missedFunctions.map(item => item.name).join(', ')}</p>
+      )}
+      {missedLines.length > 0 && (
+        <p className="mt-1 text-xs text-gray-600">Lines never run: {missedLines.join(', ')}</p>
+      )}
+      {file.branches.length > 0 && (
+        <table className="w-full mt-2 text-xs">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-1">Line</th>
+              <th className="py-1">Branch</th>
+              <th className="py-1 text-right">Arms taken</th>
+            </tr>
+          </thead>
+          <tbody>
+            {file.branches.map((branch, index) => (
+              <tr key={index} className="border-b border-gray-100">
+                <td className="py-1">{branch.line}</td>
+                <td className="py-1 font-mono">{branch.kind} ({branch.label}){branch.function && ` in ${branch.function}`}</td>
+                <td className="py-1 text-right space-x-2">
+                  {branch.arms.map(({ arm, hits }) => (
+                    <span key={arm} className={hits > 0 ? 'text-green-700' : 'text-red-600'}>{arm} ×{hits}</span>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {file.revertPaths.length > 0 && (
+        <ul className="mt-2 text-xs space-y-0.5">
+          {file.revertPaths.map((path, index) => (
+            <li key={index} className={path.hits > 0 ? 'text-green-700' : 'text-gray-500'}>
+              {path.hits > 0 ? `Reverted ${path.hits}×` : 'Never reverted'} at line {path.line}: {path.kind} {path.label}
+              {path.function && ` in ${path.function}`}
+            </li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+}
+
+// Function, line, branch and revert-path coverage of the last run, from opcode traces mapped back to the sources
+export function CoveragePanel({ report, isTargeting, onExportLcov, onTargetUncovered }: CoveragePanelProps) {
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-2xl font-semibold flex items-center">
+          <Target className="w-6 h-6 mr-2 text-teal-600" />
+          Coverage
+        </h2>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={onTargetUncovered}
+            disabled={isTargeting || report.uncovered.length === 0}
+            className="px-3 py-2 bg-teal-600 text-white text-sm rounded-md hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            {isTargeting ? 'Generating...' : `Target Uncovered (${report.uncovered.length})`}
+          </button>
+          <button
+            onClick={onExportLcov}
+            disabled={report.files.length === 0}
+            className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export LCOV
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        {report.tracedSteps} steps traced
+        {report.contracts.length > 0 && ` through ${report.contracts.join(', ')}`}
+      </p>
+      {report.error && <p className="mb-2 text-sm text-red-700">{report.error}</p>}
+      {report.unmapped.length > 0 && (
+        <p className="mb-2 text-xs text-yellow-700">
+          Code with no matching compiled source also ran at {report.unmapped.join(', ')} and is left out, e.g. attacker
+          contracts or builds with other compiler settings than the loaded sources
+        </p>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+        {METRICS.map(({ key, label }) => (
+          <Metric key={key} label={label} counter={report.totals[key]} />
+        ))}
+      </div>
+      <div className="divide-y divide-gray-100">
+        {report.files.map(file => (
+          <FileDetails key={file.path} file={file} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { Download, GitCompare } from 'lucide-react';
+import { CaseComparison, DifferentialReport, StorageLayoutReport } from '../types/Differential';
+
+interface DifferentialPanelProps {
+  report: DifferentialReport;
+  onExport: () => void;
+}
+
+function LayoutCheck({ layout }: { layout: StorageLayoutReport }) {
+  return (
+    <div className={`mb-4 p-4 rounded-md ${layout.compatible ? 'bg-green-50' : 'bg-red-50'}`}>
+      <p className={`text-sm font-medium ${layout.compatible ? 'text-green-800' : 'text-red-800'}`}>
+        Storage layout of {layout.candidateContract} is {layout.compatible ? 'compatible with' : 'incompatible with'} {layout.baselineContract}
+      </p>
+      {layout.issues.length > 0 && (
+        <ul className="mt-2 text-xs space-y-0.5">
+          {layout.issues.map((issue, index) => (
+            <li key={index} className={issue.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}>
+              {issue.severity === 'error' ? 'Error' : 'Warning'} at slot {issue.slot}: {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function Comparison({ comparison }: { comparison: CaseComparison }) {
+  const behavioral = comparison.divergences.filter(divergence => divergence.kind !== 'gas').length;
+  return (
+    <details className="py-3 text-sm" open={behavioral > 0}>
+      <summary className="cursor-pointer flex items-center justify-between">
+        <span className="text-gray-900">{comparison.testCaseName}</span>
+        <span className={`text-xs ${behavioral > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+          {behavioral} behavioral, {comparison.divergences.length - behavioral} gas
+        </span>
+      </summary>
+      <table className="w-full mt-2 text-xs">
+        <thead>
+          <tr className="text-left text-gray-500 border-b">
+            <th className="py-1">Step</th>
+            <th className="py-1">Divergence</th>
+            <th className="py-1">Baseline</th>
+            <th className="py-1">Candidate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {comparison.divergences.map((divergence, index) => (
+            <tr key={index} className={`border-b border-gray-100 align-top ${divergence.kind === 'gas' ? 'text-gray-500' : 'text-gray-900'}`}>
+              <td className="py-1 font-mono">{divergence.stepId ?? '—'}</td>
+              <td className="py-1">{divergence.message}</td>
+              <td className="py-1 font-mono break-all">{divergence.baseline}</td>
+              <td className="py-1 font-mono break-all">{divergence.candidate}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+}
+
+// Step-by-step differences between two deployments running the same suite, plus the storage layout check
+export function DifferentialPanel({ report, onExport }: DifferentialPanelProps) {
+  const diverging = report.cases.filter(comparison => comparison.divergences.length > 0);
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-2xl font-semibold flex items-center">
+          <GitCompare className="w-6 h-6 mr-2 text-indigo-600" />
+          Differential
+        </h2>
+        <button
+          onClick={onExport}
+          className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-md hover:bg-gray-200 transition-colors duration-200"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Export Report
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        <span className="font-mono">{report.baseline.address}</span> vs <span className="font-mono">{report.candidate.address}</span>:{' '}
+        {report.cases.length} cases compared, {report.behavioralDivergences} behavioral divergences, {report.gasDivergences} gas changes
+      </p>
+      {report.layout && <LayoutCheck layout={report.layout} />}
+      {diverging.length === 0 ? (
+        <p className="text-sm text-green-700">Both deployments behaved the same in every case</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {diverging.map(comparison => (
+            <Comparison key={comparison.testCaseId} comparison={comparison} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { ChangeEvent, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { NetworkConfig } from '../types/Network';
+import { errorMessage } from '../utils/format';
+
+interface NetworkManagerProps {
+  networks: NetworkConfig[];
+  // Throws when the entry is invalid; the message is shown in the form
+  onAdd: (network: NetworkConfig) => void;
+  onRemove: (id: string) => void;
+}
+
+const EMPTY_FORM = { id: '', name: '', chainId: '', rpcUrl: '', explorerUrl: '', symbol: 'ETH' };
+
+// Adds networks or points a built-in one at the user's own RPC URL by reusing its id
+export function NetworkManager({ networks, onAdd, onRemove }: NetworkManagerProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState('');
+
+  const edit = (field: keyof typeof EMPTY_FORM) => (e: ChangeEvent<HTMLInputElement>) =>
+    setForm(current => ({ ...current, [field]: e.target.value }));
+
+  const handleAdd = () => {
+    try {
+      onAdd({
+        id: form.id.trim(),
+        name: form.name.trim(),
+        chainId: Number(form.chainId),
+        rpcUrl: form.rpcUrl.trim(),
+        explorerUrl: form.explorerUrl.trim() || undefined,
+        nativeCurrency: { name: form.symbol.trim(), symbol: form.symbol.trim(), decimals: 18 }
+      });
+      setForm(EMPTY_FORM);
+      setError('');
+    } catch (error) {
+      setError(errorMessage(error));
+    }
+  };
+
+  const fields: { field: keyof typeof EMPTY_FORM; placeholder: string }[] = [
+    { field: 'id', placeholder: 'Id, e.g. base or mainnet' },
+    { field: 'name', placeholder: 'Name' },
+    { field: 'chainId', placeholder: 'Chain id' },
+    { field: 'rpcUrl', placeholder: 'RPC URL' },
+    { field: 'explorerUrl', placeholder: 'Explorer URL (optional)' },
+    { field: 'symbol', placeholder: 'Currency symbol' }
+  ];
+
+  return (
+    <div className="mt-3 p-4 border border-gray-200 rounded-lg bg-gray-50 space-y-3">
+      {networks.filter(network => network.custom).length > 0 && (
+        <ul className="divide-y divide-gray-200 text-sm">
+          {networks.filter(network => network.custom).map(network => (
+            <li key={network.id} className="flex items-center justify-between py-2">
+              <span>
+                <span className="font-medium">{network.name}</span>
+                <span className="text-gray-500"> ({network.id}, chain {network.chainId}) {network.rpcUrl}</span>
+              </span>
+              <button onClick={() => onRemove(network.id)} className="text-gray-500 hover:text-red-600" title="Remove">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        {fields.map(({ field, placeholder }) => (
+          <input
+            key={field}
+            type="text"
+            value={form[field]}
+            onChange={edit(field)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder={placeholder}
+          />
+        ))}
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        onClick={handleAdd}
+        className="px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors duration-200"
+      >
+        Save Network
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { History, RotateCcw, Trash2 } from 'lucide-react';
+import { TestCase } from '../types/TestCase';
+import { RunRecord } from '../types/RunHistory';
+import { ScheduledResult } from '../services/TestScheduler';
+import { findStatusChanges, passRate } from '../services/RunHistory';
+
+interface RunSummaryProps {
+  testCases: TestCase[];
+  isExecuting: boolean;
+  onRerunFailed: () => void;
+}
+
+// Live counts of the suite's cases and the pass rate of those that finished
+export function RunSummary({ testCases, isExecuting, onRerunFailed }: RunSummaryProps) {
+  const enabled = testCases.filter(test => !test.disabled);
+  const count = (status: TestCase['status']) => enabled.filter(test => test.status === status).length;
+  const passed = count('passed');
+  const failed = count('failed');
+  const running = count('running');
+  const pending = count('pending');
+  const rate = passRate(passed, failed);
+  const width = (part: number) => `${enabled.length > 0 ? (part / enabled.length) * 100 : 0}%`;
+
+  return (
+    <div className="mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-2 text-sm">
+        <div className="flex flex-wrap gap-4">
+          <span className="text-gray-700">{enabled.length} cases</span>
+          <span className="text-green-700">{passed} passed</span>
+          <span className="text-red-700">{failed} failed</span>
+          {running > 0 && <span className="text-blue-700">{running} running</span>}
+          <span className="text-gray-500">{pending} not run</span>
+          {testCases.length > enabled.length && <span className="text-gray-500">{testCases.length - enabled.length} disabled</span>}
+        </div>
+        <div className="flex items-center space-x-3">
+          <span className="text-gray-700">{passed + failed > 0 ? `${rate.toFixed(1)}% pass rate` : 'No results yet'}</span>
+          <button
+            onClick={onRerunFailed}
+            disabled={isExecuting || failed === 0}
+            className="flex items-center px-3 py-1 bg-red-600 text-white text-sm rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Re-run Failed ({failed})
+          </button>
+        </div>
+      </div>
+      <div className="flex h-2 bg-gray-100 rounded overflow-hidden">
+        <div className="bg-green-500" style={{ width: width(passed) }} />
+        <div className="bg-red-500" style={{ width: width(failed) }} />
+        <div className="bg-blue-400 animate-pulse" style={{ width: width(running) }} />
+      </div>
+    </div>
+  );
+}
+
+// Duration, attempts and the executor's log of the case's last run
+export function CaseLogs({ run }: { run: ScheduledResult }) {
+  return (
+    <div className="mt-3">
+      <p className="text-xs text-gray-500 mb-1">
+        Ran {new Date(run.result.timestamp).toLocaleString()} in {(run.durationMs / 1000).toFixed(2)}s
+        {run.attempts > 1 && `, ${run.attempts} attempts`}
+      </p>
+      <pre className="max-h-64 overflow-auto bg-gray-900 text-gray-100 text-xs rounded-md p-3 whitespace-pre-wrap">
+        {run.result.logs.join('\n')}
+      </pre>
+    </div>
+  );
+}
+
+interface RunHistoryPanelProps {
+  history: RunRecord[];
+  onClear: () => void;
+}
+
+// Past runs of the contract, each with the cases that started failing or were fixed since the run before
+export function RunHistoryPanel({ history, onClear }: RunHistoryPanelProps) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-semibold flex items-center">
+          <History className="w-6 h-6 mr-2 text-gray-600" />
+          Run History
+        </h2>
+        <button onClick={onClear} className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-md hover:bg-gray-200 transition-colors duration-200">
+          <Trash2 className="w-4 h-4 mr-2" />
+          Clear
+        </button>
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {history.map(run => {
+          const passed = run.cases.filter(item => item.success).length;
+          const failed = run.cases.length - passed;
+          const changes = findStatusChanges(history, run);
+          return (
+            <li key={run.id} className="py-3 text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-gray-900">
+                  {new Date(run.startedAt).toLocaleString()} · {run.network}
+                  {run.stopped && <span className="text-yellow-700"> · stopped</span>}
+                </span>
+                <span className="text-gray-600">
+                  {passed}/{run.cases.length} passed · {passRate(passed, failed).toFixed(0)}% · {(run.durationMs / 1000).toFixed(1)}s
+                </span>
+              </div>
+              {changes.length > 0 && (
+                <ul className="mt-1 text-xs space-y-0.5">
+                  {changes.map(change => (
+                    <li key={change.testCaseId} className={change.change === 'fixed' ? 'text-green-700' : 'text-red-700'}>
+                      {change.change === 'fixed' ? 'Fixed' : 'Started failing'}: {change.name}
+                      {change.error && change.change === 'startedFailing' && ` (${change.error})`}
+                      <span className="text-gray-500">
+                        {' '}· {change.change === 'fixed' ? 'failed' : 'passed'} in the run of {new Date(change.previousRunAt).toLocaleString()}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
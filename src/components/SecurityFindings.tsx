@@ -0,0 +1,71 @@
+import { ShieldAlert } from 'lucide-react';
+import { TestCase, TestResult } from '../types/TestCase';
+import { FindingVerdict, SecurityFinding, Severity } from '../types/Security';
+import { findingVerdict } from '../services/SecurityAnalyzer';
+
+interface SecurityFindingsProps {
+  findings: SecurityFinding[];
+  testCases: TestCase[];
+  // Latest run of each case by id; the exploit step's own outcome decides the verdict
+  results: Record<string, TestResult>;
+  onAddCases: (testCases: TestCase[]) => void;
+}
+
+const SEVERITY_STYLES: Record<Severity, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-orange-100 text-orange-800',
+  low: 'bg-yellow-100 text-yellow-800',
+  info: 'bg-gray-100 text-gray-700'
+};
+
+const VERDICT_STYLES: Record<FindingVerdict, string> = {
+  confirmed: 'text-red-700',
+  dismissed: 'text-green-700',
+  unverified: 'text-gray-500'
+};
+
+// Findings of the security pass; running their exploit cases on a local fork confirms or dismisses them
+export function SecurityFindings({ findings, testCases, results, onAddCases }: SecurityFindingsProps) {
+  const inSuite = new Map(testCases.map(test => [test.id, test]));
+  const missing = findings.filter(finding => !inSuite.has(finding.testCase.id)).map(finding => finding.testCase);
+
+  const verdictOf = (finding: SecurityFinding) => findingVerdict(finding, results[finding.testCase.id]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-semibold flex items-center">
+          <ShieldAlert className="w-6 h-6 mr-2 text-orange-600" />
+          Security Findings
+        </h2>
+        <button
+          onClick={() => onAddCases(missing)}
+          disabled={missing.length === 0}
+          className="px-3 py-2 bg-orange-600 text-white text-sm rounded-md hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+        >
+          Add Exploit Cases ({missing.length})
+        </button>
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {findings.map(finding => {
+          const verdict = verdictOf(finding);
+          return (
+            <li key={finding.id} className="py-3 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="flex items-center space-x-2">
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium uppercase ${SEVERITY_STYLES[finding.severity]}`}>
+                    {finding.severity}
+                  </span>
+                  <span className="font-medium text-gray-900">{finding.title}</span>
+                </span>
+                <span className={`text-xs font-medium ${VERDICT_STYLES[verdict]}`}>{verdict}</span>
+              </div>
+              <p className="text-gray-600 mt-1">{finding.description}</p>
+              <p className="font-mono text-xs text-gray-500 mt-1 break-all">{finding.function}: {finding.evidence}</p>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { StepResult } from '../types/TestCase';
+import { CallFrame, DecodedEvent } from '../types/Trace';
+import { describeRevert } from '../services/RevertDecoder';
+import { findRevertFrame } from '../services/CallTracer';
+import { stringify } from '../utils/format';
+
+interface StepDetailsProps {
+  steps: StepResult[];
+  // Block explorer link for a transaction, when the network has an explorer
+  txUrl?: (hash: string) => string | undefined;
+}
+
+// Expandable per-step view of a test run: inputs, outputs, events and, for failed tests, the call tree
+export function StepDetails({ steps, txUrl }: StepDetailsProps) {
+  if (steps.length === 0) {
+    return <p className="mt-3 text-sm text-gray-500">No steps were run.</p>;
+  }
+  return (
+    <div className="mt-3 space-y-2">
+      {steps.map(step => (
+        <details key={step.stepId} open={step.reverted || step.trace !== undefined} className="border border-gray-200 rounded-md">
+          <summary className="cursor-pointer px-3 py-2 text-sm font-mono flex items-center justify-between">
+            <span>{step.stepId}: {step.method}</span>
+            <span className={step.reverted ? 'text-red-600' : 'text-gray-500'}>
+              {step.reverted ? 'reverted' : step.kind}
+            </span>
+          </summary>
+          <div className="px-3 pb-3 space-y-2 text-xs">
+            <Field label="Args" value={stringify(step.args ?? [])} />
+            {step.returnValue !== undefined && <Field label="Returned" value={stringify(step.returnValue)} />}
+            {step.revert && <Field label="Revert" value={describeRevert(step.revert)} />}
+            {step.receipt && (
+              <Field
+                label="Transaction"
+                value={`${step.receipt.hash} (block ${step.receipt.blockNumber}, gas ${step.receipt.gasUsed})`}
+                href={txUrl?.(step.receipt.hash)}
+              />
+            )}
+            {step.events && step.events.length > 0 && (
+              <div>
+                <p className="font-medium text-gray-700">Events</p>
+                <ul className="font-mono space-y-1">
+                  {step.events.map(event => <EventLine key={event.logIndex} event={event} />)}
+                </ul>
+              </div>
+            )}
+            {step.trace && (
+              <div>
+                <p className="font-medium text-gray-700">Call tree</p>
+                <CallTree frame={step.trace} revertPoint={findRevertFrame(step.trace)} />
+              </div>
+            )}
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+}
+
+function Field({ label, value, href }: { label: string; value: string; href?: string }) {
+  return (
+    <p>
+      <span className="font-medium text-gray-700">{label}: </span>
+      {href
+        ? <a href={href} target="_blank" rel="noreferrer" className="font-mono break-all text-blue-600 hover:underline">{value}</a>
+        : <span className="font-mono break-all">{value}</span>}
+    </p>
+  );
+}
+
+function EventLine({ event }: { event: DecodedEvent }) {
+  return (
+    <li className="break-all">
+      {event.name
+        ? `${event.name}(${(event.args ?? []).map(stringify).join(', ')})`
+        : `unknown event, topics ${event.topics.join(', ')}`}
+      <span className="text-gray-400"> @ {event.address}</span>
+    </li>
+  );
+}
+
+function CallTree({ frame, revertPoint }: { frame: CallFrame; revertPoint?: CallFrame }) {
+  const isRevertPoint = frame === revertPoint;
+  const call = frame.method
+    ? `${frame.method.split('(')[0]}(${(frame.args ?? []).map(stringify).join(', ')})`
+    : frame.input.slice(0, 10);
+  return (
+    <div className="font-mono">
+      <p className={`break-all ${isRevertPoint ? 'bg-red-100 text-red-800 rounded px-1' : frame.error ? 'text-red-600' : 'text-gray-700'}`}>
+        {frame.type} {frame.to ?? 'new contract'}.{call}
+        {frame.value && frame.value !== '0' && ` value ${frame.value}`}
+        {frame.result && ` → ${stringify(frame.result)}`}
+        {frame.revert && ` ✗ ${describeRevert(frame.revert)}`}
+        {!frame.revert && frame.error && ` ✗ ${frame.error}`}
+        {isRevertPoint && ' ← revert point'}
+      </p>
+      {frame.calls.length > 0 && (
+        <div className="ml-4 border-l border-gray-200 pl-2">
+          {frame.calls.map((call, index) => <CallTree key={index} frame={call} revertPoint={revertPoint} />)}
+        </div>
+      )}
+    </div>
+  );
+}
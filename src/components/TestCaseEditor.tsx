@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { TestCase, TestStep } from '../types/TestCase';
+import { validateTestCases } from '../services/TestCaseValidator';
+import { parseAbiText } from '../services/ArtifactLoader';
+
+interface TestCaseEditorProps {
+  testCase: TestCase;
+  // Raw ABI JSON from the form; edits are checked against it when it parses
+  abi: string;
+  onSave: (testCase: TestCase) => void;
+  onCancel: () => void;
+}
+
+// Edits a case's name, description and steps; steps are edited as JSON so args, actors and expectations stay free-form
+export function TestCaseEditor({ testCase, abi, onSave, onCancel }: TestCaseEditorProps) {
+  const [name, setName] = useState(testCase.name);
+  const [description, setDescription] = useState(testCase.description);
+  const [steps, setSteps] = useState(JSON.stringify(testCase.steps, null, 2));
+  const [error, setError] = useState('');
+
+  const handleSave = () => {
+    let parsedSteps: TestStep[];
+    try {
+      parsedSteps = JSON.parse(steps);
+    } catch {
+      setError('Steps must be valid JSON');
+      return;
+    }
+    if (!Array.isArray(parsedSteps)) {
+      setError('Steps must be a JSON array');
+      return;
+    }
+
+    let edited: TestCase = { ...testCase, name, description, steps: parsedSteps, actualResult: undefined, status: 'pending' };
+    let parsedAbi;
+    try {
+      parsedAbi = parseAbiText(abi);
+    } catch {
+      parsedAbi = undefined;
+    }
+    if (parsedAbi) {
+      const { valid, rejected } = validateTestCases([edited], parsedAbi);
+      if (rejected.length > 0) {
+        setError(rejected[0].reason);
+        return;
+      }
+      edited = valid[0];
+    }
+    onSave(edited);
+  };
+
+  return (
+    <div className="mt-3 space-y-3">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        rows={2}
+      />
+      <textarea
+        value={steps}
+        onChange={(e) => setSteps(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+        rows={12}
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex space-x-2">
+        <button
+          onClick={handleSave}
+          className="px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors duration-200"
+        >
+          Save
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-3 py-1 bg-gray-100 text-gray-700 text-sm rounded-md hover:bg-gray-200 transition-colors duration-200"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { ethers } from 'ethers';
+import { Eye } from 'lucide-react';
+import { PlannedTransaction, TransactionPreview } from '../types/Wallet';
+
+interface TransactionListProps {
+  transactions: PlannedTransaction[];
+  // Native currency symbol of the chain the wallet is on
+  symbol: string;
+}
+
+interface TransactionPreviewPanelProps {
+  preview: TransactionPreview;
+  symbol: string;
+  onClose: () => void;
+}
+
+interface ConfirmTransactionsDialogProps {
+  transactions: PlannedTransaction[];
+  symbol: string;
+  onApprove: () => void;
+  // Approves this case and every later one of the run
+  onApproveAll: () => void;
+  onReject: () => void;
+}
+
+function formatCost(wei: string, symbol: string): string {
+  return `${ethers.formatEther(BigInt(wei))} ${symbol}`;
+}
+
+function totalCost(transactions: PlannedTransaction[]): bigint {
+  return transactions.reduce((total, transaction) => total + BigInt(transaction.maxCost ?? '0'), 0n);
+}
+
+export function TransactionList({ transactions, symbol }: TransactionListProps) {
+  return (
+    <ul className="divide-y divide-gray-100 text-sm">
+      {transactions.map(transaction => (
+        <li key={`${transaction.testCaseId}:${transaction.stepId}`} className="py-2">
+          <div className="flex items-center justify-between">
+            <span className="font-mono text-gray-900">{transaction.method}</span>
+            <span className="text-gray-700">
+              {transaction.maxCost ? `≤ ${formatCost(transaction.maxCost, symbol)}` : 'not estimated'}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500">
+            {transaction.testCaseName} · step {transaction.stepId} · from {transaction.fromWallet ? 'your wallet' : transaction.from}
+            {BigInt(transaction.value) > 0n && ` · sends ${formatCost(transaction.value, symbol)}`}
+            {transaction.gasLimit && ` · ${transaction.gasLimit} gas`}
+          </p>
+          {transaction.note && <p className="text-xs text-yellow-700">{transaction.note}</p>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Dry run of the suite: every transaction it will send and the most the wallet can pay, before anything is signed
+export function TransactionPreviewPanel({ preview, symbol, onClose }: TransactionPreviewPanelProps) {
+  const fromWallet = preview.transactions.filter(transaction => transaction.fromWallet);
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-semibold flex items-center">
+          <Eye className="w-6 h-6 mr-2 text-purple-600" />
+          Transaction Preview
+        </h2>
+        <button onClick={onClose} className="text-sm text-gray-600 hover:text-gray-900">Close</button>
+      </div>
+      <p className="text-sm text-gray-600 mb-2">
+        {preview.transactions.length} transactions, {fromWallet.length} signed by {preview.account} on chain {preview.chainId}.
+        At {ethers.formatUnits(BigInt(preview.maxFeePerGas), 'gwei')} gwei the wallet pays at most {formatCost(preview.totalMaxCost, symbol)}.
+      </p>
+      {preview.skipped.length > 0 && (
+        <ul className="mb-2 text-xs text-gray-500">
+          {preview.skipped.map(item => (
+            <li key={item.testCaseName}>Skipped {item.testCaseName}: {item.reason}</li>
+          ))}
+        </ul>
+      )}
+      <TransactionList transactions={preview.transactions} symbol={symbol} />
+    </div>
+  );
+}
+
+// Asked before each case that makes the wallet sign, so the wallet's own prompts come as one expected batch
+export function ConfirmTransactionsDialog({ transactions, symbol, onApprove, onApproveAll, onReject }: ConfirmTransactionsDialogProps) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div className="bg-white rounded-xl shadow-xl p-6 w-full max-w-2xl">
+        <h3 className="text-lg font-semibold mb-1">Confirm {transactions.length} wallet transactions</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {transactions[0]?.testCaseName} sends these from your wallet, at most {formatCost(totalCost(transactions).toString(), symbol)} in total.
+          Your wallet asks for each signature next.
+        </p>
+        <div className="max-h-80 overflow-y-auto mb-4">
+          <TransactionList transactions={transactions} symbol={symbol} />
+        </div>
+        <div className="flex justify-end space-x-2">
+          <button onClick={onReject} className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors duration-200">
+            Reject
+          </button>
+          <button onClick={onApproveAll} className="px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-900 transition-colors duration-200">
+            Approve All
+          </button>
+          <button onClick={onApprove} className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors duration-200">
+            Approve
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
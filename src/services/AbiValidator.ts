@@ -0,0 +1,99 @@
+import { ethers } from 'ethers';
+
+const ENTRY_TYPES = ['function', 'constructor', 'receive', 'fallback', 'event', 'error'];
+const NAMED_TYPES = ['function', 'event', 'error'];
+const STATE_MUTABILITIES = ['pure', 'view', 'nonpayable', 'payable'];
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+// Checks an ABI entry by entry so a bad paste names the entry and parameter at fault instead of failing as a whole
+export function validateAbi(abi: unknown): ethers.JsonFragment[] {
+  if (!Array.isArray(abi)) {
+    throw new Error('ABI must be a JSON array of entries');
+  }
+  abi.forEach((entry, index) => {
+    const problem = findEntryProblem(entry);
+    if (problem) {
+      throw new Error(`ABI entry ${index}${describeEntry(entry)}: ${problem}`);
+    }
+  });
+  return abi as ethers.JsonFragment[];
+}
+
+function findEntryProblem(entry: unknown): string | null {
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    return 'must be an object';
+  }
+  const fragment = entry as Record<string, unknown>;
+  // The ABI spec lets "type" default to function
+  const type = fragment.type ?? 'function';
+  if (typeof type !== 'string' || !ENTRY_TYPES.includes(type)) {
+    return `has unknown type ${JSON.stringify(type)}; expected one of ${ENTRY_TYPES.join(', ')}`;
+  }
+  if (NAMED_TYPES.includes(type) && (typeof fragment.name !== 'string' || !IDENTIFIER.test(fragment.name))) {
+    return `needs a valid name, got ${JSON.stringify(fragment.name)}`;
+  }
+  if (fragment.stateMutability !== undefined && !STATE_MUTABILITIES.includes(fragment.stateMutability as string)) {
+    return `has unknown stateMutability ${JSON.stringify(fragment.stateMutability)}`;
+  }
+
+  for (const key of ['inputs', 'outputs']) {
+    const params = fragment[key];
+    if (params === undefined) continue;
+    if (!Array.isArray(params)) {
+      return `${key} must be an array`;
+    }
+    for (let i = 0; i < params.length; i++) {
+      const problem = findParamProblem(params[i]);
+      if (problem) {
+        const name = typeof params[i]?.name === 'string' && params[i].name !== '' ? ` "${params[i].name}"` : '';
+        return `${key.slice(0, -1)} ${i}${name} ${problem}`;
+      }
+    }
+  }
+
+  try {
+    ethers.Fragment.from(fragment);
+  } catch (error) {
+    return ethers.isError(error, 'INVALID_ARGUMENT') ? error.shortMessage : String(error);
+  }
+  return null;
+}
+
+function findParamProblem(param: unknown): string | null {
+  if (typeof param !== 'object' || param === null) {
+    return 'must be an object';
+  }
+  const { type, components, indexed } = param as { type?: unknown; components?: unknown; indexed?: unknown };
+  if (typeof type !== 'string' || type === '') {
+    return 'has no type';
+  }
+  if (indexed !== undefined && typeof indexed !== 'boolean') {
+    return '"indexed" must be a boolean';
+  }
+  if (type.startsWith('tuple')) {
+    if (!Array.isArray(components)) {
+      return `is a ${type} without components`;
+    }
+    for (let i = 0; i < components.length; i++) {
+      const problem = findParamProblem(components[i]);
+      if (problem) {
+        return `component ${i} ${problem}`;
+      }
+    }
+    return null;
+  }
+  try {
+    // Whether indexed is allowed at all depends on the entry type, which Fragment.from checks
+    ethers.ParamType.from(param as ethers.JsonFragmentType, indexed !== undefined);
+  } catch {
+    return `has invalid type ${type}`;
+  }
+  return null;
+}
+
+function describeEntry(entry: unknown): string {
+  if (typeof entry !== 'object' || entry === null) return '';
+  const { type, name } = entry as { type?: unknown; name?: unknown };
+  const label = [typeof type === 'string' ? type : undefined, typeof name === 'string' ? name : undefined].filter(Boolean);
+  return label.length > 0 ? ` (${label.join(' ')})` : '';
+}
@@ -0,0 +1,76 @@
+import { ethers } from 'ethers';
+import { TestCase } from '../types/TestCase';
+import { ValueGenerator } from './ValueGenerator';
+import { stableId } from '../utils/ids';
+
+// Names that suggest a function is meant for a privileged caller
+const PRIVILEGED_NAME = /owner|admin|role|pause|upgrade|govern|guardian|rescue|sweep|emergency|blacklist|whitelist|^set|^mint|^initialize|^kill|^destroy/i;
+// Match the pattern above but are open to every caller by design
+const UNPRIVILEGED_NAMES = new Set(['setApprovalForAll', 'renounceRole', 'acceptOwnership']);
+// ERC-4626 mint(shares, receiver) is a public entry point
+const UNPRIVILEGED_SIGNATURES = new Set(['mint(uint256,address)']);
+
+const OWNABLE_FUNCTIONS = ['owner()', 'transferOwnership(address)'];
+const ACCESS_CONTROL_FUNCTIONS = [
+  'hasRole(bytes32,address)',
+  'getRoleAdmin(bytes32)',
+  'grantRole(bytes32,address)',
+  'revokeRole(bytes32,address)'
+];
+
+// "Unauthorized caller must revert" cases, sent by the attacker actor, for every privileged-looking function
+export function generateAccessControlCases(abi: ethers.InterfaceAbi, contractAddress: string): TestCase[] {
+  const iface = ethers.Interface.from(abi);
+  const functions = iface.fragments.filter(ethers.Fragment.isFunction);
+  const signatures = new Set(functions.map(fragment => fragment.format()));
+  const ownable = OWNABLE_FUNCTIONS.every(signature => signatures.has(signature));
+  const accessControl = ACCESS_CONTROL_FUNCTIONS.every(signature => signatures.has(signature));
+  const guard = accessControl ? 'AccessControl' : ownable ? 'Ownable' : undefined;
+  const values = new ValueGenerator();
+
+  return functions
+    .filter(fragment => !fragment.constant && isPrivileged(fragment))
+    .map(fragment => ({
+      id: stableId('access', contractAddress, fragment.format()),
+      name: `Access Control: ${fragment.name} from unauthorized caller`,
+      description: guard
+        ? `${fragment.name} looks restricted by ${guard}; the attacker account must not be able to call it`
+        : `${fragment.name} looks privileged by name; the attacker account must not be able to call it`,
+      steps: [
+        {
+          id: 'unauthorized-call',
+          action: 'CONTRACT_CALL',
+          params: {
+            method: fragment.name,
+            contractAddress,
+            fragment: JSON.parse(fragment.format('json')),
+            args: fragment.inputs.map(input => attackerArg(input, values)),
+            actor: 'attacker'
+          },
+          description: `Call ${fragment.name} as the attacker`,
+          expectedOutcome: 'revert'
+        }
+      ],
+      expectedResult: 'Transaction reverts because the caller lacks the required owner or role',
+      status: 'pending'
+    }));
+}
+
+export function isPrivileged(fragment: ethers.FunctionFragment): boolean {
+  return (
+    !UNPRIVILEGED_NAMES.has(fragment.name) &&
+    !UNPRIVILEGED_SIGNATURES.has(fragment.format()) &&
+    PRIVILEGED_NAME.test(fragment.name)
+  );
+}
+
+// The attacker targets itself and the admin role, so a missing check would hand it control
+function attackerArg(input: ethers.ParamType, values: ValueGenerator): unknown {
+  if (input.type === 'address') {
+    return { addressOf: 'attacker' };
+  }
+  if (input.type === 'bytes32' && /role/i.test(input.name)) {
+    return ethers.ZeroHash;
+  }
+  return values.generate(input, 'safe');
+}
@@ -0,0 +1,70 @@
+import { ethers } from 'ethers';
+import { LocalChain } from './LocalChain';
+
+export const ACTOR_NAMES = ['deployer', 'owner', 'userA', 'userB', 'attacker'] as const;
+export type ActorName = (typeof ACTOR_NAMES)[number];
+
+// Local account per actor; the owner is the deployer because Ownable and AccessControl grant the deploying account
+const LOCAL_ACCOUNT_INDEX: Record<ActorName, number> = {
+  deployer: 0,
+  owner: 0,
+  userA: 1,
+  userB: 2,
+  attacker: 3
+};
+
+export function isActorName(value: string): value is ActorName {
+  return (ACTOR_NAMES as readonly string[]).includes(value);
+}
+
+// Named accounts that steps select through params.actor
+export class ActorRegistry {
+  private constructor(private signers: Record<ActorName, ethers.Signer>) {}
+
+  // Pre-funded unlocked accounts of the local node
+  static fromLocalChain(chain: LocalChain): ActorRegistry {
+    return new ActorRegistry(mapActors(name => chain.getSigner(LOCAL_ACCOUNT_INDEX[name])));
+  }
+
+  // Fresh wallets for public networks; they hold no funds, so only calls and reverting sends are meaningful
+  static withRandomWallets(): ActorRegistry {
+    const wallets = new Map<number, ethers.Signer>();
+    return new ActorRegistry(mapActors(name => {
+      const index = LOCAL_ACCOUNT_INDEX[name];
+      const wallet = wallets.get(index) ?? ethers.Wallet.createRandom();
+      wallets.set(index, wallet);
+      return wallet;
+    }));
+  }
+
+  // A connected wallet signs as deployer and owner; the other actors keep their own wallets
+  static withWallet(wallet: ethers.Signer, others: ActorRegistry): ActorRegistry {
+    return new ActorRegistry(mapActors(name => (LOCAL_ACCOUNT_INDEX[name] === 0 ? wallet : others.get(name))));
+  }
+
+  connect(provider: ethers.Provider): ActorRegistry {
+    return new ActorRegistry(mapActors(name => this.signers[name].connect(provider)));
+  }
+
+  get(name: ActorName): ethers.Signer {
+    return this.signers[name];
+  }
+
+  async addresses(): Promise<Record<ActorName, string>> {
+    const entries = await Promise.all(
+      ACTOR_NAMES.map(async name => [name, await this.signers[name].getAddress()] as const)
+    );
+    return Object.fromEntries(entries) as Record<ActorName, string>;
+  }
+
+  // The actor signing for an address, if the address belongs to one
+  async findByAddress(address: string): Promise<ethers.Signer | undefined> {
+    const addresses = await this.addresses();
+    const name = ACTOR_NAMES.find(item => addresses[item].toLowerCase() === address.toLowerCase());
+    return name ? this.signers[name] : undefined;
+  }
+}
+
+function mapActors(select: (name: ActorName) => ethers.Signer): Record<ActorName, ethers.Signer> {
+  return Object.fromEntries(ACTOR_NAMES.map(name => [name, select(name)])) as Record<ActorName, ethers.Signer>;
+}
@@ -0,0 +1,174 @@
+import { ethers } from 'ethers';
+import { validateAbi } from './AbiValidator';
+import { SolidityCompiler } from './SolidityCompiler';
+import { errorMessage } from '../utils/format';
+
+export interface ContractArtifact {
+  abi: ethers.JsonFragment[];
+  // Creation bytecode, when the artifact carries it
+  bytecode?: string;
+  contractName?: string;
+  // Source file the contract was compiled from, e.g. contracts/Token.sol
+  sourceName?: string;
+}
+
+// A file picked from a Hardhat artifacts/ or Foundry out/ tree, or a Solidity source
+export interface ArtifactFile {
+  path: string;
+  content: string;
+}
+
+// Standard JSON output, reduced to the fields every compilation reads
+export interface CompilerOutput {
+  errors?: { severity: string; formattedMessage?: string; message: string }[];
+}
+
+interface ArtifactOutput extends CompilerOutput {
+  contracts?: Record<string, Record<string, { abi: unknown; evm?: { bytecode?: { object?: string } } }>>;
+}
+
+// Accepts a bare ABI array, a Hardhat artifact ({ abi, bytecode }) or a Foundry artifact ({ abi, bytecode: { object } })
+export function parseArtifact(json: unknown): ContractArtifact {
+  if (Array.isArray(json)) {
+    return { abi: validateAbi(json) };
+  }
+  if (typeof json !== 'object' || json === null || !Array.isArray((json as { abi?: unknown }).abi)) {
+    throw new Error('Expected an ABI array or a compiler artifact with an "abi" field');
+  }
+
+  const artifact = json as { abi: unknown; bytecode?: unknown; contractName?: unknown; sourceName?: unknown };
+  const bytecode = typeof artifact.bytecode === 'object' && artifact.bytecode !== null
+    ? (artifact.bytecode as { object?: unknown }).object
+    : artifact.bytecode;
+
+  return {
+    abi: validateAbi(artifact.abi),
+    bytecode: normalizeBytecode(bytecode),
+    contractName: typeof artifact.contractName === 'string' ? artifact.contractName : undefined,
+    sourceName: typeof artifact.sourceName === 'string' ? artifact.sourceName : undefined
+  };
+}
+
+// ABI text as pasted into the app, either a bare ABI or a whole artifact
+export function parseAbiText(text: string): ethers.JsonFragment[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`ABI is not valid JSON: ${errorMessage(error)}`);
+  }
+  return parseArtifact(json).abi;
+}
+
+// Loads every contract from a set of artifact JSON files and compiles any .sol files among them
+export async function loadArtifactFiles(files: ArtifactFile[], compiler?: SolidityCompiler): Promise<ContractArtifact[]> {
+  const artifacts: ContractArtifact[] = [];
+  for (const file of files) {
+    if (!isArtifactPath(file.path)) continue;
+    let json: unknown;
+    try {
+      json = JSON.parse(file.content);
+    } catch {
+      throw new Error(`${file.path} is not valid JSON`);
+    }
+    // Other JSON under the tree, e.g. Foundry cache files, is not an artifact
+    if (typeof json !== 'object' || json === null || !('abi' in json)) continue;
+    try {
+      const artifact = parseArtifact(json);
+      artifacts.push({ ...artifact, contractName: artifact.contractName ?? baseName(file.path) });
+    } catch (error) {
+      throw new Error(`${file.path}: ${errorMessage(error)}`);
+    }
+  }
+
+  const sources = files.filter(file => file.path.endsWith('.sol'));
+  if (sources.length > 0) {
+    if (!compiler) {
+      throw new Error('Solidity sources need a compiler');
+    }
+    artifacts.push(...await compileSources(compiler, Object.fromEntries(sources.map(file => [file.path, file.content]))));
+  }
+  return artifacts;
+}
+
+// Compiles a set of sources keyed by path and returns an artifact per contract, interfaces and abstract contracts included
+export async function compileSources(
+  compiler: SolidityCompiler,
+  sources: Record<string, string>
+): Promise<ContractArtifact[]> {
+  const output = await compileStandardJson<ArtifactOutput>(compiler, sources, { '*': { '*': ['abi', 'evm.bytecode.object'] } });
+  return Object.entries(output.contracts ?? {}).flatMap(([sourceName, contracts]) =>
+    Object.entries(contracts).map(([contractName, contract]) => ({
+      ...parseArtifact({ abi: contract.abi, bytecode: contract.evm?.bytecode?.object }),
+      contractName,
+      sourceName
+    }))
+  );
+}
+
+// Settings are shared by every compilation, so code compiled for different outputs is byte for byte the same
+export async function compileStandardJson<T extends CompilerOutput>(
+  compiler: SolidityCompiler,
+  sources: Record<string, string>,
+  outputSelection: Record<string, Record<string, string[]>>
+): Promise<T> {
+  const input = {
+    language: 'Solidity',
+    sources: Object.fromEntries(Object.entries(sources).map(([path, content]) => [path, { content }])),
+    settings: {
+      optimizer: { enabled: false },
+      outputSelection
+    }
+  };
+  const output: T = JSON.parse(await compiler.compile(JSON.stringify(input)));
+
+  const errors = (output.errors ?? []).filter(error => error.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(`Compilation failed:\n${errors.map(error => error.formattedMessage ?? error.message).join('\n')}`);
+  }
+  return output;
+}
+
+// Picks a contract by name, or by sourceName:contractName when names collide; with no name there must be a single deployable contract
+export function selectArtifact(artifacts: ContractArtifact[], name?: string): ContractArtifact {
+  if (name) {
+    const matches = artifacts.filter(artifact =>
+      artifact.contractName === name || `${artifact.sourceName}:${artifact.contractName}` === name
+    );
+    if (matches.length === 1) return matches[0];
+    throw new Error(matches.length === 0
+      ? `No contract named ${name}; found ${describeArtifacts(artifacts)}`
+      : `Contract name ${name} is ambiguous; use sourceName:contractName`);
+  }
+  const deployable = artifacts.filter(artifact => artifact.bytecode);
+  if (deployable.length === 1) return deployable[0];
+  if (artifacts.length === 1) return artifacts[0];
+  throw new Error(artifacts.length === 0
+    ? 'No contract artifacts found'
+    : `Several contracts found (${describeArtifacts(artifacts)}); choose one by name`);
+}
+
+function describeArtifacts(artifacts: ContractArtifact[]): string {
+  return artifacts.map(artifact => artifact.contractName ?? '(unnamed)').join(', ');
+}
+
+// Hardhat writes .dbg.json next to each artifact, and both tools keep build-info/ alongside
+function isArtifactPath(path: string): boolean {
+  return path.endsWith('.json') && !path.endsWith('.dbg.json') && !path.split('/').includes('build-info');
+}
+
+function baseName(path: string): string {
+  return path.split('/').pop()?.replace(/\.json$/, '') ?? path;
+}
+
+function normalizeBytecode(bytecode: unknown): string | undefined {
+  if (typeof bytecode !== 'string' || bytecode.replace(/^0x/, '') === '') {
+    return undefined;
+  }
+  const hex = bytecode.startsWith('0x') ? bytecode : `0x${bytecode}`;
+  // Unlinked libraries leave __$...$__ placeholders that cannot be deployed as is
+  if (!ethers.isHexString(hex)) {
+    throw new Error('Artifact bytecode is not valid hex; link its libraries before deploying');
+  }
+  return hex;
+}
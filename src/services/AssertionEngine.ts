@@ -0,0 +1,294 @@
+import { ethers } from 'ethers';
+import {
+  AddressValue,
+  Assertion,
+  AssertionResult,
+  BalanceDeltaAssertion,
+  ComparisonOperator,
+  EventAssertion,
+  ExpectedValue,
+  ReturnValueAssertion,
+  RevertAssertion,
+  StorageAssertion
+} from '../types/Assertion';
+import { StepReceipt } from '../types/TestCase';
+import { decodeRevert, describeRevert } from './RevertDecoder';
+import { errorMessage, stringify } from '../utils/format';
+
+// Everything observed while executing a single step
+export interface StepOutcome {
+  stepId: string;
+  contractAddress: string;
+  iface: ethers.Interface;
+  returnValue?: unknown;
+  receipt?: StepReceipt;
+  error?: unknown;
+  balancesBefore: Map<string, bigint>;
+  balancesAfter: Map<string, bigint>;
+}
+
+const ERC20_BALANCE_ABI = ['function balanceOf(address) view returns (uint256)'];
+
+export class AssertionEngine {
+  constructor(private provider: ethers.Provider) {}
+
+  async captureBalances(assertions: Assertion[] = []): Promise<Map<string, bigint>> {
+    const balances = new Map<string, bigint>();
+    for (const assertion of assertions) {
+      if (assertion.type !== 'balanceDelta') continue;
+      balances.set(balanceKey(assertion), await this.readBalance(assertion));
+    }
+    return balances;
+  }
+
+  async evaluate(
+    assertions: Assertion[],
+    outcome: StepOutcome,
+    outputs: Map<string, unknown>
+  ): Promise<AssertionResult[]> {
+    const results: AssertionResult[] = [];
+    for (const assertion of assertions) {
+      let result: Omit<AssertionResult, 'stepId' | 'assertion'>;
+      try {
+        result = await this.evaluateOne(assertion, outcome, outputs);
+      } catch (error) {
+        result = { passed: false, message: `Assertion could not be evaluated: ${errorMessage(error)}` };
+      }
+      results.push({ stepId: outcome.stepId, assertion, ...result });
+    }
+    return results;
+  }
+
+  private async evaluateOne(
+    assertion: Assertion,
+    outcome: StepOutcome,
+    outputs: Map<string, unknown>
+  ): Promise<Omit<AssertionResult, 'stepId' | 'assertion'>> {
+    switch (assertion.type) {
+      case 'returnValue':
+        return this.checkReturnValue(assertion, outcome, outputs);
+      case 'event':
+        return this.checkEvent(assertion, outcome, outputs);
+      case 'balanceDelta':
+        return this.checkBalanceDelta(assertion, outcome);
+      case 'storage':
+        return this.checkStorage(assertion, outcome, outputs);
+      case 'revert':
+        return this.checkRevert(assertion, outcome, outputs);
+    }
+  }
+
+  private checkReturnValue(
+    assertion: ReturnValueAssertion,
+    outcome: StepOutcome,
+    outputs: Map<string, unknown>
+  ) {
+    if (outcome.error) {
+      return { passed: false, message: `Expected a return value but the call reverted: ${errorMessage(outcome.error)}` };
+    }
+    const actual = pickPath(outcome.returnValue, assertion.path);
+    const expected = resolveExpected(assertion.expected, outputs);
+    const passed = compare(actual, assertion.operator, expected);
+    return {
+      passed,
+      actual: stringify(actual),
+      message: passed
+        ? `Return value ${stringify(actual)} ${assertion.operator} ${stringify(expected)}`
+        : `Expected return value ${assertion.operator} ${stringify(expected)}, got ${stringify(actual)}`
+    };
+  }
+
+  private checkEvent(assertion: EventAssertion, outcome: StepOutcome, outputs: Map<string, unknown>) {
+    if (!outcome.receipt) {
+      return { passed: false, message: `Expected event ${assertion.event} but no transaction receipt is available` };
+    }
+    const fragment = resolveEvent(assertion.event, outcome.iface);
+    const eventIface = new ethers.Interface([fragment]);
+    const emitter = toAddress(assertion.emitter ?? outcome.contractAddress).toLowerCase();
+
+    const emitted: string[] = [];
+    for (const log of outcome.receipt.logs) {
+      if (log.address.toLowerCase() !== emitter || log.topics[0] !== fragment.topicHash) continue;
+      const parsed = eventIface.parseLog(log);
+      if (!parsed) continue;
+      emitted.push(stringify(parsed.args));
+      if (argsMatch(parsed.args, assertion.args, outputs)) {
+        return { passed: true, actual: stringify(parsed.args), message: `Event ${fragment.name} emitted` };
+      }
+    }
+
+    return {
+      passed: false,
+      actual: emitted.length > 0 ? emitted.join('; ') : undefined,
+      message: emitted.length > 0
+        ? `Event ${fragment.name} emitted with unexpected arguments`
+        : `Event ${fragment.name} was not emitted`
+    };
+  }
+
+  private checkBalanceDelta(assertion: BalanceDeltaAssertion, outcome: StepOutcome) {
+    const key = balanceKey(assertion);
+    const before = outcome.balancesBefore.get(key);
+    const after = outcome.balancesAfter.get(key);
+    if (before === undefined || after === undefined) {
+      return { passed: false, message: `Balance of ${assertion.account} was not captured` };
+    }
+    const delta = after - before;
+    const passed = delta === BigInt(assertion.delta);
+    return {
+      passed,
+      actual: delta.toString(),
+      message: passed
+        ? `Balance of ${assertion.account} changed by ${delta}`
+        : `Expected balance of ${assertion.account} to change by ${assertion.delta}, changed by ${delta}`
+    };
+  }
+
+  private async checkStorage(assertion: StorageAssertion, outcome: StepOutcome, outputs: Map<string, unknown>) {
+    const address = assertion.address ?? outcome.contractAddress;
+    const value = await this.provider.getStorage(address, assertion.slot);
+    const expected = resolveExpected(assertion.expected, outputs);
+    const passed = compare(value, 'eq', expected);
+    return {
+      passed,
+      actual: value,
+      message: passed
+        ? `Storage slot ${assertion.slot} holds ${value}`
+        : `Expected storage slot ${assertion.slot} to hold ${stringify(expected)}, found ${value}`
+    };
+  }
+
+  private checkRevert(assertion: RevertAssertion, outcome: StepOutcome, outputs: Map<string, unknown>) {
+    if (!outcome.error) {
+      return { passed: false, message: 'Expected the call to revert but it succeeded' };
+    }
+    const extra = assertion.customError?.includes('(') ? [normalizeFragment('error', assertion.customError)] : [];
+    const decoded = decodeRevert(outcome.error, extra.length > 0 ? mergeInterface(outcome.iface, extra) : outcome.iface);
+    const actual = describeRevert(decoded);
+
+    if (assertion.reason !== undefined && decoded.reason !== assertion.reason) {
+      return { passed: false, actual, message: `Expected revert reason "${assertion.reason}", got ${actual}` };
+    }
+    if (assertion.panicCode !== undefined && decoded.panicCode !== assertion.panicCode) {
+      return { passed: false, actual, message: `Expected Panic(0x${assertion.panicCode.toString(16)}), got ${actual}` };
+    }
+    if (assertion.customError !== undefined) {
+      const expectedName = assertion.customError.split('(')[0].replace(/^error\s+/, '').trim();
+      if (decoded.errorName !== expectedName) {
+        return { passed: false, actual, message: `Expected custom error ${expectedName}, got ${actual}` };
+      }
+      if (!argsMatch(decoded.args ?? [], assertion.args, outputs)) {
+        return { passed: false, actual, message: `Custom error ${expectedName} raised with unexpected arguments` };
+      }
+    }
+    return { passed: true, actual, message: `Call reverted as expected: ${actual}` };
+  }
+
+  private async readBalance(assertion: BalanceDeltaAssertion): Promise<bigint> {
+    if (!assertion.token) {
+      return this.provider.getBalance(toAddress(assertion.account));
+    }
+    const token = new ethers.Contract(assertion.token, ERC20_BALANCE_ABI, this.provider);
+    return token.balanceOf(toAddress(assertion.account));
+  }
+}
+
+function resolveEvent(event: string, iface: ethers.Interface): ethers.EventFragment {
+  if (event.includes('(')) {
+    return ethers.EventFragment.from(normalizeFragment('event', event));
+  }
+  const fragment = iface.getEvent(event);
+  if (!fragment) {
+    throw new Error(`Event ${event} not found in ABI`);
+  }
+  return fragment;
+}
+
+function normalizeFragment(kind: 'event' | 'error', signature: string): string {
+  return signature.trim().startsWith(`${kind} `) ? signature.trim() : `${kind} ${signature.trim()}`;
+}
+
+function mergeInterface(iface: ethers.Interface, extra: string[]): ethers.Interface {
+  return new ethers.Interface([...iface.fragments, ...extra]);
+}
+
+function balanceKey(assertion: BalanceDeltaAssertion): string {
+  return `${(assertion.token ?? 'native').toLowerCase()}:${toAddress(assertion.account).toLowerCase()}`;
+}
+
+function toAddress(value: AddressValue): string {
+  if (typeof value !== 'string') {
+    throw new Error(`Address reference ${value.addressOf} was not resolved`);
+  }
+  return value;
+}
+
+export function resolveExpected(expected: ExpectedValue, outputs: Map<string, unknown>): unknown {
+  if (typeof expected === 'object' && expected !== null && 'addressOf' in expected) {
+    throw new Error(`Address reference ${expected.addressOf} was not resolved`);
+  }
+  if (typeof expected === 'object' && expected !== null && 'stepRef' in expected) {
+    if (!outputs.has(expected.stepRef)) {
+      throw new Error(`Step ${expected.stepRef} has no recorded output`);
+    }
+    return pickPath(outputs.get(expected.stepRef), expected.path);
+  }
+  return expected;
+}
+
+export function pickPath(value: unknown, path?: string): unknown {
+  if (!path) return value;
+  return path.split('.').reduce<unknown>((current, key) => {
+    if (current === null || current === undefined) return undefined;
+    return (current as Record<string, unknown>)[key];
+  }, value);
+}
+
+function argsMatch(
+  actual: ArrayLike<unknown>,
+  expected: (ExpectedValue | null)[] | undefined,
+  outputs: Map<string, unknown>
+): boolean {
+  if (!expected) return true;
+  return expected.every((value, i) => value === null || compare(actual[i], 'eq', resolveExpected(value, outputs)));
+}
+
+export function compare(actual: unknown, operator: ComparisonOperator, expected: unknown): boolean {
+  if (operator === 'matches') {
+    return new RegExp(String(expected)).test(stringify(actual));
+  }
+
+  const actualNumber = toBigInt(actual);
+  const expectedNumber = toBigInt(expected);
+  if (actualNumber !== null && expectedNumber !== null) {
+    switch (operator) {
+      case 'eq': return actualNumber === expectedNumber;
+      case 'neq': return actualNumber !== expectedNumber;
+      case 'gt': return actualNumber > expectedNumber;
+      case 'gte': return actualNumber >= expectedNumber;
+      case 'lt': return actualNumber < expectedNumber;
+      case 'lte': return actualNumber <= expectedNumber;
+    }
+  }
+
+  const equal = normalize(actual) === normalize(expected);
+  switch (operator) {
+    case 'eq': return equal;
+    case 'neq': return !equal;
+    default:
+      throw new Error(`Operator ${operator} requires numeric values`);
+  }
+}
+
+function toBigInt(value: unknown): bigint | null {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number' && Number.isInteger(value)) return BigInt(value);
+  if (typeof value === 'string' && /^-?\d+$/.test(value.trim())) return BigInt(value.trim());
+  if (typeof value === 'string' && /^0x[0-9a-fA-F]{1,64}$/.test(value) && value.length !== 42) return BigInt(value);
+  return null;
+}
+
+function normalize(value: unknown): string {
+  const text = stringify(value);
+  return ethers.isAddress(text) || /^0x[0-9a-fA-F]*$/.test(text) ? text.toLowerCase() : text;
+}
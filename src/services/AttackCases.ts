@@ -0,0 +1,158 @@
+import { ethers } from 'ethers';
+import { AttackerKind, ExpectedOutcome, TestCase, TestStep } from '../types/TestCase';
+import { ValueGenerator } from './ValueGenerator';
+import { isPrivileged } from './AccessControlCases';
+import { stableId } from '../utils/ids';
+
+// Names of functions that pay ether or tokens out to the caller
+const PAYOUT_NAME = /withdraw|claim|redeem|refund|unstake|exit|collect|harvest|payout|release|cashout/i;
+// Names of functions that take ether or tokens in, and so fund a later payout
+const DEPOSIT_NAME = /deposit|stake|supply|fund|contribute|lock|^add|^buy|^bid/i;
+const TOKEN_PARAM = /token|asset|currency|erc20/i;
+const AMOUNT_PARAM = /amount|value|wad|assets|shares|qty|quantity/i;
+
+const ATTACK_VALUE = ethers.parseEther('1');
+// The honest caller outbids the attacker, so auctions and sales have to pay the attacker back
+const HONEST_VALUE = ethers.parseEther('2');
+// What arrives of ATTACK_VALUE after the fee token's 10% fee
+const AFTER_FEE = ethers.parseEther('0.9');
+// The receiver holds hook tokens, so its hooks run when the target moves them
+const HOOK_ATTACK: StepOptions = { actor: 'attacker', token: 'hookToken', via: 'reentrantReceiver' };
+
+// Cases that route calls through attacker contracts: reentrancy through receive hooks and token hooks,
+// DoS by receivers that refuse payment or burn its gas, and insolvency with a fee-on-transfer token
+export function generateAttackCases(abi: ethers.InterfaceAbi, contractAddress: string): TestCase[] {
+  const functions = ethers.Interface.from(abi).fragments
+    .filter(ethers.Fragment.isFunction)
+    .filter(fragment => !fragment.constant && !isPrivileged(fragment));
+  const builder = new AttackBuilder(contractAddress);
+  const tokenParam = (fragment: ethers.FunctionFragment) =>
+    fragment.inputs.find(input => input.type === 'address' && TOKEN_PARAM.test(input.name));
+
+  const etherDeposit = functions.find(fragment => fragment.payable && DEPOSIT_NAME.test(fragment.name));
+  const tokenDeposit = functions.find(fragment => tokenParam(fragment) && DEPOSIT_NAME.test(fragment.name));
+  const testCases: TestCase[] = [];
+
+  for (const payout of functions.filter(fragment => PAYOUT_NAME.test(fragment.name))) {
+    if (tokenParam(payout)) {
+      const steps = tokenDeposit ? [builder.step('deposit', tokenDeposit, HOOK_ATTACK)] : [];
+      testCases.push(builder.testCase('reentrancy', ['reentrantReceiver', 'hookToken'], payout, {
+        name: `Attack: re-enter ${payout.name} through a token hook`,
+        description: `Pay out a token with transfer hooks to a contract that calls ${payout.name} again from the hook`,
+        steps: [...steps, builder.step('payout', payout, HOOK_ATTACK)]
+      }));
+    } else {
+      const steps = etherDeposit ? [builder.step('deposit', etherDeposit, { actor: 'attacker', via: 'reentrantReceiver' })] : [];
+      testCases.push(builder.testCase('reentrancy', ['reentrantReceiver'], payout, {
+        name: `Attack: re-enter ${payout.name} from receive()`,
+        description: `Call ${payout.name} from a contract that calls it again when it receives ether`,
+        steps: [...steps, builder.step('payout', payout, { actor: 'attacker', via: 'reentrantReceiver' })]
+      }));
+    }
+  }
+
+  for (const deposit of functions.filter(fragment => tokenParam(fragment) && DEPOSIT_NAME.test(fragment.name))) {
+    testCases.push(builder.testCase('reentrancy', ['reentrantReceiver', 'hookToken'], deposit, {
+      name: `Attack: re-enter ${deposit.name} through a token hook`,
+      description: `Deposit a token with transfer hooks from a contract that calls ${deposit.name} again while the deposit is processed`,
+      steps: [builder.step('deposit', deposit, HOOK_ATTACK)]
+    }));
+
+    // Crediting the full amount lets the first withdrawal take the second depositor's tokens
+    const withdrawal = functions.find(fragment => tokenParam(fragment) && PAYOUT_NAME.test(fragment.name));
+    if (withdrawal) {
+      testCases.push(builder.testCase('dos', ['feeToken'], deposit, {
+        name: `Attack: ${withdrawal.name} after ${deposit.name} of a fee-on-transfer token`,
+        description: `A token that burns 10% per transfer must not let ${deposit.name} credit more than arrived, or the last ${withdrawal.name} runs dry`,
+        steps: [
+          builder.step('deposit-a', deposit, { actor: 'userA', token: 'feeToken' }),
+          builder.step('deposit-b', deposit, { actor: 'userB', token: 'feeToken' }),
+          builder.step('withdraw-a', withdrawal, { actor: 'userA', token: 'feeToken' }),
+          builder.step('withdraw-b', withdrawal, { actor: 'userB', token: 'feeToken', amount: AFTER_FEE, expectedOutcome: 'success' })
+        ]
+      }));
+    }
+  }
+
+  // A payable function that refunds or pays the previous participant can be jammed by one that refuses payment
+  for (const payable of functions.filter(fragment => fragment.payable)) {
+    for (const attacker of ['revertingReceiver', 'gasGriefer'] as const) {
+      testCases.push(builder.testCase('dos', [attacker], payable, {
+        name: `Attack: jam ${payable.name} with ${attacker === 'gasGriefer' ? 'a gas-burning' : 'a reverting'} receiver`,
+        description: `After ${attacker} calls ${payable.name}, an honest caller's ${payable.name} must still succeed`,
+        steps: [
+          builder.step('attacker-call', payable, { actor: 'attacker', via: attacker }),
+          builder.step('honest-call', payable, { actor: 'userA', amount: HONEST_VALUE, expectedOutcome: 'success' })
+        ]
+      }));
+    }
+  }
+
+  return testCases;
+}
+
+interface StepOptions {
+  actor: string;
+  // Attacker token passed for token parameters
+  token?: AttackerKind;
+  // Relay attacker the call goes through
+  via?: AttackerKind;
+  // Amount parameters and ether sent; ATTACK_VALUE by default
+  amount?: bigint;
+  expectedOutcome?: ExpectedOutcome;
+}
+
+class AttackBuilder {
+  private values = new ValueGenerator();
+
+  constructor(private contractAddress: string) {}
+
+  testCase(
+    goal: 'reentrancy' | 'dos',
+    attackers: AttackerKind[],
+    target: ethers.FunctionFragment,
+    { name, description, steps }: { name: string; description: string; steps: TestStep[] }
+  ): TestCase {
+    return {
+      id: stableId('attack', goal, attackers, this.contractAddress, steps.map(step => step.params.method), target.format()),
+      name,
+      description,
+      steps,
+      expectedResult: goal === 'reentrancy'
+        ? 'No attacker takes out more than it deposited by calling back into the contract'
+        : 'Honest callers are not blocked by the attacker',
+      status: 'pending',
+      attack: { attackers, goal }
+    };
+  }
+
+  // Token parameters get the attacker token, other addresses the account the call comes from
+  step(id: string, fragment: ethers.FunctionFragment, options: StepOptions): TestStep {
+    const { actor, token, via } = options;
+    const amount = (options.amount ?? ATTACK_VALUE).toString();
+    return {
+      id,
+      action: 'CONTRACT_CALL',
+      params: {
+        method: fragment.name,
+        contractAddress: this.contractAddress,
+        fragment: JSON.parse(fragment.format('json')),
+        args: fragment.inputs.map(input => {
+          if (input.type === 'address') {
+            return { addressOf: token && TOKEN_PARAM.test(input.name) ? token : via ?? actor };
+          }
+          if (/^uint\d*$/.test(input.type) && AMOUNT_PARAM.test(input.name)) {
+            return amount;
+          }
+          return this.values.generate(input, 'safe');
+        }),
+        actor,
+        ...(fragment.payable ? { value: amount } : {}),
+        ...(via ? { via } : {})
+      },
+      description: via ? `Call ${fragment.name} through ${via}, paid by ${actor}` : `Call ${fragment.name} as ${actor}`,
+      // Attacker steps may fail without the attack failing; only the goal decides
+      expectedOutcome: options.expectedOutcome ?? 'either'
+    };
+  }
+}
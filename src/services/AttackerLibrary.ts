@@ -0,0 +1,323 @@
+import { ethers } from 'ethers';
+import { AttackerKind } from '../types/TestCase';
+import { ContractArtifact, compileSources } from './ArtifactLoader';
+import { SolidityCompiler } from './SolidityCompiler';
+
+// Contract name in ATTACKER_SOURCE per attacker kind
+const CONTRACT_NAMES: Record<AttackerKind, string> = {
+  reentrantReceiver: 'ReentrantReceiver',
+  revertingReceiver: 'RevertingReceiver',
+  gasGriefer: 'GasGriefingReceiver',
+  hookToken: 'HookToken',
+  feeToken: 'FeeOnTransferToken'
+};
+
+export const ATTACKER_KINDS = Object.keys(CONTRACT_NAMES) as AttackerKind[];
+
+// Attackers that call back into the target while it is still running
+export const REENTRANT_ATTACKERS: AttackerKind[] = ['reentrantReceiver'];
+// Attackers that can forward a step's call as their own
+export const RELAY_ATTACKERS: AttackerKind[] = ['reentrantReceiver', 'revertingReceiver', 'gasGriefer'];
+// Attackers that are ERC-20 tokens; every actor and relay holds a balance of them
+export const TOKEN_ATTACKERS: AttackerKind[] = ['hookToken', 'feeToken'];
+
+// How many times a reentrant attacker calls back per step
+const MAX_REENTRIES = 2;
+const TOKEN_HOLDER_BALANCE = ethers.parseEther('1000000');
+
+// Relays forward calls with attack(); the reentrant receiver replays the data given to arm() from its hooks
+export const ATTACKER_SOURCE = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+abstract contract Relay {
+    function attack(address target, bytes calldata data) external payable returns (bytes memory) {
+        (bool ok, bytes memory result) = target.call{value: msg.value}(data);
+        if (!ok) {
+            assembly { revert(add(result, 32), mload(result)) }
+        }
+        return result;
+    }
+}
+
+abstract contract Reentrant {
+    address public reentryTarget;
+    bytes public reentryData;
+    uint256 public maxReentries;
+    uint256 public reentryAttempts;
+    // Calls back into the target that succeeded
+    uint256 public reentries;
+
+    function arm(address target, bytes calldata data, uint256 depth) external {
+        reentryTarget = target;
+        reentryData = data;
+        maxReentries = depth;
+        reentryAttempts = 0;
+    }
+
+    function _reenter() internal {
+        if (reentryTarget == address(0) || reentryAttempts >= maxReentries) return;
+        reentryAttempts++;
+        (bool ok, ) = reentryTarget.call(reentryData);
+        if (ok) reentries++;
+    }
+}
+
+contract ReentrantReceiver is Relay, Reentrant {
+    receive() external payable { _reenter(); }
+
+    function onERC721Received(address, address, uint256, bytes calldata) external returns (bytes4) {
+        _reenter();
+        return this.onERC721Received.selector;
+    }
+
+    function onERC1155Received(address, address, uint256, uint256, bytes calldata) external returns (bytes4) {
+        _reenter();
+        return this.onERC1155Received.selector;
+    }
+
+    function onERC1155BatchReceived(address, address, uint256[] calldata, uint256[] calldata, bytes calldata) external returns (bytes4) {
+        _reenter();
+        return this.onERC1155BatchReceived.selector;
+    }
+
+    function tokensToSend(address, address, address, uint256, bytes calldata, bytes calldata) external {
+        _reenter();
+    }
+
+    function tokensReceived(address, address, address, uint256, bytes calldata, bytes calldata) external {
+        _reenter();
+    }
+}
+
+contract RevertingReceiver is Relay {
+    receive() external payable { revert("RevertingReceiver: rejected"); }
+
+    function onERC721Received(address, address, uint256, bytes calldata) external pure returns (bytes4) {
+        revert("RevertingReceiver: rejected");
+    }
+
+    function onERC1155Received(address, address, uint256, uint256, bytes calldata) external pure returns (bytes4) {
+        revert("RevertingReceiver: rejected");
+    }
+}
+
+contract GasGriefingReceiver is Relay {
+    uint256 private sink;
+
+    // Burns whatever gas it is given, so payers that forward all gas run out
+    receive() external payable {
+        while (true) { sink++; }
+    }
+}
+
+abstract contract TestToken {
+    mapping(address => uint256) public balanceOf;
+    uint256 public totalSupply;
+    uint8 public constant decimals = 18;
+
+    event Transfer(address indexed from, address indexed to, uint256 value);
+    event Approval(address indexed owner, address indexed spender, uint256 value);
+
+    constructor(address[] memory holders, uint256 amount) {
+        for (uint256 i = 0; i < holders.length; i++) {
+            balanceOf[holders[i]] += amount;
+            totalSupply += amount;
+            emit Transfer(address(0), holders[i], amount);
+        }
+    }
+
+    // Unlimited allowances, so tests need no approval steps
+    function allowance(address, address) external pure returns (uint256) {
+        return type(uint256).max;
+    }
+
+    function approve(address spender, uint256 value) external returns (bool) {
+        emit Approval(msg.sender, spender, value);
+        return true;
+    }
+
+    function transfer(address to, uint256 value) external returns (bool) {
+        _transfer(msg.sender, to, value);
+        return true;
+    }
+
+    function transferFrom(address from, address to, uint256 value) external returns (bool) {
+        _transfer(from, to, value);
+        return true;
+    }
+
+    function _transfer(address from, address to, uint256 value) internal virtual;
+}
+
+contract HookToken is TestToken {
+    string public constant name = "Hook Token";
+    string public constant symbol = "HOOK";
+
+    constructor(address[] memory holders, uint256 amount) TestToken(holders, amount) {}
+
+    // Calls the ERC-777 style hooks of contract senders and recipients around every transfer
+    function _transfer(address from, address to, uint256 value) internal override {
+        _hook(from, "tokensToSend(address,address,address,uint256,bytes,bytes)", from, to, value);
+        require(balanceOf[from] >= value, "HookToken: balance too low");
+        balanceOf[from] -= value;
+        balanceOf[to] += value;
+        emit Transfer(from, to, value);
+        _hook(to, "tokensReceived(address,address,address,uint256,bytes,bytes)", from, to, value);
+    }
+
+    function _hook(address account, string memory signature, address from, address to, uint256 value) private {
+        if (account.code.length == 0) return;
+        (bool ok, ) = account.call(abi.encodeWithSignature(signature, msg.sender, from, to, value, "", ""));
+        ok;
+    }
+}
+
+contract FeeOnTransferToken is TestToken {
+    string public constant name = "Fee Token";
+    string public constant symbol = "FEE";
+    // 10% of every transfer is burnt
+    uint256 public constant FEE_BPS = 1000;
+
+    constructor(address[] memory holders, uint256 amount) TestToken(holders, amount) {}
+
+    function _transfer(address from, address to, uint256 value) internal override {
+        require(balanceOf[from] >= value, "FeeOnTransferToken: balance too low");
+        uint256 fee = value * FEE_BPS / 10000;
+        balanceOf[from] -= value;
+        balanceOf[to] += value - fee;
+        totalSupply -= fee;
+        emit Transfer(from, to, value - fee);
+        emit Transfer(from, address(0), fee);
+    }
+}
+`;
+
+// Compiles the attacker contracts once and deploys fresh copies for each attack case
+export class AttackerLibrary {
+  private artifacts?: Promise<Map<string, ContractArtifact>>;
+
+  constructor(private compiler: SolidityCompiler) {}
+
+  async artifact(kind: AttackerKind): Promise<ContractArtifact> {
+    const artifacts = await (this.artifacts ??= this.compile());
+    return artifacts.get(CONTRACT_NAMES[kind]) as ContractArtifact;
+  }
+
+  // Relays first, so they can be among the token holders
+  async deploy(kinds: AttackerKind[], holders: string[], signer: ethers.Signer): Promise<DeployedAttackers> {
+    const ordered = [...new Set(kinds)].sort((a, b) => Number(TOKEN_ATTACKERS.includes(a)) - Number(TOKEN_ATTACKERS.includes(b)));
+    const contracts = new Map<AttackerKind, ethers.Contract>();
+    for (const kind of ordered) {
+      const { abi, bytecode } = await this.artifact(kind);
+      const args = TOKEN_ATTACKERS.includes(kind)
+        ? [[...holders, ...await Promise.all([...contracts.values()].map(contract => contract.getAddress()))], TOKEN_HOLDER_BALANCE]
+        : [];
+      const deployed = await new ethers.ContractFactory(abi, bytecode as string, signer).deploy(...args);
+      await deployed.waitForDeployment();
+      contracts.set(kind, new ethers.Contract(await deployed.getAddress(), abi, signer));
+    }
+    const attackers = new DeployedAttackers(contracts);
+    await attackers.recordStart();
+    return attackers;
+  }
+
+  private async compile(): Promise<Map<string, ContractArtifact>> {
+    const artifacts = await compileSources(this.compiler, { 'Attackers.sol': ATTACKER_SOURCE });
+    return new Map(artifacts.map(artifact => [artifact.contractName as string, artifact]));
+  }
+}
+
+// Ether and attacker tokens, the latter summed over every token attacker
+export interface AttackerHoldings {
+  ether: bigint;
+  tokens: bigint;
+}
+
+export class DeployedAttackers {
+  // Holdings of each reentrant attacker right after deployment
+  private start = new Map<AttackerKind, AttackerHoldings>();
+  // Ether each reentrant attacker relayed into the target; it comes from the actor, so the relay's balance never shows it
+  private forwarded = new Map<AttackerKind, bigint>();
+
+  constructor(private contracts: Map<AttackerKind, ethers.Contract>) {}
+
+  async recordStart(): Promise<void> {
+    for (const [kind, contract] of this.contracts) {
+      if (REENTRANT_ATTACKERS.includes(kind)) {
+        this.start.set(kind, await this.holdings(contract));
+      }
+    }
+  }
+
+  recordForwarded(kind: AttackerKind, value: bigint) {
+    if (REENTRANT_ATTACKERS.includes(kind)) {
+      this.forwarded.set(kind, (this.forwarded.get(kind) ?? 0n) + value);
+    }
+  }
+
+  // What each reentrant attacker took out of the target beyond what it put in; token deposits leave the attacker's
+  // own balance, ether deposits are subtracted as forwarded
+  async gains(): Promise<Partial<Record<AttackerKind, AttackerHoldings>>> {
+    const gains: Partial<Record<AttackerKind, AttackerHoldings>> = {};
+    for (const [kind, start] of this.start) {
+      const now = await this.holdings(this.contracts.get(kind) as ethers.Contract);
+      gains[kind] = {
+        ether: now.ether - start.ether - (this.forwarded.get(kind) ?? 0n),
+        tokens: now.tokens - start.tokens
+      };
+    }
+    return gains;
+  }
+
+  private async holdings(attacker: ethers.Contract): Promise<AttackerHoldings> {
+    const address = await attacker.getAddress();
+    const ether = await attacker.runner?.provider?.getBalance(address) ?? 0n;
+    let tokens = 0n;
+    for (const [kind, contract] of this.contracts) {
+      if (TOKEN_ATTACKERS.includes(kind)) {
+        tokens += BigInt(await contract.getFunction('balanceOf').staticCall(address));
+      }
+    }
+    return { ether, tokens };
+  }
+
+  async addresses(): Promise<Partial<Record<AttackerKind, string>>> {
+    const entries = await Promise.all(
+      [...this.contracts].map(async ([kind, contract]) => [kind, await contract.getAddress()] as const)
+    );
+    return Object.fromEntries(entries);
+  }
+
+  interfaces(): [AttackerKind, ethers.Interface][] {
+    return [...this.contracts].map(([kind, contract]) => [kind, contract.interface]);
+  }
+
+  // Makes every reentrant attacker replay the step's own call from its hooks
+  async arm(target: string, data: string): Promise<void> {
+    for (const [kind, contract] of this.contracts) {
+      if (REENTRANT_ATTACKERS.includes(kind)) {
+        await (await contract.getFunction('arm').send(target, data, MAX_REENTRIES)).wait();
+      }
+    }
+  }
+
+  // Successful calls back into the target so far, per reentrant attacker
+  async reentries(): Promise<Partial<Record<AttackerKind, number>>> {
+    const counts: Partial<Record<AttackerKind, number>> = {};
+    for (const [kind, contract] of this.contracts) {
+      if (REENTRANT_ATTACKERS.includes(kind)) {
+        counts[kind] = Number(await contract.getFunction('reentries').staticCall());
+      }
+    }
+    return counts;
+  }
+
+  // Sends the step's call from the relay instead of the actor; the actor pays the value
+  relay(kind: AttackerKind, signer: ethers.Signer): ethers.BaseContractMethod {
+    const contract = this.contracts.get(kind);
+    if (!contract || !RELAY_ATTACKERS.includes(kind)) {
+      throw new Error(`${kind} cannot relay calls`);
+    }
+    return (contract.connect(signer) as ethers.Contract).getFunction('attack');
+  }
+}
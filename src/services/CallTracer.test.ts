@@ -0,0 +1,39 @@
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { findRevertFrame } from './CallTracer';
+import { CallFrame } from '../types/Trace';
+
+const errorData = (reason: string) => ethers.concat(['0x08c379a0', ethers.AbiCoder.defaultAbiCoder().encode(['string'], [reason])]);
+
+function frame(to: string, calls: CallFrame[] = [], reason?: string): CallFrame {
+  return {
+    type: 'CALL',
+    from: '0x0000000000000000000000000000000000000001',
+    to,
+    input: '0x',
+    output: reason ? errorData(reason) : '0x',
+    error: reason ? 'execution reverted' : undefined,
+    calls
+  };
+}
+
+describe('findRevertFrame', () => {
+  it('is undefined for calls that did not fail', () => {
+    expect(findRevertFrame(frame('vault', [frame('token', [], 'caught')]))).toBeUndefined();
+  });
+
+  it('follows a revert that bubbled up from the last call', () => {
+    const token = frame('token', [], 'insufficient balance');
+    expect(findRevertFrame(frame('vault', [token], 'insufficient balance'))).toBe(token);
+  });
+
+  it('stops at the frame when the failed subcall was caught', () => {
+    const vault = frame('vault', [frame('token', [], 'insufficient balance')], 'transfer failed');
+    expect(findRevertFrame(vault)).toBe(vault);
+  });
+
+  it('stops at the frame when a later call succeeded after the failing one', () => {
+    const vault = frame('vault', [frame('token', [], 'paused'), frame('oracle')], 'paused');
+    expect(findRevertFrame(vault)).toBe(vault);
+  });
+});
@@ -0,0 +1,112 @@
+import { ethers } from 'ethers';
+import { StepLog } from '../types/TestCase';
+import { CallFrame, DecodedEvent } from '../types/Trace';
+import { decodeRevertData } from './RevertDecoder';
+
+// ABI registered for an address, used to decode calls, results, errors and events
+export type InterfaceLookup = (address: string) => ethers.Interface | undefined;
+
+// Shape returned by geth's built-in callTracer, which anvil and hardhat also implement
+interface RawCallFrame {
+  type: string;
+  from: string;
+  to?: string;
+  value?: string;
+  gasUsed?: string;
+  input: string;
+  output?: string;
+  error?: string;
+  revertReason?: string;
+  calls?: RawCallFrame[];
+}
+
+const CALL_TRACER = { tracer: 'callTracer' };
+// Decodes the built-in Error(string) and Panic(uint256) for callees without a registered ABI
+const EMPTY_INTERFACE = new ethers.Interface([]);
+
+export class CallTracer {
+  constructor(
+    private provider: ethers.JsonRpcProvider,
+    private lookup: InterfaceLookup
+  ) {}
+
+  async traceTransaction(hash: string): Promise<CallFrame> {
+    const raw: RawCallFrame = await this.provider.send('debug_traceTransaction', [hash, CALL_TRACER]);
+    return this.decodeFrame(raw);
+  }
+
+  // Replays a call that never made it on chain, e.g. a send that reverted during gas estimation
+  async traceCall(request: { from: string; to: string; data: string; value?: string }): Promise<CallFrame> {
+    const raw: RawCallFrame = await this.provider.send('debug_traceCall', [request, 'latest', CALL_TRACER]);
+    return this.decodeFrame(raw);
+  }
+
+  private decodeFrame(raw: RawCallFrame): CallFrame {
+    const iface = raw.to ? this.lookup(raw.to) : undefined;
+    const frame: CallFrame = {
+      type: raw.type,
+      from: raw.from,
+      to: raw.to,
+      value: raw.value ? BigInt(raw.value).toString() : undefined,
+      gasUsed: raw.gasUsed ? BigInt(raw.gasUsed).toString() : undefined,
+      input: raw.input,
+      output: raw.output,
+      error: raw.error,
+      calls: (raw.calls ?? []).map(call => this.decodeFrame(call))
+    };
+
+    const parsed = iface ? safely(() => iface.parseTransaction({ data: raw.input, value: raw.value })) : null;
+    if (parsed) {
+      frame.method = parsed.signature;
+      frame.args = parsed.args.toArray(true);
+    }
+    if (raw.error) {
+      frame.revert = decodeRevertData(raw.output ?? undefined, iface ?? EMPTY_INTERFACE);
+      if (frame.revert.kind === 'unknown' && raw.revertReason) {
+        frame.revert.reason = raw.revertReason;
+      }
+    } else if (parsed && raw.output) {
+      frame.result = safely(() => iface?.decodeFunctionResult(parsed.fragment, raw.output as string).toArray(true)) ?? undefined;
+    }
+    return frame;
+  }
+}
+
+export function decodeEvents(logs: StepLog[], lookup: InterfaceLookup): DecodedEvent[] {
+  return logs.map((log, logIndex) => {
+    const parsed = safely(() => lookup(log.address)?.parseLog(log));
+    return {
+      address: log.address,
+      logIndex,
+      name: parsed?.name,
+      signature: parsed?.signature,
+      args: parsed?.args.toArray(true),
+      topics: log.topics,
+      data: log.data
+    };
+  });
+}
+
+// The innermost failing frame on the path of failed calls, i.e. where the revert originated.
+// A failed subcall may have been caught, so only follow one whose revert bubbled up: the frame's last call,
+// failing with the very data the frame reverted with
+export function findRevertFrame(frame: CallFrame): CallFrame | undefined {
+  if (!frame.error) return undefined;
+  const last = frame.calls[frame.calls.length - 1];
+  if (last?.error && sameData(last.output, frame.output)) {
+    return findRevertFrame(last);
+  }
+  return frame;
+}
+
+function sameData(a: string | undefined, b: string | undefined): boolean {
+  return (a ?? '0x').toLowerCase() === (b ?? '0x').toLowerCase();
+}
+
+function safely<T>(decode: () => T): T | null {
+  try {
+    return decode() ?? null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,70 @@
+import { ethers } from 'ethers';
+import { TestCase } from '../types/TestCase';
+import { UncoveredBranch } from '../types/Coverage';
+import { ValueGenerator } from './ValueGenerator';
+import { stableId } from '../utils/ids';
+
+interface Probe {
+  actor: string;
+  description: string;
+  // Said instead for functions without arguments, where only the caller differs
+  caller: string;
+  args: (values: ValueGenerator, inputs: readonly ethers.ParamType[]) => unknown[];
+}
+
+// Ways of calling a function that tend to take the arms a first run misses: an outsider hits access checks,
+// bounds hit overflow and limit checks, zero values hit the zero-address and empty-input checks
+const PROBES: Probe[] = [
+  { actor: 'attacker', description: 'as an outsider', caller: 'as an outsider', args: (values, inputs) => values.generateArgs(inputs, 'safe') },
+  { actor: 'deployer', description: 'with minimum integers', caller: 'as the deployer', args: (values, inputs) => inputs.map(input => values.generateIntegerBoundary(input, 'min')) },
+  { actor: 'deployer', description: 'with maximum integers', caller: 'as the deployer', args: (values, inputs) => inputs.map(input => values.generateIntegerBoundary(input, 'max')) },
+  { actor: 'deployer', description: 'with zero values', caller: 'as the deployer', args: (values, inputs) => values.generateArgs(inputs, 'min') }
+];
+
+// Probes of every function that reaches a branch arm the last run never took. Either outcome passes,
+// since the point is reaching the arm; the next coverage report shows which probes did
+export function generateCoverageCases(abi: ethers.InterfaceAbi, contractAddress: string, uncovered: UncoveredBranch[]): TestCase[] {
+  const functions = ethers.Interface.from(abi).fragments.filter(ethers.Fragment.isFunction);
+  const values = new ValueGenerator();
+  const testCases: TestCase[] = [];
+
+  for (const fragment of functions) {
+    const targets = uncovered.filter(branch => branch.functions.includes(fragment.name));
+    if (targets.length === 0) continue;
+    const aims = targets.map(branch => `${branch.path}:${branch.line} ${branch.kind} ${branch.label} (${branch.arm})`).join('; ');
+
+    // Probes that send the same call, e.g. all of them for a function without integers, add nothing
+    const seen = new Set<string>();
+    for (const probe of PROBES) {
+      const args = probe.args(values, fragment.inputs);
+      const id = stableId('coverage', contractAddress, fragment.format(), probe.actor, args);
+      if (seen.has(id)) continue;
+      seen.add(id);
+      const description = fragment.inputs.length > 0 ? probe.description : probe.caller;
+      testCases.push({
+        id,
+        name: `Coverage: ${fragment.name} ${description}`,
+        description: `Aims at untaken branches: ${aims}`,
+        steps: [
+          {
+            id: 'step-probe',
+            action: 'CONTRACT_CALL',
+            params: {
+              method: fragment.name,
+              contractAddress,
+              fragment: JSON.parse(fragment.format('json')),
+              args,
+              actor: probe.actor,
+              ...(fragment.payable ? { value: ethers.parseEther('1').toString() } : {})
+            },
+            description: `Call ${fragment.name} ${description}`,
+            expectedOutcome: 'either'
+          }
+        ],
+        expectedResult: 'Takes a branch arm the suite has not reached yet',
+        status: 'pending'
+      });
+    }
+  }
+  return testCases;
+}
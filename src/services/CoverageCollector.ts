@@ -0,0 +1,327 @@
+import { ethers } from 'ethers';
+import { BranchArm, CoverageCounter, CoverageReport, CoverageTotals, FileCoverage, UncoveredBranch } from '../types/Coverage';
+import { BranchItem, CoverageItem, CoverageMap, RuntimeMap, SourceSpan, contains } from './CoverageMap';
+import { errorMessage } from '../utils/format';
+
+// Opcode-level trace as geth's default struct logger returns it, which anvil and hardhat also implement
+interface StructLog {
+  pc: number;
+  op: string;
+  depth: number;
+  stack?: string[];
+}
+
+// Memory and storage are never read, and leaving them out keeps traces of long transactions small
+const STRUCT_LOGGER = { disableStorage: true, disableMemory: true, enableMemory: false, disableStack: false, enableReturnData: false };
+const CALL_OPS = new Set(['CALL', 'CALLCODE', 'DELEGATECALL', 'STATICCALL']);
+const REVERT_OPS = new Set(['REVERT', 'INVALID']);
+// Instructions kept per frame to find the source statement a revert came from
+const REVERT_WINDOW = 64;
+
+// What one traced step ran of the code at one address
+interface CodeExecution {
+  pcs: Set<number>;
+  // The frame's last instructions before each revert, the reverting one last
+  reverts: number[][];
+}
+
+interface UnitHits {
+  functions: number[];
+  statements: number[];
+  arms: number[][];
+  revertPaths: number[];
+}
+
+export type TracedStep = { hash: string } | { request: { from: string; to: string; data: string; value?: string } };
+
+// Replays every step under an opcode tracer and maps the executed instructions back to source through the
+// compiled contracts' source maps. Only runs on local nodes, which serve debug_traceTransaction and debug_traceCall
+export class CoverageCollector {
+  private hits = new Map<number, UnitHits>();
+  private maps = new Map<string, Promise<RuntimeMap | undefined>>();
+  private matched = new Set<RuntimeMap>();
+  private unmapped = new Set<string>();
+  private tracedSteps = 0;
+  private error?: string;
+
+  constructor(private map: CoverageMap) {
+    for (const unit of map.sources) {
+      this.hits.set(unit.id, {
+        functions: unit.functions.map(() => 0),
+        statements: unit.statements.map(() => 0),
+        arms: unit.branches.map(branch => branch.arms.map(() => 0)),
+        revertPaths: unit.revertPaths.map(() => 0)
+      });
+    }
+  }
+
+  // Never throws: a backend that cannot trace stops collection and the report says why
+  async record(provider: ethers.JsonRpcProvider, step: TracedStep): Promise<void> {
+    if (this.error) {
+      return;
+    }
+    try {
+      let root: string | null;
+      let result: { structLogs?: StructLog[] };
+      if ('hash' in step) {
+        const transaction = await provider.getTransaction(step.hash);
+        root = transaction?.to ?? null;
+        result = await provider.send('debug_traceTransaction', [step.hash, STRUCT_LOGGER]);
+      } else {
+        root = step.request.to;
+        result = await provider.send('debug_traceCall', [step.request, 'latest', STRUCT_LOGGER]);
+      }
+      // Contract creations run init code, which the runtime source maps do not cover
+      if (!root) {
+        return;
+      }
+      for (const [address, execution] of splitByCode(root, result.structLogs ?? [])) {
+        const runtime = await this.runtimeAt(provider, address);
+        if (runtime) {
+          this.matched.add(runtime);
+          this.apply(runtime, execution);
+        }
+      }
+      this.tracedSteps++;
+    } catch (error) {
+      this.error = `Coverage tracing failed: ${errorMessage(error)}`;
+    }
+  }
+
+  report(): CoverageReport {
+    const contractIds = new Set([...this.matched].flatMap(runtime => [...runtime.contractIds]));
+    const files: FileCoverage[] = [];
+    const uncovered: UncoveredBranch[] = [];
+    for (const unit of this.map.sources) {
+      const hits = this.hits.get(unit.id) as UnitHits;
+      // Only what the deployed contracts contain, not every contract that happened to be compiled along
+      const relevant = <T extends CoverageItem>(items: T[]) =>
+        items.map((item, index) => ({ item, index })).filter(({ item }) => contractIds.has(item.contractId));
+
+      const functions = relevant(unit.functions).map(({ item, index }) => ({ name: item.name, line: item.line, hits: hits.functions[index] }));
+      const lineHits = new Map<number, number>();
+      for (const { item, index } of relevant(unit.statements)) {
+        lineHits.set(item.line, Math.max(lineHits.get(item.line) ?? 0, hits.statements[index]));
+      }
+      const lines = [...lineHits].sort(([a], [b]) => a - b).map(([line, count]) => ({ line, hits: count }));
+      const branches = relevant(unit.branches).map(({ item, index }) => ({
+        line: item.line,
+        kind: item.kind,
+        label: item.label,
+        function: item.function,
+        arms: item.arms.map(({ arm }, armIndex) => ({ arm, hits: hits.arms[index][armIndex] }))
+      }));
+      const revertPaths = relevant(unit.revertPaths).map(({ item, index }) => ({
+        line: item.line,
+        kind: item.kind,
+        label: item.label,
+        function: item.function,
+        hits: hits.revertPaths[index]
+      }));
+      if (functions.length === 0 && lines.length === 0) continue;
+
+      for (const { item, index } of relevant(unit.branches)) {
+        item.arms.forEach(({ arm }, armIndex) => {
+          if (hits.arms[index][armIndex] === 0) {
+            uncovered.push({ path: unit.path, line: item.line, kind: item.kind, arm, label: item.label, functions: [...new Set(item.entryPoints)] });
+          }
+        });
+      }
+      files.push({
+        path: unit.path,
+        functions,
+        lines,
+        branches,
+        revertPaths,
+        totals: {
+          functions: count(functions.map(item => item.hits)),
+          lines: count(lines.map(item => item.hits)),
+          branches: count(branches.flatMap(item => item.arms.map(arm => arm.hits))),
+          revertPaths: count(revertPaths.map(item => item.hits))
+        }
+      });
+    }
+
+    return {
+      contracts: [...this.matched].map(runtime => runtime.name),
+      files,
+      totals: sumTotals(files.map(file => file.totals)),
+      uncovered,
+      tracedSteps: this.tracedSteps,
+      unmapped: [...this.unmapped],
+      error: this.error
+    };
+  }
+
+  // The compiled contract whose runtime code is deployed at the address; cached, as attackers and targets stay put
+  private runtimeAt(provider: ethers.JsonRpcProvider, address: string): Promise<RuntimeMap | undefined> {
+    let runtime = this.maps.get(address);
+    if (!runtime) {
+      runtime = provider.getCode(address).then(code => {
+        const match = this.map.contracts.find(candidate => sameCode(code.slice(2).toLowerCase(), candidate));
+        if (!match && code !== '0x') {
+          this.unmapped.add(address);
+        }
+        return match;
+      });
+      this.maps.set(address, runtime);
+    }
+    return runtime;
+  }
+
+  private apply(runtime: RuntimeMap, execution: CodeExecution) {
+    const executed = new Map<string, SourceSpan>();
+    for (const pc of execution.pcs) {
+      const span = runtime.spans.get(pc);
+      if (span) executed.set(`${span.file}:${span.start}:${span.end}`, span);
+    }
+    const spans = [...executed.values()];
+    const ran = (item: SourceSpan | undefined) => item !== undefined && spans.some(span => contains(item, span));
+    const revertSpans = execution.reverts.flatMap(window => {
+      const origin = [...window].reverse().map(pc => runtime.spans.get(pc)).find(span => span !== undefined);
+      return origin ? [origin] : [];
+    });
+
+    for (const unit of this.map.sources) {
+      if (!spans.some(span => span.file === unit.id)) continue;
+      const hits = this.hits.get(unit.id) as UnitHits;
+      const inContract = (item: CoverageItem) => runtime.contractIds.has(item.contractId);
+      unit.functions.forEach((item, index) => {
+        if (inContract(item) && ran(item)) hits.functions[index]++;
+      });
+      unit.statements.forEach((item, index) => {
+        if (inContract(item) && ran(item)) hits.statements[index]++;
+      });
+
+      // A revert belongs to the innermost require, assert or revert around the statement it came from
+      const revertedAt = new Set(revertSpans.flatMap(span => {
+        const owner = innermost(unit.revertPaths.filter(item => inContract(item) && contains(item, span)));
+        return owner ? [owner] : [];
+      }));
+      unit.revertPaths.forEach((item, index) => {
+        if (revertedAt.has(item)) hits.revertPaths[index]++;
+      });
+      unit.branches.forEach((item, index) => {
+        if (!inContract(item) || !ran(item.condition)) return;
+        const reverted = item.revertPath !== undefined && revertedAt.has(item.revertPath);
+        takenArms(item, ran, reverted).forEach(armIndex => hits.arms[index][armIndex]++);
+      });
+    }
+  }
+}
+
+// LCOV tracefile, as read by genhtml, Codecov and editor coverage gutters
+export function toLcov(report: CoverageReport): string {
+  const records = report.files.map(file => {
+    const lines = ['TN:', `SF:${file.path}`];
+    for (const item of file.functions) {
+      lines.push(`FN:${item.line},${item.name}`);
+    }
+    for (const item of file.functions) {
+      lines.push(`FNDA:${item.hits},${item.name}`);
+    }
+    lines.push(`FNF:${file.totals.functions.total}`, `FNH:${file.totals.functions.covered}`);
+    file.branches.forEach((branch, index) => {
+      branch.arms.forEach((arm, armIndex) => {
+        lines.push(`BRDA:${branch.line},${index},${armIndex},${arm.hits > 0 ? arm.hits : '-'}`);
+      });
+    });
+    lines.push(`BRF:${file.totals.branches.total}`, `BRH:${file.totals.branches.covered}`);
+    for (const item of file.lines) {
+      lines.push(`DA:${item.line},${item.hits}`);
+    }
+    lines.push(`LF:${file.totals.lines.total}`, `LH:${file.totals.lines.covered}`, 'end_of_record');
+    return lines.join('\n');
+  });
+  return records.length > 0 ? `${records.join('\n')}\n` : '';
+}
+
+export function coveragePercent({ covered, total }: CoverageCounter): number {
+  return total === 0 ? 100 : (covered / total) * 100;
+}
+
+// Splits a transaction's instructions by the address whose code ran them, following calls down and back up
+function splitByCode(root: string, logs: StructLog[]): Map<string, CodeExecution> {
+  const executions = new Map<string, CodeExecution>();
+  const executionOf = (address: string) => {
+    const key = address.toLowerCase();
+    let execution = executions.get(key);
+    if (!execution) {
+      execution = { pcs: new Set(), reverts: [] };
+      executions.set(key, execution);
+    }
+    return execution;
+  };
+
+  // Frame per call depth; undefined for init code run by CREATE. Hardhat counts depth from 0, geth and anvil from 1
+  const frames: ({ execution: CodeExecution; recent: number[] } | undefined)[] = [{ execution: executionOf(root), recent: [] }];
+  const base = logs[0]?.depth ?? 1;
+  logs.forEach((log, index) => {
+    const frame = frames[log.depth - base];
+    if (frame) {
+      frame.execution.pcs.add(log.pc);
+      frame.recent.push(log.pc);
+      if (frame.recent.length > REVERT_WINDOW) frame.recent.shift();
+      if (REVERT_OPS.has(log.op)) frame.execution.reverts.push([...frame.recent]);
+    }
+    const next = logs[index + 1];
+    if (next && next.depth > log.depth) {
+      // DELEGATECALL and CALLCODE run the callee's code too, so the code address is what matters for all four
+      const callee = CALL_OPS.has(log.op) && log.stack ? stackAddress(log.stack[log.stack.length - 2]) : undefined;
+      frames[log.depth - base + 1] = callee ? { execution: executionOf(callee), recent: [] } : undefined;
+    }
+  });
+  return executions;
+}
+
+function stackAddress(word: string): string {
+  return ethers.getAddress(ethers.toBeHex(BigInt(word) & ((1n << 160n) - 1n), 20));
+}
+
+// Immutables and linked libraries are masked out, and with them the metadata hash when nothing else differs
+function sameCode(deployed: string, runtime: RuntimeMap): boolean {
+  if (deployed.length !== runtime.code.length) {
+    return false;
+  }
+  let masked = deployed;
+  for (const { start, length } of runtime.ignored) {
+    masked = masked.slice(0, start * 2) + '0'.repeat(length * 2) + masked.slice((start + length) * 2);
+  }
+  return masked === runtime.code || withoutMetadata(masked) === withoutMetadata(runtime.code);
+}
+
+// solc appends CBOR metadata followed by its length in two bytes
+function withoutMetadata(code: string): string {
+  const length = parseInt(code.slice(-4), 16);
+  return Number.isNaN(length) || (length + 2) * 2 > code.length ? code : code.slice(0, -(length + 2) * 2);
+}
+
+// Arms one execution took. An if without else took its implicit else when the condition ran but the body did not,
+// and a require passed when it ran without reverting; a loop taking both in one execution counts as one of them
+function takenArms(branch: BranchItem, ran: (span: SourceSpan | undefined) => boolean, reverted: boolean): number[] {
+  return branch.arms.flatMap(({ arm, body }, index) => {
+    const taken: Record<BranchArm, boolean> = {
+      true: ran(body),
+      false: body ? ran(body) : !ran(branch.arms[0].body),
+      pass: !reverted,
+      revert: reverted
+    };
+    return taken[arm] ? [index] : [];
+  });
+}
+
+function innermost<T extends SourceSpan>(items: T[]): T | undefined {
+  return items.reduce<T | undefined>((best, item) => (!best || item.end - item.start < best.end - best.start ? item : best), undefined);
+}
+
+function count(hits: number[]): CoverageCounter {
+  return { covered: hits.filter(value => value > 0).length, total: hits.length };
+}
+
+function sumTotals(totals: CoverageTotals[]): CoverageTotals {
+  const sum = (key: keyof CoverageTotals) => totals.reduce(
+    (total, item) => ({ covered: total.covered + item[key].covered, total: total.total + item[key].total }),
+    { covered: 0, total: 0 }
+  );
+  return { functions: sum('functions'), lines: sum('lines'), branches: sum('branches'), revertPaths: sum('revertPaths') };
+}
@@ -0,0 +1,381 @@
+import { BranchArm, BranchKind, RevertPathKind } from '../types/Coverage';
+import { CompilerOutput, compileStandardJson } from './ArtifactLoader';
+import { SolidityCompiler } from './SolidityCompiler';
+
+interface ByteRange {
+  start: number;
+  length: number;
+}
+
+interface DeployedBytecode {
+  object?: string;
+  sourceMap?: string;
+  // Filled in at deployment and link time, so these bytes differ between the compiled and the deployed code
+  immutableReferences?: Record<string, ByteRange[]>;
+  linkReferences?: Record<string, Record<string, ByteRange[]>>;
+}
+
+interface CoverageOutput extends CompilerOutput {
+  sources?: Record<string, { id: number; ast: AstNode }>;
+  contracts?: Record<string, Record<string, { evm?: { deployedBytecode?: DeployedBytecode } }>>;
+}
+
+// Compact JSON AST node, reduced to the fields every node has
+interface AstNode {
+  id: number;
+  nodeType: string;
+  src: string;
+  [key: string]: unknown;
+}
+
+// Byte offsets into the source with the given solc source id
+export interface SourceSpan {
+  file: number;
+  start: number;
+  end: number;
+}
+
+export interface CoverageItem extends SourceSpan {
+  line: number;
+  // AST id of the contract declaring the item
+  contractId: number;
+  // Enclosing function or modifier
+  function?: string;
+  // External functions a call has to start at to reach the item
+  entryPoints: string[];
+}
+
+export interface FunctionItem extends CoverageItem {
+  name: string;
+}
+
+export interface BranchItem extends CoverageItem {
+  kind: BranchKind;
+  label: string;
+  condition: SourceSpan;
+  // Code only that arm runs; missing for the implicit else of an if and for require's arms
+  arms: { arm: BranchArm; body?: SourceSpan }[];
+  // require and assert revert here when their condition fails
+  revertPath?: RevertPathItem;
+}
+
+export interface RevertPathItem extends CoverageItem {
+  kind: RevertPathKind;
+  label: string;
+}
+
+export interface SourceUnit {
+  id: number;
+  path: string;
+  functions: FunctionItem[];
+  statements: CoverageItem[];
+  branches: BranchItem[];
+  revertPaths: RevertPathItem[];
+}
+
+// Runtime code of one compiled contract and the source span behind each of its instructions
+export interface RuntimeMap {
+  // sourceName:contractName
+  name: string;
+  // Lowercase hex without 0x, link placeholders zeroed
+  code: string;
+  ignored: ByteRange[];
+  spans: Map<number, SourceSpan>;
+  // The contract's own AST id and those of the contracts it inherits from
+  contractIds: Set<number>;
+}
+
+export interface CoverageMap {
+  contracts: RuntimeMap[];
+  sources: SourceUnit[];
+}
+
+// Statements that count towards line coverage; loops and ifs count through their conditions
+const STATEMENTS = new Set([
+  'ExpressionStatement',
+  'VariableDeclarationStatement',
+  'Return',
+  'EmitStatement',
+  'RevertStatement',
+  'Break',
+  'Continue',
+  'InlineAssembly',
+  'Throw'
+]);
+const LOOPS = new Set(['WhileStatement', 'DoWhileStatement', 'ForStatement']);
+const EXTERNAL = new Set(['public', 'external']);
+const LABEL_LENGTH = 80;
+
+// Compiles the sources with the same settings as compileSources, so deployments of its artifacts match the map
+export async function buildCoverageMap(compiler: SolidityCompiler, sources: Record<string, string>): Promise<CoverageMap> {
+  const output = await compileStandardJson<CoverageOutput>(compiler, sources, {
+    '*': {
+      '': ['ast'],
+      '*': [
+        'evm.deployedBytecode.object',
+        'evm.deployedBytecode.sourceMap',
+        'evm.deployedBytecode.immutableReferences',
+        'evm.deployedBytecode.linkReferences'
+      ]
+    }
+  });
+
+  const walker = new AstWalker();
+  const units = Object.entries(output.sources ?? {}).map(([path, { id, ast }]) =>
+    walker.unit(id, path, sources[path] ?? '', ast)
+  );
+  const sourceIds = new Set(units.map(unit => unit.id));
+
+  const contracts: RuntimeMap[] = [];
+  for (const [sourceName, compiled] of Object.entries(output.contracts ?? {})) {
+    for (const [contractName, contract] of Object.entries(compiled)) {
+      const deployed = contract.evm?.deployedBytecode;
+      // Interfaces and abstract contracts have no code
+      if (!deployed?.object) continue;
+      const code = deployed.object.replace(/__\$[0-9a-fA-F]{34}\$__/g, '0'.repeat(40)).toLowerCase();
+      const entries = decodeSourceMap(deployed.sourceMap ?? '').map(span => (sourceIds.has(span.file) ? span : undefined));
+      contracts.push({
+        name: `${sourceName}:${contractName}`,
+        code,
+        ignored: [
+          ...Object.values(deployed.immutableReferences ?? {}).flat(),
+          ...Object.values(deployed.linkReferences ?? {}).flatMap(libraries => Object.values(libraries).flat())
+        ],
+        spans: instructionSpans(code, entries),
+        contractIds: new Set(walker.bases.get(`${sourceName}:${contractName}`) ?? [])
+      });
+    }
+  }
+  return { contracts, sources: units };
+}
+
+export function contains(outer: SourceSpan, inner: SourceSpan): boolean {
+  return outer.file === inner.file && inner.start >= outer.start && inner.end <= outer.end;
+}
+
+// solc's compressed s:l:f:j:m entries, where an empty field repeats the previous entry's value
+function decodeSourceMap(sourceMap: string): SourceSpan[] {
+  let start = 0;
+  let length = 0;
+  let file = -1;
+  return sourceMap.split(';').map(entry => {
+    const [s, l, f] = entry.split(':');
+    if (s) start = Number(s);
+    if (l) length = Number(l);
+    if (f) file = Number(f);
+    return { file, start, end: start + length };
+  });
+}
+
+// Source map entries are per instruction, while traces report byte offsets that PUSH data skips over
+function instructionSpans(code: string, entries: (SourceSpan | undefined)[]): Map<number, SourceSpan> {
+  const spans = new Map<number, SourceSpan>();
+  let pc = 0;
+  for (let index = 0; index < entries.length && pc * 2 < code.length; index++) {
+    const span = entries[index];
+    if (span) {
+      spans.set(pc, span);
+    }
+    const opcode = parseInt(code.slice(pc * 2, pc * 2 + 2), 16);
+    pc += 1 + (opcode >= 0x60 && opcode <= 0x7f ? opcode - 0x5f : 0);
+  }
+  return spans;
+}
+
+interface Scope {
+  contractId: number;
+  contractName: string;
+  function?: string;
+  entryPoints: string[];
+}
+
+class AstWalker {
+  // Linearized base contract ids by sourceName:contractName
+  bases = new Map<string, number[]>();
+  // External functions using each modifier; shared with the modifier's items, so later uses still reach them
+  private modifierUsers = new Map<string, string[]>();
+  private unitInProgress!: SourceUnit;
+  private text = new Uint8Array();
+  private lineStarts: number[] = [];
+
+  unit(id: number, path: string, content: string, ast: AstNode): SourceUnit {
+    // solc offsets count UTF-8 bytes, not characters
+    this.text = new TextEncoder().encode(content);
+    this.lineStarts = [0];
+    this.text.forEach((byte, offset) => {
+      if (byte === 0x0a) this.lineStarts.push(offset + 1);
+    });
+    this.unitInProgress = { id, path, functions: [], statements: [], branches: [], revertPaths: [] };
+    this.walk(ast, { contractId: -1, contractName: '', entryPoints: [] });
+    return this.unitInProgress;
+  }
+
+  private walk(value: unknown, scope: Scope) {
+    if (Array.isArray(value)) {
+      value.forEach(child => this.walk(child, scope));
+      return;
+    }
+    if (!isNode(value)) return;
+    const inner = this.visit(value, scope);
+    for (const child of Object.values(value)) {
+      if (typeof child === 'object' && child !== null) {
+        this.walk(child, inner);
+      }
+    }
+  }
+
+  private visit(node: AstNode, scope: Scope): Scope {
+    const unit = this.unitInProgress;
+    switch (node.nodeType) {
+      case 'ContractDefinition': {
+        const name = String(node.name);
+        this.bases.set(`${unit.path}:${name}`, (node.linearizedBaseContracts as number[] | undefined) ?? [node.id]);
+        return { contractId: node.id, contractName: name, entryPoints: [] };
+      }
+      case 'FunctionDefinition': {
+        // Constructors, fallback and receive have no name
+        const name = String(node.name || node.kind);
+        const external = EXTERNAL.has(String(node.visibility)) || node.kind === 'fallback' || node.kind === 'receive';
+        if (external) {
+          for (const invocation of (node.modifiers as AstNode[] | undefined) ?? []) {
+            const modifier = (invocation.modifierName as { name?: string } | undefined)?.name;
+            if (modifier) this.usersOf(modifier).push(name);
+          }
+        }
+        const inner = { ...scope, function: name, entryPoints: external ? [name] : [] };
+        if (node.body) {
+          unit.functions.push({ ...this.item(node, inner), name: `${scope.contractName}.${name}` });
+        }
+        return inner;
+      }
+      case 'ModifierDefinition': {
+        const name = String(node.name);
+        const inner = { ...scope, function: name, entryPoints: this.usersOf(name) };
+        unit.functions.push({ ...this.item(node, inner), name: `${scope.contractName}.${name}` });
+        return inner;
+      }
+      case 'IfStatement': {
+        const condition = node.condition as AstNode;
+        unit.statements.push(this.item(condition, scope));
+        unit.branches.push({
+          ...this.item(node, scope),
+          kind: 'if',
+          label: this.label(condition),
+          condition: parseSpan(condition.src),
+          arms: [
+            { arm: 'true', body: parseSpan((node.trueBody as AstNode).src) },
+            { arm: 'false', body: isNode(node.falseBody) ? parseSpan(node.falseBody.src) : undefined }
+          ]
+        });
+        return scope;
+      }
+      case 'Conditional': {
+        const condition = node.condition as AstNode;
+        unit.branches.push({
+          ...this.item(node, scope),
+          kind: 'ternary',
+          label: this.label(condition),
+          condition: parseSpan(condition.src),
+          arms: [
+            { arm: 'true', body: parseSpan((node.trueExpression as AstNode).src) },
+            { arm: 'false', body: parseSpan((node.falseExpression as AstNode).src) }
+          ]
+        });
+        return scope;
+      }
+      case 'FunctionCall': {
+        const callee = node.expression as AstNode;
+        const name = callee.nodeType === 'Identifier' ? String(callee.name) : '';
+        const args = (node.arguments as AstNode[] | undefined) ?? [];
+        if ((name === 'require' || name === 'assert') && args[0]) {
+          const revertPath: RevertPathItem = { ...this.item(node, scope), kind: name, label: args[1] ? this.reason(args[1]) : this.label(node) };
+          unit.revertPaths.push(revertPath);
+          unit.branches.push({
+            ...this.item(node, scope),
+            kind: name,
+            label: this.label(args[0]),
+            condition: parseSpan(node.src),
+            arms: [{ arm: 'pass' }, { arm: 'revert' }],
+            revertPath
+          });
+        } else if (name === 'revert') {
+          unit.revertPaths.push({ ...this.item(node, scope), kind: 'revert', label: args[0] ? this.reason(args[0]) : 'revert()' });
+        }
+        return scope;
+      }
+      case 'RevertStatement':
+        unit.statements.push(this.item(node, scope));
+        unit.revertPaths.push({ ...this.item(node, scope), kind: 'revert', label: this.reason(node.errorCall as AstNode) });
+        return scope;
+      default:
+        if (STATEMENTS.has(node.nodeType)) {
+          unit.statements.push(this.item(node, scope));
+        } else if (LOOPS.has(node.nodeType) && isNode(node.condition)) {
+          unit.statements.push(this.item(node.condition, scope));
+        }
+        return scope;
+    }
+  }
+
+  private item(node: AstNode, scope: Scope): CoverageItem {
+    const span = parseSpan(node.src);
+    return {
+      ...span,
+      line: this.lineAt(span.start),
+      contractId: scope.contractId,
+      function: scope.function,
+      entryPoints: scope.entryPoints
+    };
+  }
+
+  private usersOf(modifier: string): string[] {
+    let users = this.modifierUsers.get(modifier);
+    if (!users) {
+      users = [];
+      this.modifierUsers.set(modifier, users);
+    }
+    return users;
+  }
+
+  // Reason string or custom error name of a revert, else the expression as written
+  private reason(node: AstNode): string {
+    if (node.nodeType === 'Literal' && typeof node.value === 'string') {
+      return `"${node.value}"`;
+    }
+    if (node.nodeType === 'FunctionCall') {
+      const callee = node.expression as AstNode;
+      const name = callee.nodeType === 'MemberAccess' ? callee.memberName : callee.name;
+      if (typeof name === 'string') return name;
+    }
+    return this.label(node);
+  }
+
+  private label(node: AstNode): string {
+    const { start, end } = parseSpan(node.src);
+    const text = new TextDecoder().decode(this.text.slice(start, end)).replace(/\s+/g, ' ').trim();
+    return text.length > LABEL_LENGTH ? `${text.slice(0, LABEL_LENGTH - 1)}…` : text;
+  }
+
+  private lineAt(offset: number): number {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low + 1;
+  }
+}
+
+function isNode(value: unknown): value is AstNode {
+  return typeof value === 'object' && value !== null && typeof (value as AstNode).nodeType === 'string';
+}
+
+function parseSpan(src: string): SourceSpan {
+  const [start, length, file] = src.split(':').map(Number);
+  return { file, start, end: start + length };
+}
@@ -0,0 +1,206 @@
+import { TestCase, TestResult, StepResult } from '../types/TestCase';
+import { DecodedEvent } from '../types/Trace';
+import { CaseComparison, DifferentialReport, DifferentialTarget, Divergence, StorageLayoutReport } from '../types/Differential';
+import { TestExecutor } from './TestExecutor';
+import { ScheduledResult, SchedulerOptions, TestScheduler } from './TestScheduler';
+import { retargetTestCases } from './SuiteSerializer';
+import { describeRevert } from './RevertDecoder';
+import { stringify } from '../utils/format';
+
+export interface DifferentialOptions extends Omit<SchedulerOptions, 'trackBalances' | 'onStart' | 'onResult'> {
+  // Called once both sides of a case have run
+  onComparison?: (comparison: CaseComparison) => void;
+}
+
+export interface DifferentialRun {
+  // Cases stopped before both sides ran are left out
+  done: Promise<DifferentialReport>;
+  abort: () => void;
+}
+
+// Suffix of the candidate copies' ids, which must differ from the baseline's within one scheduled run
+const CANDIDATE_ID_SUFFIX = '#candidate';
+
+// Runs every case once against each deployment and compares them step by step. On local chains both copies of a
+// write case start from the same snapshot; on public networks each runs against the live state of its deployment
+export class DifferentialTester {
+  constructor(private executor: TestExecutor, private options: DifferentialOptions = {}) {}
+
+  run(testCases: TestCase[], suiteAddress: string, baseline: DifferentialTarget, candidate: DifferentialTarget): DifferentialRun {
+    const enabled = testCases.filter(testCase => !testCase.disabled);
+    const baselineCases = retargetTestCases(enabled, suiteAddress, baseline.address);
+    const candidateCases = retargetTestCases(enabled, suiteAddress, candidate.address)
+      .map(testCase => ({ ...testCase, id: `${testCase.id}${CANDIDATE_ID_SUFFIX}` }));
+
+    const pending = new Map<string, ScheduledResult>();
+    const comparisons = new Map<string, CaseComparison>();
+    const { onComparison, ...schedulerOptions } = this.options;
+    const scheduled = new TestScheduler(this.executor, {
+      ...schedulerOptions,
+      trackBalances: true,
+      onResult: run => {
+        const id = run.testCase.id.endsWith(CANDIDATE_ID_SUFFIX)
+          ? run.testCase.id.slice(0, -CANDIDATE_ID_SUFFIX.length)
+          : run.testCase.id;
+        const other = pending.get(id);
+        if (!other) {
+          pending.set(id, run);
+          return;
+        }
+        pending.delete(id);
+        const [baselineRun, candidateRun] = run.testCase.id === id ? [run, other] : [other, run];
+        const testCase = enabled.find(item => item.id === id) as TestCase;
+        const comparison: CaseComparison = {
+          testCaseId: id,
+          testCaseName: testCase.name,
+          baseline: baselineRun.result,
+          candidate: { ...candidateRun.result, testCaseId: id },
+          durationMs: baselineRun.durationMs + candidateRun.durationMs,
+          divergences: compareResults(baselineRun.result, candidateRun.result, baseline, candidate)
+        };
+        comparisons.set(id, comparison);
+        onComparison?.(comparison);
+      }
+    }).run(baselineCases.flatMap((testCase, index) => [testCase, candidateCases[index]]));
+
+    const done = scheduled.done.then(() => {
+      const cases = enabled.flatMap(testCase => comparisons.get(testCase.id) ?? []);
+      const divergences = cases.flatMap(comparison => comparison.divergences);
+      const gasDivergences = divergences.filter(divergence => divergence.kind === 'gas').length;
+      return {
+        baseline,
+        candidate,
+        cases,
+        behavioralDivergences: divergences.length - gasDivergences,
+        gasDivergences
+      };
+    });
+    return { done, abort: scheduled.abort };
+  }
+}
+
+// Everything observable that differs between the two runs of a case. Each deployment's own address is masked,
+// so a value or event that mentions the contract itself does not count as a divergence
+export function compareResults(
+  baselineResult: TestResult,
+  candidateResult: TestResult,
+  baseline: DifferentialTarget,
+  candidate: DifferentialTarget
+): Divergence[] {
+  const mask = (text: string) => [baseline.address, candidate.address].reduce(
+    (masked, address) => masked.replace(new RegExp(address.slice(2), 'gi'), 'DEPLOYMENT'),
+    text
+  );
+  const divergences: Divergence[] = [];
+  const differ = (kind: Divergence['kind'], stepId: string | undefined, message: string, before: string, after: string) => {
+    if (mask(before) !== mask(after)) {
+      divergences.push({ kind, stepId, message, baseline: before, candidate: after });
+    }
+  };
+
+  if (baselineResult.success !== candidateResult.success) {
+    divergences.push({
+      kind: 'outcome',
+      message: baselineResult.success ? `Passes on ${baseline.label} but fails on ${candidate.label}` : `Fails on ${baseline.label} but passes on ${candidate.label}`,
+      baseline: describeOutcome(baselineResult),
+      candidate: describeOutcome(candidateResult)
+    });
+  } else if (!baselineResult.success) {
+    differ('outcome', undefined, 'Fails for a different reason', describeOutcome(baselineResult), describeOutcome(candidateResult));
+  }
+
+  const candidateSteps = new Map((candidateResult.steps ?? []).map(step => [step.stepId, step]));
+  for (const before of baselineResult.steps ?? []) {
+    const after = candidateSteps.get(before.stepId);
+    candidateSteps.delete(before.stepId);
+    if (!after) {
+      divergences.push({ kind: 'missingStep', stepId: before.stepId, message: `Step never ran on ${candidate.label}`, baseline: before.method, candidate: 'not run' });
+      continue;
+    }
+    if (before.kind === 'chain') continue;
+
+    const { stepId } = before;
+    differ('revert', stepId, 'Reverts differently', describeStepOutcome(before), describeStepOutcome(after));
+    if (before.kind === 'call') {
+      differ('returnValue', stepId, 'Returns a different value', stringify(before.returnValue), stringify(after.returnValue));
+    }
+    differ('events', stepId, 'Emits different events', describeEvents(before.events), describeEvents(after.events));
+    differ('balance', stepId, 'Moves different amounts of ether', describeBalances(before), describeBalances(after));
+    if (before.receipt && after.receipt) {
+      differ('gas', stepId, describeGasChange(BigInt(before.receipt.gasUsed), BigInt(after.receipt.gasUsed)), before.receipt.gasUsed, after.receipt.gasUsed);
+    }
+  }
+  for (const after of candidateSteps.values()) {
+    divergences.push({ kind: 'missingStep', stepId: after.stepId, message: `Step never ran on ${baseline.label}`, baseline: 'not run', candidate: after.method });
+  }
+  return divergences;
+}
+
+// Markdown report of a differential run, every divergence listed under its case
+export function formatDifferentialReport(report: DifferentialReport): string {
+  const { baseline, candidate } = report;
+  const lines = [
+    `# Differential report`,
+    '',
+    `Baseline: ${baseline.label} at ${baseline.address}`,
+    `Candidate: ${candidate.label} at ${candidate.address}`,
+    '',
+    `${report.cases.length} cases compared, ${report.cases.filter(item => item.divergences.length > 0).length} diverge: ` +
+      `${report.behavioralDivergences} behavioral divergences, ${report.gasDivergences} gas changes`,
+    ''
+  ];
+  if (report.layout) {
+    lines.push(...formatLayout(report.layout), '');
+  }
+  for (const comparison of report.cases.filter(item => item.divergences.length > 0)) {
+    lines.push(`## ${comparison.testCaseName}`, '', '| Step | Kind | Divergence | Baseline | Candidate |', '| --- | --- | --- | --- | --- |');
+    for (const divergence of comparison.divergences) {
+      lines.push(`| ${divergence.stepId ?? ''} | ${divergence.kind} | ${divergence.message} | ${cell(divergence.baseline)} | ${cell(divergence.candidate)} |`);
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+function formatLayout(layout: StorageLayoutReport): string[] {
+  const verdict = layout.compatible ? 'compatible' : 'INCOMPATIBLE';
+  return [
+    `## Storage layout: ${verdict}`,
+    '',
+    `${layout.baselineContract} -> ${layout.candidateContract}`,
+    '',
+    ...(layout.issues.length > 0
+      ? layout.issues.map(issue => `- ${issue.severity.toUpperCase()} slot ${issue.slot}: ${issue.message}`)
+      : ['No issues'])
+  ];
+}
+
+function describeGasChange(before: bigint, after: bigint): string {
+  const delta = after - before;
+  const percent = before > 0n ? ` (${delta > 0n ? '+' : ''}${(Number(delta * 10_000n / before) / 100).toFixed(2)}%)` : '';
+  return `Gas ${delta > 0n ? 'rises' : 'falls'} by ${(delta < 0n ? -delta : delta).toString()}${percent}`;
+}
+
+function describeOutcome(result: TestResult): string {
+  return result.success ? 'passed' : `failed: ${result.error ?? 'unknown error'}`;
+}
+
+function describeStepOutcome(step: StepResult): string {
+  return step.revert ? `reverted: ${describeRevert(step.revert)}` : step.reverted ? 'reverted' : 'succeeded';
+}
+
+function describeEvents(events: DecodedEvent[] = []): string {
+  if (events.length === 0) return 'none';
+  return events
+    .map(event => `${event.address} ${event.name ?? event.topics[0]}(${event.args ? stringify(event.args) : event.data})`)
+    .join('; ');
+}
+
+function describeBalances(step: StepResult): string {
+  const changes = Object.entries(step.balanceChanges ?? {}).sort(([a], [b]) => a.localeCompare(b));
+  return changes.length > 0 ? changes.map(([label, change]) => `${label} ${change}`).join(', ') : 'none';
+}
+
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
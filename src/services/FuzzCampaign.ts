@@ -0,0 +1,172 @@
+import { ethers } from 'ethers';
+import { FuzzConfig, TestCase, TestResult } from '../types/TestCase';
+import { ValueGenerator, parseIntegerType } from './ValueGenerator';
+import { createRng } from '../utils/random';
+import { stringify } from '../utils/format';
+
+export const DEFAULT_FUZZ_ITERATIONS = 50;
+const MAX_SHRINK_ATTEMPTS = 500;
+
+export type TestRunner = (testCase: TestCase) => Promise<TestResult>;
+
+export class FuzzCampaign {
+  constructor(
+    private runner: TestRunner,
+    private knownAddresses: string[] = []
+  ) {}
+
+  async run(testCase: TestCase, config: FuzzConfig): Promise<TestResult> {
+    const step = testCase.steps.find(item => item.id === config.stepId);
+    if (!step?.params.fragment) {
+      throw new Error(`Fuzz target step ${config.stepId} has no ABI fragment`);
+    }
+    const inputs = ethers.FunctionFragment.from(step.params.fragment).inputs;
+    // The seed fully determines the sequence of inputs, so a failing campaign replays exactly
+    const values = new ValueGenerator(createRng(config.seed), this.knownAddresses);
+    const logs = [`Fuzz campaign: ${config.iterations} iterations, seed ${config.seed}`];
+
+    for (let iteration = 0; iteration < config.iterations; iteration++) {
+      const args = values.generateArgs(inputs, 'fuzz');
+      const result = await this.runner(withArgs(testCase, config.stepId, args));
+      if (result.success) continue;
+
+      logs.push(`Iteration ${iteration} failed with ${stringify(args)}: ${result.error}`);
+      const shrunk = await this.shrink(testCase, config.stepId, inputs, args, result);
+      logs.push(`Shrunk to ${stringify(shrunk.args)} in ${shrunk.steps} steps`);
+
+      return {
+        ...shrunk.result,
+        testCaseId: testCase.id,
+        error: `Counterexample ${stringify(shrunk.args)} (seed ${config.seed}, iteration ${iteration}): ${shrunk.result.error}`,
+        logs: [...logs, ...shrunk.result.logs],
+        timestamp: Date.now(),
+        fuzz: {
+          seed: config.seed,
+          iterations: iteration + 1,
+          failingIteration: iteration,
+          originalInput: args,
+          counterexample: shrunk.args,
+          shrinkSteps: shrunk.steps
+        }
+      };
+    }
+
+    logs.push(`All ${config.iterations} iterations passed`);
+    return {
+      testCaseId: testCase.id,
+      success: true,
+      logs,
+      timestamp: Date.now(),
+      fuzz: { seed: config.seed, iterations: config.iterations }
+    };
+  }
+
+  // Greedy shrinking: accept the first simpler candidate that still fails, then start over from it
+  private async shrink(
+    testCase: TestCase,
+    stepId: string,
+    inputs: readonly ethers.ParamType[],
+    failingArgs: unknown[],
+    failingResult: TestResult
+  ): Promise<{ args: unknown[]; result: TestResult; steps: number }> {
+    let current = failingArgs;
+    let result = failingResult;
+    let steps = 0;
+    let attempts = 0;
+
+    search: while (attempts < MAX_SHRINK_ATTEMPTS) {
+      for (let index = 0; index < inputs.length; index++) {
+        for (const candidate of shrinkValue(inputs[index], current[index])) {
+          if (++attempts > MAX_SHRINK_ATTEMPTS) break search;
+          const next = current.map((value, i) => (i === index ? candidate : value));
+          const attempt = await this.runner(withArgs(testCase, stepId, next));
+          if (!attempt.success) {
+            current = next;
+            result = attempt;
+            steps++;
+            continue search;
+          }
+        }
+      }
+      break;
+    }
+
+    return { args: current, result, steps };
+  }
+}
+
+function withArgs(testCase: TestCase, stepId: string, args: unknown[]): TestCase {
+  return {
+    ...testCase,
+    fuzz: undefined,
+    steps: testCase.steps.map(step => (step.id === stepId ? { ...step, params: { ...step.params, args } } : step))
+  };
+}
+
+// Simpler variants of a value, simplest first
+function* shrinkValue(param: ethers.ParamType, value: unknown): Generator<unknown> {
+  if (param.isArray()) {
+    const items = value as unknown[];
+    if (param.arrayLength < 0 && items.length > 0) {
+      yield [];
+      if (items.length > 1) yield items.slice(0, Math.floor(items.length / 2));
+      for (let i = 0; i < items.length; i++) {
+        yield [...items.slice(0, i), ...items.slice(i + 1)];
+      }
+    }
+    for (let i = 0; i < items.length; i++) {
+      for (const candidate of shrinkValue(param.arrayChildren, items[i])) {
+        yield items.map((item, j) => (j === i ? candidate : item));
+      }
+    }
+    return;
+  }
+
+  if (param.isTuple()) {
+    const fields = value as unknown[];
+    for (let i = 0; i < param.components.length; i++) {
+      for (const candidate of shrinkValue(param.components[i], fields[i])) {
+        yield fields.map((field, j) => (j === i ? candidate : field));
+      }
+    }
+    return;
+  }
+
+  if (parseIntegerType(param.baseType)) {
+    const number = BigInt(value as string);
+    if (number === 0n) return;
+    yield '0';
+    if (number > 1n || number < -1n) yield (number > 0n ? '1' : '-1');
+    // Move toward zero by n/2, n/4, ... 1 so the exact failure threshold is found in logarithmic steps
+    for (let distance = number / 2n; distance !== 0n; distance /= 2n) {
+      yield (number - distance).toString();
+    }
+    return;
+  }
+
+  switch (param.baseType) {
+    case 'bool':
+      if (value === true) yield false;
+      return;
+    case 'address':
+      if (value !== ethers.ZeroAddress) yield ethers.ZeroAddress;
+      return;
+    case 'string': {
+      const text = value as string;
+      if (text.length > 0) yield '';
+      if (text.length > 1) yield text.slice(0, Math.floor(text.length / 2));
+      return;
+    }
+    case 'bytes': {
+      const size = ethers.dataLength(value as string);
+      if (size > 0) yield '0x';
+      if (size > 1) yield ethers.dataSlice(value as string, 0, Math.floor(size / 2));
+      return;
+    }
+    default: {
+      // bytesN: all zero bytes is the simplest value of a fixed size
+      const zero = ethers.zeroPadValue('0x', ethers.dataLength(value as string));
+      if (value !== zero) yield zero;
+    }
+  }
+}
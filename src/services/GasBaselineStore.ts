@@ -0,0 +1,13 @@
+import { GasBaseline } from '../types/Gas';
+
+const KEY_PREFIX = 'gas-baseline:';
+
+// Browser persistence of one baseline per contract address
+export function loadGasBaseline(contractAddress: string): GasBaseline | undefined {
+  const stored = localStorage.getItem(KEY_PREFIX + contractAddress.toLowerCase());
+  return stored ? JSON.parse(stored) : undefined;
+}
+
+export function saveGasBaseline(baseline: GasBaseline) {
+  localStorage.setItem(KEY_PREFIX + baseline.contractAddress.toLowerCase(), JSON.stringify(baseline));
+}
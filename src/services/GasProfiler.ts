@@ -0,0 +1,64 @@
+import { TestResult } from '../types/TestCase';
+import { FunctionGasStats, GasBaseline, GasRegression, GasReport } from '../types/Gas';
+
+// Median gas may rise by this fraction before a function is flagged
+export const DEFAULT_GAS_TOLERANCE = 0.05;
+
+// Min/avg/max/median gas per function over every mined transaction in the results
+export function buildGasReport(results: TestResult[]): GasReport {
+  const samples = new Map<string, number[]>();
+  for (const result of results) {
+    for (const step of result.steps ?? []) {
+      if (!step.receipt || step.reverted) continue;
+      const gas = samples.get(step.method) ?? [];
+      gas.push(Number(step.receipt.gasUsed));
+      samples.set(step.method, gas);
+    }
+  }
+
+  const functions = [...samples.entries()].map(([method, gas]) => toStats(method, gas));
+  return { functions: functions.sort((a, b) => a.method.localeCompare(b.method)) };
+}
+
+export function createGasBaseline(report: GasReport, contractAddress: string): GasBaseline {
+  return {
+    contractAddress,
+    createdAt: new Date().toISOString(),
+    functions: Object.fromEntries(report.functions.map(stats => [stats.method, stats]))
+  };
+}
+
+// Functions missing from the baseline are new and never count as regressions
+export function findGasRegressions(
+  report: GasReport,
+  baseline: GasBaseline,
+  tolerance = DEFAULT_GAS_TOLERANCE
+): GasRegression[] {
+  const regressions: GasRegression[] = [];
+  for (const stats of report.functions) {
+    const previous = baseline.functions[stats.method];
+    if (!previous || previous.median === 0) continue;
+    const increase = (stats.median - previous.median) / previous.median;
+    if (increase > tolerance) {
+      regressions.push({ method: stats.method, baseline: previous.median, current: stats.median, increase });
+    }
+  }
+  return regressions;
+}
+
+export function describeGasRegression(regression: GasRegression): string {
+  return `${regression.method} median gas rose from ${regression.baseline} to ${regression.current} (+${(regression.increase * 100).toFixed(1)}%)`;
+}
+
+function toStats(method: string, gas: number[]): FunctionGasStats {
+  const sorted = [...gas].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    method,
+    calls: sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    avg: Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    median: sorted.length % 2 === 1 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+  };
+}
@@ -0,0 +1,26 @@
+import { ethers } from 'ethers';
+import { TestCase } from '../types/TestCase';
+import { UncoveredBranch } from '../types/Coverage';
+
+export interface GenerationInput {
+  abi: ethers.InterfaceAbi;
+  contractAddress: string;
+  // Solidity source including NatSpec comments, when available
+  source?: string;
+  // Add cases that deploy attacker contracts; they only run on a local chain
+  attacks?: boolean;
+  // Add cases that move the chain's clock around time locks; they only run on a local chain
+  timeTravel?: boolean;
+  // The cases run on a local chain, where the default sender deployed the contract and holds what it minted
+  localChain?: boolean;
+  // Node serving the deployed contract, asked which standards it claims through ERC-165
+  provider?: ethers.Provider;
+  // Branch arms an earlier run never took; strategies aim extra cases at them
+  uncovered?: UncoveredBranch[];
+}
+
+// A way of turning a contract description into test cases
+export interface GenerationStrategy {
+  readonly name: string;
+  generate(input: GenerationInput): Promise<TestCase[]>;
+}
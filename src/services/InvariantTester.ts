@@ -0,0 +1,301 @@
+import { ethers } from 'ethers';
+import { TestCase } from '../types/TestCase';
+import { Invariant, InvariantCall, InvariantCheck, InvariantTerm } from '../types/Invariant';
+import { LocalChain } from './LocalChain';
+import { ValueGenerator } from './ValueGenerator';
+import { compare } from './AssertionEngine';
+import { createRng, randomSeed } from '../utils/random';
+import { errorMessage } from '../utils/format';
+import { stableId } from '../utils/ids';
+
+export interface InvariantCampaignOptions {
+  contractAddress: string;
+  abi: ethers.InterfaceAbi;
+  invariants: Invariant[];
+  // Number of independent call sequences, each starting from the same snapshot
+  runs?: number;
+  // Calls per sequence
+  depth?: number;
+  seed?: number;
+  actorCount?: number;
+}
+
+export interface InvariantReport {
+  seed: number;
+  runs: number;
+  callsExecuted: number;
+  violation?: {
+    invariant: Invariant;
+    message: string;
+    // Shortest call sequence found that still breaks the invariant
+    sequence: InvariantCall[];
+    testCase: TestCase;
+  };
+}
+
+export interface InvariantContext {
+  provider: ethers.Provider;
+  iface: ethers.Interface;
+  contractAddress: string;
+  actors: string[];
+}
+
+const DEFAULT_RUNS = 20;
+const DEFAULT_DEPTH = 15;
+const DEFAULT_ACTOR_COUNT = 3;
+// Amounts sent with payable calls, so deposits that require ether reach funded states; local accounts hold plenty
+const CALL_VALUES = [1n, ethers.parseEther('0.01'), ethers.parseEther('0.1'), ethers.parseEther('1')];
+
+export class InvariantTester {
+  constructor(private chain: LocalChain) {}
+
+  async run(options: InvariantCampaignOptions): Promise<InvariantReport> {
+    const seed = options.seed ?? randomSeed();
+    const runs = options.runs ?? DEFAULT_RUNS;
+    const depth = options.depth ?? DEFAULT_DEPTH;
+    const random = createRng(seed);
+
+    const iface = ethers.Interface.from(options.abi);
+    const writeFunctions = iface.fragments.filter(ethers.Fragment.isFunction).filter(item => !item.constant);
+    if (writeFunctions.length === 0) {
+      throw new Error('Invariant testing needs at least one state-changing function');
+    }
+
+    const signers = this.chain.getSigners().slice(0, options.actorCount ?? DEFAULT_ACTOR_COUNT);
+    const actors = await Promise.all(signers.map(signer => signer.getAddress()));
+    const values = new ValueGenerator(random, actors, true);
+    const context: InvariantContext = {
+      provider: this.chain.provider,
+      iface,
+      contractAddress: options.contractAddress,
+      actors
+    };
+
+    let callsExecuted = 0;
+    for (let run = 0; run < runs; run++) {
+      const sequence: InvariantCall[] = [];
+      for (let i = 0; i < depth; i++) {
+        const fragment = writeFunctions[Math.floor(random() * writeFunctions.length)];
+        sequence.push({
+          actor: actors[Math.floor(random() * actors.length)],
+          method: fragment.format(),
+          args: values.generateArgs(fragment.inputs, 'fuzz'),
+          ...(fragment.payable ? { value: CALL_VALUES[Math.floor(random() * CALL_VALUES.length)].toString() } : {}),
+          reverted: false
+        });
+      }
+
+      const outcome = await this.replay(sequence, options.invariants, context);
+      callsExecuted += outcome.executed.length;
+      if (!outcome.violation) continue;
+
+      const shortest = await this.minimize(outcome.executed, options.invariants, context);
+      const final = await this.replay(shortest, options.invariants, context);
+      const violation = final.violation ?? outcome.violation;
+      const invariant = options.invariants.find(item => item.id === violation.invariantId) as Invariant;
+
+      return {
+        seed,
+        runs: run + 1,
+        callsExecuted,
+        violation: {
+          invariant,
+          message: violation.message,
+          sequence: final.executed,
+          testCase: toTestCase(final.executed, invariant, options, actors)
+        }
+      };
+    }
+
+    return { seed, runs, callsExecuted };
+  }
+
+  // Runs calls from a snapshot, stopping at the first invariant violation; the chain is always restored
+  private async replay(
+    sequence: InvariantCall[],
+    invariants: Invariant[],
+    context: InvariantContext
+  ): Promise<{ executed: InvariantCall[]; violation?: InvariantCheck }> {
+    const snapshotId = await this.chain.snapshot();
+    const executed: InvariantCall[] = [];
+    try {
+      for (const call of sequence) {
+        const reverted = !(await this.send(call, context));
+        executed.push({ ...call, reverted });
+        if (reverted) continue;
+
+        const violation = await findViolation(invariants, context);
+        if (violation) {
+          return { executed, violation };
+        }
+      }
+      return { executed };
+    } finally {
+      await this.chain.revert(snapshotId);
+    }
+  }
+
+  // Drops reverted calls, then removes calls one at a time while the violation persists, then lowers the ether
+  // sent with the remaining payable calls
+  private async minimize(
+    sequence: InvariantCall[],
+    invariants: Invariant[],
+    context: InvariantContext
+  ): Promise<InvariantCall[]> {
+    let current = sequence;
+    const successful = sequence.filter(call => !call.reverted);
+    if (successful.length < current.length && (await this.replay(successful, invariants, context)).violation) {
+      current = successful;
+    }
+
+    let index = 0;
+    while (index < current.length) {
+      const candidate = [...current.slice(0, index), ...current.slice(index + 1)];
+      const outcome = await this.replay(candidate, invariants, context);
+      if (outcome.violation) {
+        current = outcome.executed;
+      } else {
+        index++;
+      }
+    }
+
+    for (index = 0; index < current.length; index++) {
+      const sent = current[index].value;
+      for (const value of CALL_VALUES.filter(amount => sent !== undefined && amount < BigInt(sent))) {
+        const candidate = current.map((call, position) => position === index ? { ...call, value: value.toString() } : call);
+        const outcome = await this.replay(candidate, invariants, context);
+        if (outcome.violation) {
+          current = outcome.executed;
+          break;
+        }
+      }
+    }
+    return current;
+  }
+
+  private async send(call: InvariantCall, context: InvariantContext): Promise<boolean> {
+    const signer = await this.chain.provider.getSigner(call.actor);
+    const contract = new ethers.Contract(context.contractAddress, context.iface, signer);
+    try {
+      const overrides = call.value !== undefined ? [{ value: BigInt(call.value) }] : [];
+      const tx = await contract.getFunction(call.method).send(...call.args, ...overrides);
+      await tx.wait();
+      return true;
+    } catch (error) {
+      if (!ethers.isCallException(error)) {
+        throw error;
+      }
+      return false;
+    }
+  }
+}
+
+export async function findViolation(
+  invariants: Invariant[],
+  context: InvariantContext
+): Promise<InvariantCheck | undefined> {
+  for (const invariant of invariants) {
+    const check = await checkInvariant(invariant, context);
+    if (!check.passed) return check;
+  }
+  return undefined;
+}
+
+export async function checkInvariant(invariant: Invariant, context: InvariantContext): Promise<InvariantCheck> {
+  try {
+    const left = await evaluateTerm(invariant.left, context);
+    const right = await evaluateTerm(invariant.right, context);
+    const passed = compare(left, invariant.operator, right);
+    return {
+      invariantId: invariant.id,
+      passed,
+      message: passed
+        ? `${invariant.description} holds (${left} ${invariant.operator} ${right})`
+        : `${invariant.description} violated: ${left} is not ${invariant.operator} ${right}`
+    };
+  } catch (error) {
+    return {
+      invariantId: invariant.id,
+      passed: false,
+      message: `${invariant.description} could not be evaluated: ${errorMessage(error)}`
+    };
+  }
+}
+
+async function evaluateTerm(term: InvariantTerm, context: InvariantContext): Promise<bigint> {
+  switch (term.kind) {
+    case 'literal':
+      return BigInt(term.value);
+    case 'nativeBalance':
+      return context.provider.getBalance(term.address ?? context.contractAddress);
+    case 'call':
+      return BigInt(await readMethod(term.method, term.args ?? [], term.contractAddress, context));
+    case 'sum': {
+      const holders = term.holders === 'actors' ? context.actors : term.holders;
+      let total = 0n;
+      for (const holder of holders) {
+        total += BigInt(await readMethod(term.method, [holder], term.contractAddress, context));
+      }
+      return total;
+    }
+  }
+}
+
+async function readMethod(
+  method: string,
+  args: unknown[],
+  contractAddress: string | undefined,
+  context: InvariantContext
+): Promise<bigint> {
+  // Methods on other contracts need a full signature, e.g. "balanceOf(address) view returns (uint256)"
+  const fragment = method.includes('(')
+    ? ethers.FunctionFragment.from(`function ${method.replace(/^function\s+/, '')}`)
+    : context.iface.getFunction(method);
+  if (!fragment) {
+    throw new Error(`Function ${method} not found in ABI`);
+  }
+  const contract = new ethers.Contract(contractAddress ?? context.contractAddress, [fragment], context.provider);
+  return contract.getFunction(fragment).staticCall(...args);
+}
+
+function toTestCase(
+  sequence: InvariantCall[],
+  invariant: Invariant,
+  options: InvariantCampaignOptions,
+  actors: string[]
+): TestCase {
+  const iface = ethers.Interface.from(options.abi);
+  // Pin holder sets to concrete addresses so the case replays identically outside the campaign
+  const pinned = pinHolders(invariant, actors);
+  return {
+    id: stableId('invariant', invariant.id, sequence),
+    name: `Invariant Violation: ${invariant.description}`,
+    description: `Shortest call sequence (${sequence.length} calls) found that breaks "${invariant.description}"`,
+    steps: sequence.map((call, index) => {
+      const fragment = iface.getFunction(call.method) as ethers.FunctionFragment;
+      return {
+        id: `step-invariant-${index}`,
+        action: 'CONTRACT_CALL',
+        params: {
+          method: fragment.name,
+          contractAddress: options.contractAddress,
+          fragment: JSON.parse(fragment.format('json')),
+          args: call.args,
+          actor: call.actor,
+          ...(call.value !== undefined ? { value: call.value } : {})
+        },
+        description: `${call.actor} calls ${fragment.name}`,
+        expectedOutcome: call.reverted ? 'revert' : 'success'
+      };
+    }),
+    expectedResult: `${invariant.description} should hold after every call`,
+    status: 'pending',
+    invariants: [pinned]
+  };
+}
+
+function pinHolders(invariant: Invariant, actors: string[]): Invariant {
+  const pin = (term: InvariantTerm): InvariantTerm =>
+    term.kind === 'sum' && term.holders === 'actors' ? { ...term, holders: actors } : term;
+  return { ...invariant, left: pin(invariant.left), right: pin(invariant.right) };
+}
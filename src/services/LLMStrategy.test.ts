@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { AITestGenerator } from './AITestGenerator';
+import { LLMStrategy } from './LLMStrategy';
+
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+const ABI = [
+  'function setValue(uint256 value)',
+  'function value() view returns (uint256)',
+  'function owner() view returns (address)',
+  'event ValueChanged(uint256 value)'
+];
+
+// A chat completion as an OpenAI-compatible server returned it, fenced JSON and all
+const RECORDED_RESPONSE = {
+  id: 'chatcmpl-recorded',
+  object: 'chat.completion',
+  model: 'gpt-4o-mini',
+  choices: [{
+    index: 0,
+    finish_reason: 'stop',
+    message: {
+      role: 'assistant',
+      content: '```json\n' + JSON.stringify({
+        testCases: [
+          {
+            name: 'Owner updates the value',
+            description: 'setValue stores the new value and emits ValueChanged',
+            expectedResult: 'value() returns 42',
+            steps: [
+              {
+                id: 'set',
+                method: 'setValue',
+                args: ['42'],
+                actor: 'owner',
+                expectations: [{ type: 'event', event: 'ValueChanged', args: ['42'] }]
+              },
+              {
+                id: 'read',
+                method: 'value',
+                expectations: [{ type: 'returnValue', operator: 'eq', expected: '42' }]
+              }
+            ]
+          },
+          {
+            name: 'Calls a function the contract does not have',
+            steps: [{ id: 'burn', method: 'burn', args: ['1'] }]
+          },
+          {
+            name: 'Passes a word where a number goes',
+            steps: [{ id: 'set', method: 'setValue', args: ['forty-two'] }]
+          }
+        ]
+      }) + '\n```'
+    }
+  }]
+};
+
+interface RecordedRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: { model: string; messages: { role: string; content: string }[] };
+}
+
+// Replays one recorded response and keeps what the strategy sent
+function recordedFetch(response: unknown, status = 200) {
+  const requests: RecordedRequest[] = [];
+  const fetch = async (url: string | URL | Request, init?: RequestInit) => {
+    requests.push({
+      url: String(url),
+      headers: init?.headers as Record<string, string>,
+      body: JSON.parse(String(init?.body))
+    });
+    return new Response(JSON.stringify(response), { status, headers: { 'Content-Type': 'application/json' } });
+  };
+  return { fetch: fetch as typeof globalThis.fetch, requests };
+}
+
+describe('LLMStrategy', () => {
+  it('sends the ABI and source to the chat completions endpoint', async () => {
+    const { fetch, requests } = recordedFetch(RECORDED_RESPONSE);
+    const strategy = new LLMStrategy({ endpoint: 'http://localhost:11434/v1/', model: 'llama3', apiKey: 'secret', fetch });
+
+    await strategy.generate({ abi: ABI, contractAddress: CONTRACT, source: '/// @notice Stores a value\ncontract Store {}' });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(requests[0].headers.Authorization).toBe('Bearer secret');
+    expect(requests[0].body.model).toBe('llama3');
+    const prompt = requests[0].body.messages.find(message => message.role === 'user')?.content;
+    expect(prompt).toContain(`Contract address: ${CONTRACT}`);
+    expect(prompt).toContain('function setValue(uint256 value)');
+    expect(prompt).toContain('@notice Stores a value');
+  });
+
+  it('turns the recorded response into test cases', async () => {
+    const { fetch } = recordedFetch(RECORDED_RESPONSE);
+    const testCases = await new LLMStrategy({ endpoint: 'http://stub/v1', model: 'gpt-4o-mini', fetch })
+      .generate({ abi: ABI, contractAddress: CONTRACT });
+
+    expect(testCases.map(testCase => testCase.name)).toEqual([
+      'Owner updates the value',
+      'Calls a function the contract does not have',
+      'Passes a word where a number goes'
+    ]);
+    const [set, read] = testCases[0].steps;
+    expect(set).toMatchObject({
+      id: 'set',
+      action: 'CONTRACT_CALL',
+      params: { method: 'setValue', contractAddress: CONTRACT, args: ['42'], actor: 'owner' }
+    });
+    expect(read.params.args).toEqual([]);
+    expect(read.description).toBe('Call value');
+  });
+
+  it('rejects unknown methods and unencodable arguments before they reach the caller', async () => {
+    const { fetch } = recordedFetch(RECORDED_RESPONSE);
+    const generator = AITestGenerator.getInstance();
+    generator.setStrategy(new LLMStrategy({ endpoint: 'http://stub/v1', model: 'gpt-4o-mini', fetch }));
+
+    const result = await generator.generate({ abi: ABI, contractAddress: CONTRACT });
+
+    expect(result.strategy).toBe('llm');
+    expect(result.testCases.map(testCase => testCase.name)).toEqual(['Owner updates the value']);
+    expect(result.testCases[0].steps[0].params.fragment).toBeDefined();
+    expect(result.rejected.map(rejection => rejection.name)).toEqual([
+      'Calls a function the contract does not have',
+      'Passes a word where a number goes'
+    ]);
+  });
+
+  it('reports error responses and replies without JSON', async () => {
+    const failing = recordedFetch({ error: { message: 'model not found' } }, 404);
+    await expect(new LLMStrategy({ endpoint: 'http://stub/v1', model: 'missing', fetch: failing.fetch })
+      .generate({ abi: ABI, contractAddress: CONTRACT })).rejects.toThrow('LLM endpoint returned 404');
+
+    const chatty = recordedFetch({ choices: [{ message: { role: 'assistant', content: 'I cannot help with that.' } }] });
+    await expect(new LLMStrategy({ endpoint: 'http://stub/v1', model: 'gpt-4o-mini', fetch: chatty.fetch })
+      .generate({ abi: ABI, contractAddress: CONTRACT })).rejects.toThrow('LLM response is not valid JSON');
+  });
+});
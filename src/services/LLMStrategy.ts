@@ -0,0 +1,154 @@
+import { StepParams, TestCase, TestStep } from '../types/TestCase';
+import { GenerationInput, GenerationStrategy } from './GenerationStrategy';
+import { stableId, uniqueIds } from '../utils/ids';
+
+export interface LLMStrategyOptions {
+  // Base URL of an OpenAI-compatible API, e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  endpoint: string;
+  model: string;
+  apiKey?: string;
+  temperature?: number;
+  // Transport override, e.g. a stub that replays recorded responses
+  fetch?: typeof fetch;
+}
+
+// Shape the model is asked to produce; converted into TestCases and then validated against the ABI
+interface GeneratedCase {
+  name: string;
+  description?: string;
+  expectedResult?: string;
+  steps: (Partial<StepParams> & {
+    id?: string;
+    action?: TestStep['action'];
+    method: string;
+    args?: unknown[];
+    actor?: string;
+    description?: string;
+    expectedOutcome?: TestStep['expectedOutcome'];
+    expectations?: TestStep['expectations'];
+  })[];
+}
+
+const CHAIN_PARAMS = ['seconds', 'timestamp', 'offset', 'blocks', 'baseFee', 'balance', 'account', 'slot', 'storageValue'] as const;
+
+const SYSTEM_PROMPT = `You are a smart contract security engineer writing test cases.
+Respond with a single JSON object {"testCases": [...]} and nothing else.
+Each test case: {"name", "description", "expectedResult", "steps": [...]}.
+Each step: {"id", "method", "args", "actor", "description", "expectedOutcome", "expectations"}.
+- "method" is a function name from the ABI, or its full signature when the name is overloaded.
+- "args" is a JSON array matching the function inputs; integers as decimal strings, tuples as arrays.
+- An argument may be {"stepRef": "<earlier step id>", "path": "<output index or name>"} to reuse an earlier output.
+- "actor" is the account sending the step: "deployer" (default), "owner", "userA", "userB" or "attacker".
+- An address argument or expected value may be {"addressOf": "<actor>"}, or {"addressOf": "sender"} for the step's own actor.
+- "expectedOutcome" is "success", "revert" or "either".
+- On a local chain a step may instead be {"id", "action", ...} with "action" one of:
+  "INCREASE_TIME" {"seconds"}, "SET_NEXT_BLOCK_TIMESTAMP" {"timestamp"}, "MINE_BLOCKS" {"blocks"},
+  "SET_NEXT_BLOCK_BASE_FEE" {"baseFee"}, "IMPERSONATE" / "STOP_IMPERSONATING" {"account"},
+  "SET_BALANCE" {"account", "balance"}, "SET_STORAGE" {"slot", "storageValue"}.
+  "seconds" and "timestamp" may be {"stepRef": "<view step id>"} plus "offset", e.g. to move just past a deadline the contract returns.
+  Use them to test deadlines, vesting, timelocks and auctions before and after they end.
+- "expectations" is an array of assertions:
+  {"type": "returnValue", "operator": "eq|neq|gt|gte|lt|lte|matches", "expected": <value or stepRef>, "path"?: string} (view functions only)
+  {"type": "event", "event": "<event name>", "args"?: [<value or null>]}
+  {"type": "balanceDelta", "account": "<address>", "delta": "<signed integer>", "token"?: "<ERC-20 address>"}
+  {"type": "storage", "slot": "<hex slot>", "expected": <value>}
+  {"type": "revert", "reason"?: string, "customError"?: string, "panicCode"?: number}
+Cover intended behaviour described by NatSpec, access control, edge cases and expected failures.`;
+
+export class LLMStrategy implements GenerationStrategy {
+  readonly name = 'llm';
+  private fetchImpl: typeof fetch;
+
+  constructor(private options: LLMStrategyOptions) {
+    this.fetchImpl = options.fetch ?? globalThis.fetch.bind(globalThis);
+  }
+
+  async generate(input: GenerationInput): Promise<TestCase[]> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+
+    const response = await this.fetchImpl(`${this.options.endpoint.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.options.model,
+        temperature: this.options.temperature ?? 0.2,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: buildPrompt(input) }
+        ]
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`LLM endpoint returned ${response.status}: ${await response.text()}`);
+    }
+
+    const body = await response.json();
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('LLM response did not contain a message');
+    }
+    return uniqueIds(parseCases(content).map(generated => toTestCase(generated, input.contractAddress)));
+  }
+}
+
+function buildPrompt({ abi, contractAddress, source, uncovered }: GenerationInput): string {
+  const sections = [
+    `Contract address: ${contractAddress}`,
+    `ABI:\n${typeof abi === 'string' ? abi : JSON.stringify(abi)}`
+  ];
+  if (source) {
+    sections.push(`Solidity source with NatSpec:\n${source}`);
+  }
+  if (uncovered?.length) {
+    const branches = uncovered.map(branch =>
+      `- ${branch.path}:${branch.line} ${branch.kind} (${branch.label}), ${branch.arm} arm` +
+      (branch.functions.length > 0 ? `, reached through ${branch.functions.join(', ')}` : '')
+    );
+    sections.push(`The existing suite never took these branch arms. Write cases that take them, setting up whatever state they need first:\n${branches.join('\n')}`);
+  }
+  return sections.join('\n\n');
+}
+
+function parseCases(content: string): GeneratedCase[] {
+  // Models often wrap JSON in a markdown fence despite instructions
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = fenced ? fenced[1] : content.slice(content.indexOf('{'), content.lastIndexOf('}') + 1);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('LLM response is not valid JSON');
+  }
+  const cases = Array.isArray(parsed) ? parsed : (parsed as { testCases?: unknown }).testCases;
+  if (!Array.isArray(cases)) {
+    throw new Error('LLM response has no testCases array');
+  }
+  return cases as GeneratedCase[];
+}
+
+function toTestCase(generated: GeneratedCase, contractAddress: string): TestCase {
+  return {
+    id: stableId('llm', contractAddress, generated.name),
+    name: generated.name,
+    description: generated.description ?? '',
+    steps: (Array.isArray(generated.steps) ? generated.steps : []).map((step, stepIndex) => ({
+      id: step.id ?? `step-${stepIndex}`,
+      action: step.action ?? 'CONTRACT_CALL',
+      params: {
+        method: step.method,
+        contractAddress,
+        args: step.args ?? [],
+        actor: step.actor,
+        ...Object.fromEntries(CHAIN_PARAMS.filter(key => step[key] !== undefined).map(key => [key, step[key]]))
+      },
+      description: step.description ?? step.action ?? `Call ${step.method}`,
+      expectedOutcome: step.expectedOutcome,
+      expectations: step.expectations
+    })),
+    expectedResult: generated.expectedResult ?? '',
+    status: 'pending'
+  };
+}
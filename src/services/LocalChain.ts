@@ -0,0 +1,169 @@
+import { ethers } from 'ethers';
+import { ChainAction } from '../types/TestCase';
+
+export interface LocalChainOptions {
+  // JSON-RPC endpoint of a local development node (anvil, hardhat node, ganache)
+  rpcUrl?: string;
+  // Upstream RPC to fork from; the node is reset onto it when connecting
+  forkUrl?: string;
+  forkBlockNumber?: number;
+  // Balance every unlocked account is topped up to
+  fundedBalance?: bigint;
+}
+
+export type LocalNodeFlavor = 'anvil' | 'hardhat' | 'ganache' | 'unknown';
+
+export const DEFAULT_LOCAL_RPC_URL = 'http://127.0.0.1:8545';
+const DEFAULT_FUNDED_BALANCE = ethers.parseEther('10000');
+
+export const CHAIN_ACTIONS: ChainAction[] = [
+  'INCREASE_TIME',
+  'MINE_BLOCKS',
+  'SET_NEXT_BLOCK_TIMESTAMP',
+  'SET_NEXT_BLOCK_BASE_FEE',
+  'IMPERSONATE',
+  'STOP_IMPERSONATING',
+  'SET_BALANCE',
+  'SET_STORAGE'
+];
+
+export class LocalChain {
+  readonly provider: ethers.JsonRpcProvider;
+  private flavor: LocalNodeFlavor = 'unknown';
+  private accounts: ethers.JsonRpcSigner[] = [];
+
+  constructor(private options: LocalChainOptions = {}) {
+    // Disable response caching, otherwise reads right after evm_revert can return stale state
+    this.provider = new ethers.JsonRpcProvider(options.rpcUrl ?? DEFAULT_LOCAL_RPC_URL, undefined, {
+      cacheTimeout: -1,
+      pollingInterval: 250
+    });
+  }
+
+  async start(): Promise<void> {
+    const clientVersion: string = await this.provider.send('web3_clientVersion', []);
+    this.flavor = detectFlavor(clientVersion);
+
+    if (this.options.forkUrl) {
+      await this.fork(this.options.forkUrl, this.options.forkBlockNumber);
+    }
+
+    const addresses: string[] = await this.provider.send('eth_accounts', []);
+    if (addresses.length === 0) {
+      throw new Error('Local node exposes no unlocked accounts');
+    }
+    this.accounts = await Promise.all(addresses.map(address => this.provider.getSigner(address)));
+
+    const balance = this.options.fundedBalance ?? DEFAULT_FUNDED_BALANCE;
+    for (const address of addresses) {
+      if ((await this.provider.getBalance(address)) < balance) {
+        await this.setBalance(address, balance);
+      }
+    }
+  }
+
+  getFlavor(): LocalNodeFlavor {
+    return this.flavor;
+  }
+
+  getSigner(index = 0): ethers.JsonRpcSigner {
+    const signer = this.accounts[index];
+    if (!signer) {
+      throw new Error(`Local node has no account at index ${index}`);
+    }
+    return signer;
+  }
+
+  getSigners(): ethers.JsonRpcSigner[] {
+    return [...this.accounts];
+  }
+
+  async fork(url: string, blockNumber?: number): Promise<void> {
+    const forking = blockNumber === undefined ? { jsonRpcUrl: url } : { jsonRpcUrl: url, blockNumber };
+    await this.provider.send(this.method('reset'), [{ forking }]);
+  }
+
+  async setBalance(address: string, balance: bigint): Promise<void> {
+    const method = this.flavor === 'ganache' ? 'evm_setAccountBalance' : this.method('setBalance');
+    await this.provider.send(method, [address, ethers.toQuantity(balance)]);
+  }
+
+  // Mines a block right away, so view calls see the new time too
+  async increaseTime(seconds: bigint): Promise<void> {
+    await this.provider.send('evm_increaseTime', [Number(seconds)]);
+    await this.provider.send('evm_mine', []);
+  }
+
+  async mine(blocks: number): Promise<void> {
+    if (this.flavor !== 'ganache') {
+      await this.provider.send(this.method('mine'), [ethers.toQuantity(blocks)]);
+      return;
+    }
+    for (let block = 0; block < blocks; block++) {
+      await this.provider.send('evm_mine', []);
+    }
+  }
+
+  // Must be later than the latest block; takes effect when the next block is mined
+  async setNextBlockTimestamp(timestamp: bigint): Promise<void> {
+    if (this.flavor === 'ganache') {
+      throw new Error('setNextBlockTimestamp is not supported by this local node');
+    }
+    await this.provider.send('evm_setNextBlockTimestamp', [Number(timestamp)]);
+  }
+
+  async setNextBlockBaseFee(baseFee: bigint): Promise<void> {
+    await this.provider.send(this.method('setNextBlockBaseFeePerGas'), [ethers.toQuantity(baseFee)]);
+  }
+
+  // Lets getSigner send from an address whose key the node does not hold
+  async impersonate(address: string): Promise<void> {
+    await this.provider.send(this.method('impersonateAccount'), [address]);
+  }
+
+  async stopImpersonating(address: string): Promise<void> {
+    await this.provider.send(this.method('stopImpersonatingAccount'), [address]);
+  }
+
+  async setStorageAt(address: string, slot: bigint, value: bigint): Promise<void> {
+    await this.provider.send(this.method('setStorageAt'), [address, ethers.toQuantity(slot), ethers.toBeHex(value, 32)]);
+  }
+
+  async deploy(
+    abi: ethers.InterfaceAbi,
+    bytecode: string,
+    args: unknown[] = [],
+    signer: ethers.Signer = this.getSigner()
+  ): Promise<string> {
+    const factory = new ethers.ContractFactory(abi, bytecode, signer);
+    const contract = await factory.deploy(...args);
+    await contract.waitForDeployment();
+    return contract.getAddress();
+  }
+
+  async snapshot(): Promise<string> {
+    return this.provider.send('evm_snapshot', []);
+  }
+
+  // Snapshot ids are single-use on anvil and hardhat; take a new snapshot after reverting
+  async revert(snapshotId: string): Promise<void> {
+    const reverted: boolean = await this.provider.send('evm_revert', [snapshotId]);
+    if (!reverted) {
+      throw new Error(`Failed to revert local chain to snapshot ${snapshotId}`);
+    }
+  }
+
+  private method(name: string): string {
+    if (this.flavor === 'anvil') return `anvil_${name}`;
+    if (this.flavor === 'hardhat') return `hardhat_${name}`;
+    throw new Error(`${name} is not supported by this local node`);
+  }
+}
+
+function detectFlavor(clientVersion: string): LocalNodeFlavor {
+  const version = clientVersion.toLowerCase();
+  if (version.startsWith('anvil')) return 'anvil';
+  if (version.startsWith('hardhatnetwork')) return 'hardhat';
+  if (version.includes('ganache')) return 'ganache';
+  return 'unknown';
+}
@@ -0,0 +1,205 @@
+import { ethers } from 'ethers';
+import { InjectedProvider, UNAUTHORIZED, UNRECOGNIZED_CHAIN, USER_REJECTED } from './WalletConnection';
+
+type Listener = (...args: unknown[]) => void;
+
+export interface MockWalletOptions {
+  // Node answering every request the wallet does not handle itself
+  rpcUrl: string;
+  // Keys the mock signs with; without them it uses the node's unlocked accounts, as local dev nodes expose
+  privateKeys?: string[];
+  // Called wherever a real wallet would prompt; resolve false to reject the request as a user would
+  approve?: (request: { method: string; params: unknown[] }) => boolean | Promise<boolean>;
+}
+
+// Methods a browser wallet answers itself, behind a prompt when it asks the user
+const PROMPTING_METHODS = new Set([
+  'eth_requestAccounts',
+  'eth_sendTransaction',
+  'personal_sign',
+  'eth_signTypedData_v4',
+  'wallet_addEthereumChain',
+  'wallet_switchEthereumChain'
+]);
+const SIGNING_METHODS = new Set(['eth_sendTransaction', 'personal_sign', 'eth_signTypedData_v4']);
+
+class ProviderRpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+// Stands in for window.ethereum so wallet mode can be exercised without a browser wallet. Account and chain
+// changes are driven by selectAccount, disconnect and wallet_switchEthereumChain, and emit the usual events
+export class MockEip1193Provider implements InjectedProvider {
+  private rpc: ethers.JsonRpcProvider;
+  private wallets: ethers.Wallet[];
+  // RPC URL per chain the wallet knows; the first is filled in once the node reports its chain id
+  private chains = new Map<number, string>();
+  private chainId?: number;
+  private accounts?: string[];
+  private selected = 0;
+  private connected = false;
+  private listeners = new Map<string, Set<Listener>>();
+
+  constructor(private options: MockWalletOptions) {
+    this.rpc = createRpc(options.rpcUrl);
+    this.wallets = (options.privateKeys ?? []).map(key => new ethers.Wallet(key, this.rpc));
+  }
+
+  async request({ method, params }: { method: string; params?: unknown[] | Record<string, unknown> }): Promise<unknown> {
+    const args = Array.isArray(params) ? params : params === undefined ? [] : [params];
+    if (SIGNING_METHODS.has(method) && !this.connected) {
+      throw new ProviderRpcError(UNAUTHORIZED, 'The requested account has not been authorized by the user');
+    }
+    if (PROMPTING_METHODS.has(method) && this.options.approve && !(await this.options.approve({ method, params: args }))) {
+      throw new ProviderRpcError(USER_REJECTED, 'User rejected the request');
+    }
+
+    switch (method) {
+      case 'eth_requestAccounts': {
+        this.connected = true;
+        const accounts = [await this.selectedAccount()];
+        this.emit('connect', { chainId: ethers.toQuantity(await this.currentChainId()) });
+        this.emit('accountsChanged', accounts);
+        return accounts;
+      }
+      case 'eth_accounts':
+        return this.connected ? [await this.selectedAccount()] : [];
+      case 'eth_chainId':
+        return ethers.toQuantity(await this.currentChainId());
+      case 'eth_sendTransaction':
+        return this.sendTransaction(args[0] as Record<string, string>);
+      case 'personal_sign': {
+        const wallet = await this.signingWallet(String(args[1]));
+        return wallet ? wallet.signMessage(ethers.getBytes(String(args[0]))) : this.rpc.send(method, args);
+      }
+      case 'eth_signTypedData_v4': {
+        const wallet = await this.signingWallet(String(args[0]));
+        if (!wallet) {
+          return this.rpc.send(method, args);
+        }
+        const { domain, types, message } = typeof args[1] === 'string' ? JSON.parse(args[1]) : (args[1] as Record<string, never>);
+        // ethers derives the domain type itself
+        const messageTypes = { ...(types as Record<string, ethers.TypedDataField[]>) };
+        delete messageTypes.EIP712Domain;
+        return wallet.signTypedData(domain, messageTypes, message);
+      }
+      case 'wallet_addEthereumChain': {
+        const { chainId, rpcUrls } = args[0] as { chainId: string; rpcUrls: string[] };
+        this.chains.set(Number(chainId), rpcUrls[0]);
+        return this.switchChain(Number(chainId));
+      }
+      case 'wallet_switchEthereumChain':
+        return this.switchChain(Number((args[0] as { chainId: string }).chainId));
+      default:
+        return this.rpc.send(method, args);
+    }
+  }
+
+  on(event: string, listener: Listener) {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+    return this;
+  }
+
+  removeListener(event: string, listener: Listener) {
+    this.listeners.get(event)?.delete(listener);
+    return this;
+  }
+
+  // What a user does by picking another account in the wallet
+  async selectAccount(index: number): Promise<void> {
+    const accounts = await this.availableAccounts();
+    if (!accounts[index]) {
+      throw new Error(`Mock wallet has no account at index ${index}`);
+    }
+    this.selected = index;
+    if (this.connected) {
+      this.emit('accountsChanged', [accounts[index]]);
+    }
+  }
+
+  // What a user does by revoking the site's access in the wallet
+  disconnect() {
+    this.connected = false;
+    this.emit('accountsChanged', []);
+  }
+
+  private async sendTransaction(tx: Record<string, string>): Promise<string> {
+    const wallet = await this.signingWallet(tx.from);
+    if (!wallet) {
+      return this.rpc.send('eth_sendTransaction', [tx]);
+    }
+    const sent = await wallet.sendTransaction({
+      to: tx.to,
+      data: tx.data,
+      value: tx.value !== undefined ? BigInt(tx.value) : undefined,
+      gasLimit: tx.gas !== undefined ? BigInt(tx.gas) : undefined,
+      nonce: tx.nonce !== undefined ? Number(tx.nonce) : undefined
+    });
+    return sent.hash;
+  }
+
+  // The wallet holding the key for the selected account, or undefined when the node signs for it
+  private async signingWallet(from: string | undefined): Promise<ethers.Wallet | undefined> {
+    const account = await this.selectedAccount();
+    if (from && from.toLowerCase() !== account.toLowerCase()) {
+      throw new ProviderRpcError(UNAUTHORIZED, `${from} is not the selected account`);
+    }
+    return this.wallets[this.selected];
+  }
+
+  private async switchChain(chainId: number): Promise<null> {
+    await this.currentChainId();
+    const rpcUrl = this.chains.get(chainId);
+    if (!rpcUrl) {
+      throw new ProviderRpcError(UNRECOGNIZED_CHAIN, `Unrecognized chain ${chainId}; add it with wallet_addEthereumChain first`);
+    }
+    if (chainId !== this.chainId) {
+      this.rpc.destroy();
+      this.rpc = createRpc(rpcUrl);
+      this.wallets = this.wallets.map(wallet => wallet.connect(this.rpc));
+      this.accounts = undefined;
+      this.chainId = chainId;
+      this.emit('chainChanged', ethers.toQuantity(chainId));
+    }
+    return null;
+  }
+
+  private async currentChainId(): Promise<number> {
+    if (this.chainId === undefined) {
+      this.chainId = Number(await this.rpc.send('eth_chainId', []));
+      this.chains.set(this.chainId, this.options.rpcUrl);
+    }
+    return this.chainId;
+  }
+
+  private async selectedAccount(): Promise<string> {
+    const account = (await this.availableAccounts())[this.selected];
+    if (!account) {
+      throw new ProviderRpcError(UNAUTHORIZED, 'Mock wallet has no accounts');
+    }
+    return account;
+  }
+
+  private async availableAccounts(): Promise<string[]> {
+    if (this.wallets.length > 0) {
+      return this.wallets.map(wallet => wallet.address);
+    }
+    this.accounts ??= ((await this.rpc.send('eth_accounts', [])) as string[]).map(account => ethers.getAddress(account));
+    return this.accounts;
+  }
+
+  private emit(event: string, ...args: unknown[]) {
+    for (const listener of this.listeners.get(event) ?? []) {
+      listener(...args);
+    }
+  }
+}
+
+function createRpc(rpcUrl: string): ethers.JsonRpcProvider {
+  // No caching, so reads after the mock's own sends are never stale
+  return new ethers.JsonRpcProvider(rpcUrl, undefined, { cacheTimeout: -1 });
+}
@@ -0,0 +1,146 @@
+import { NativeCurrency, NetworkConfig } from '../types/Network';
+import { DEFAULT_LOCAL_RPC_URL } from './LocalChain';
+
+export const LOCAL_NETWORK_ID = 'local';
+export const DEFAULT_NETWORK_ID = 'mainnet';
+
+const ETHER: NativeCurrency = { name: 'Ether', symbol: 'ETH', decimals: 18 };
+const POL: NativeCurrency = { name: 'POL', symbol: 'POL', decimals: 18 };
+
+export const BUILTIN_NETWORKS: NetworkConfig[] = [
+  {
+    id: 'mainnet',
+    name: 'Ethereum Mainnet',
+    chainId: 1,
+    rpcUrl: 'https://eth-mainnet.g.alchemy.com/v2/demo',
+    explorerUrl: 'https://etherscan.io',
+    nativeCurrency: ETHER
+  },
+  {
+    id: 'sepolia',
+    name: 'Sepolia Testnet',
+    chainId: 11155111,
+    rpcUrl: 'https://eth-sepolia.g.alchemy.com/v2/demo',
+    explorerUrl: 'https://sepolia.etherscan.io',
+    nativeCurrency: ETHER
+  },
+  {
+    id: 'holesky',
+    name: 'Holesky Testnet',
+    chainId: 17000,
+    rpcUrl: 'https://eth-holesky.g.alchemy.com/v2/demo',
+    explorerUrl: 'https://holesky.etherscan.io',
+    nativeCurrency: ETHER
+  },
+  {
+    id: 'polygon',
+    name: 'Polygon Mainnet',
+    chainId: 137,
+    rpcUrl: 'https://polygon-mainnet.g.alchemy.com/v2/demo',
+    explorerUrl: 'https://polygonscan.com',
+    nativeCurrency: POL
+  },
+  {
+    id: 'amoy',
+    name: 'Polygon Amoy Testnet',
+    chainId: 80002,
+    rpcUrl: 'https://polygon-amoy.g.alchemy.com/v2/demo',
+    explorerUrl: 'https://amoy.polygonscan.com',
+    nativeCurrency: POL
+  },
+  {
+    id: LOCAL_NETWORK_ID,
+    name: 'Local Node (anvil / hardhat)',
+    rpcUrl: DEFAULT_LOCAL_RPC_URL,
+    nativeCurrency: ETHER
+  }
+];
+
+const NETWORK_ID = /^[a-z0-9][a-z0-9-]*$/;
+
+// Built-in networks plus the user's own; a custom entry with a built-in id replaces that network's settings
+export class NetworkRegistry {
+  private custom: NetworkConfig[];
+
+  constructor(custom: NetworkConfig[] = []) {
+    this.custom = custom.map(validateNetwork);
+  }
+
+  list(): NetworkConfig[] {
+    const overridden = BUILTIN_NETWORKS.map(network => this.custom.find(item => item.id === network.id) ?? network);
+    const added = this.custom.filter(network => !BUILTIN_NETWORKS.some(builtin => builtin.id === network.id));
+    // Keep the local node last, where it has always been
+    return [...overridden.filter(network => network.id !== LOCAL_NETWORK_ID), ...added, this.get(LOCAL_NETWORK_ID)];
+  }
+
+  has(id: string): boolean {
+    return this.custom.some(network => network.id === id) || BUILTIN_NETWORKS.some(network => network.id === id);
+  }
+
+  get(id: string): NetworkConfig {
+    const network = this.custom.find(item => item.id === id) ?? BUILTIN_NETWORKS.find(item => item.id === id);
+    if (!network) {
+      throw new Error(`Unknown network ${id}; known networks are ${this.list().map(item => item.id).join(', ')}`);
+    }
+    return network;
+  }
+
+  // Entries to persist
+  getCustom(): NetworkConfig[] {
+    return [...this.custom];
+  }
+
+  // Adds a network, or replaces a custom one or a built-in one's settings with the same id
+  add(network: NetworkConfig): NetworkConfig {
+    if (network.id === LOCAL_NETWORK_ID) {
+      throw new Error('The local network is configured from its own RPC URL field');
+    }
+    const validated = validateNetwork({ ...network, custom: true });
+    this.custom = [...this.custom.filter(item => item.id !== validated.id), validated];
+    return validated;
+  }
+
+  // Deletes a custom network, or restores a built-in network's own settings
+  remove(id: string) {
+    this.custom = this.custom.filter(network => network.id !== id);
+  }
+}
+
+export function explorerAddressUrl(network: NetworkConfig, address: string): string | undefined {
+  return network.explorerUrl ? `${network.explorerUrl.replace(/\/+$/, '')}/address/${address}` : undefined;
+}
+
+export function explorerTxUrl(network: NetworkConfig, hash: string): string | undefined {
+  return network.explorerUrl ? `${network.explorerUrl.replace(/\/+$/, '')}/tx/${hash}` : undefined;
+}
+
+function validateNetwork(network: NetworkConfig): NetworkConfig {
+  if (typeof network.id !== 'string' || !NETWORK_ID.test(network.id)) {
+    throw new Error(`Network id ${JSON.stringify(network.id)} must be lowercase letters, digits and dashes`);
+  }
+  if (typeof network.name !== 'string' || network.name.trim() === '') {
+    throw new Error(`Network ${network.id} needs a name`);
+  }
+  if (network.id !== LOCAL_NETWORK_ID && (!Number.isSafeInteger(network.chainId) || (network.chainId as number) <= 0)) {
+    throw new Error(`Network ${network.id} needs a positive integer chain id`);
+  }
+  if (!isUrl(network.rpcUrl, ['http:', 'https:', 'ws:', 'wss:'])) {
+    throw new Error(`Network ${network.id} has invalid RPC URL ${network.rpcUrl}`);
+  }
+  if (network.explorerUrl !== undefined && !isUrl(network.explorerUrl, ['http:', 'https:'])) {
+    throw new Error(`Network ${network.id} has invalid explorer URL ${network.explorerUrl}`);
+  }
+  const currency = network.nativeCurrency;
+  if (!currency?.symbol || !Number.isInteger(currency.decimals) || currency.decimals < 0) {
+    throw new Error(`Network ${network.id} needs a native currency symbol and decimals`);
+  }
+  return network;
+}
+
+function isUrl(value: unknown, protocols: string[]): boolean {
+  try {
+    return typeof value === 'string' && protocols.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
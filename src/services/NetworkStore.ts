@@ -0,0 +1,13 @@
+import { NetworkConfig } from '../types/Network';
+
+const KEY = 'custom-networks';
+
+// Browser persistence of user-defined networks and RPC overrides
+export function loadCustomNetworks(): NetworkConfig[] {
+  const stored = localStorage.getItem(KEY);
+  return stored ? JSON.parse(stored) : [];
+}
+
+export function saveCustomNetworks(networks: NetworkConfig[]) {
+  localStorage.setItem(KEY, JSON.stringify(networks));
+}
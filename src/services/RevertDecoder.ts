@@ -0,0 +1,77 @@
+import { ethers } from 'ethers';
+import { DecodedRevert } from '../types/TestCase';
+import { errorMessage, stringify } from '../utils/format';
+
+// Solidity Panic(uint256) codes, see the "Panic via assert" section of the Solidity docs
+export const PANIC_CODES: Record<number, string> = {
+  0x00: 'generic compiler panic',
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x22: 'incorrectly encoded storage byte array',
+  0x31: 'pop() on an empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to a zero-initialized internal function'
+};
+
+export function decodeRevert(error: unknown, iface: ethers.Interface): DecodedRevert {
+  if (!ethers.isCallException(error)) {
+    return { kind: 'unknown', reason: errorMessage(error) };
+  }
+  const decoded = decodeRevertData(error.data ?? undefined, iface);
+  if (decoded.kind === 'unknown' && error.reason) {
+    return { ...decoded, reason: error.reason };
+  }
+  return decoded;
+}
+
+export function decodeRevertData(data: string | undefined, iface: ethers.Interface): DecodedRevert {
+  if (data === undefined) {
+    return { kind: 'unknown' };
+  }
+  if (data === '0x') {
+    return { kind: 'empty', data };
+  }
+
+  let parsed: ethers.ErrorDescription | null = null;
+  try {
+    parsed = iface.parseError(data);
+  } catch {
+    // Selector matched but the payload does not decode against the fragment
+  }
+  if (!parsed) {
+    return { kind: 'unknown', data };
+  }
+
+  if (parsed.name === 'Error') {
+    return { kind: 'error', reason: String(parsed.args[0]), errorName: 'Error', args: parsed.args.toArray(), data };
+  }
+  if (parsed.name === 'Panic') {
+    return { kind: 'panic', panicCode: Number(parsed.args[0]), errorName: 'Panic', args: parsed.args.toArray(), data };
+  }
+  return { kind: 'custom', errorName: parsed.name, args: parsed.args.toArray(), data };
+}
+
+export function describeRevert(revert: DecodedRevert): string {
+  switch (revert.kind) {
+    case 'error':
+      return `Error("${revert.reason}")`;
+    case 'panic': {
+      const code = `0x${(revert.panicCode ?? 0).toString(16).padStart(2, '0')}`;
+      return `Panic(${code}): ${PANIC_CODES[revert.panicCode ?? 0] ?? 'unknown panic code'}`;
+    }
+    case 'custom':
+      return `${revert.errorName}(${(revert.args ?? []).map(stringify).join(', ')})`;
+    case 'empty':
+      return 'reverted without data';
+    case 'unknown':
+      return revert.reason ?? (revert.data ? `unrecognized revert data ${revert.data}` : 'unknown revert');
+  }
+}
+
+// assert() failures signal a broken invariant rather than input validation
+export function isAssertionPanic(revert: DecodedRevert): boolean {
+  return revert.kind === 'panic' && revert.panicCode === 0x01;
+}
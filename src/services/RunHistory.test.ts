@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { findStatusChanges } from './RunHistory';
+import { RunRecord } from '../types/RunHistory';
+
+const ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+function run(network: string, startedAt: string, success: boolean): RunRecord {
+  return {
+    id: `run-${startedAt}`,
+    contractAddress: ADDRESS,
+    network,
+    startedAt,
+    durationMs: 10,
+    cases: [{ testCaseId: 'transfer', name: 'Transfer', kind: 'write', success, error: success ? undefined : 'reverted', durationMs: 5 }],
+    stopped: false
+  };
+}
+
+describe('findStatusChanges', () => {
+  it('reports cases that started failing or were fixed since their last run', () => {
+    const passed = run('local', '2026-10-01T10:00:00.000Z', true);
+    const failed = run('local', '2026-10-02T10:00:00.000Z', false);
+    const fixed = run('local', '2026-10-03T10:00:00.000Z', true);
+    const history = [fixed, failed, passed];
+
+    expect(findStatusChanges(history, failed)).toMatchObject([{ change: 'startedFailing', previousRunAt: passed.startedAt }]);
+    expect(findStatusChanges(history, fixed)).toMatchObject([{ change: 'fixed', previousRunAt: failed.startedAt }]);
+    expect(findStatusChanges(history, passed)).toEqual([]);
+  });
+
+  it('only compares runs from the same network', () => {
+    const sepolia = run('sepolia', '2026-10-01T10:00:00.000Z', true);
+    const local = run('local', '2026-10-02T10:00:00.000Z', false);
+
+    expect(findStatusChanges([local, sepolia], local)).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import { TestCase } from '../types/TestCase';
+import { RunRecord, StatusChange, TestKind } from '../types/RunHistory';
+import { ScheduledResult } from './TestScheduler';
+
+export const TEST_KINDS: { kind: TestKind; label: string }[] = [
+  { kind: 'view', label: 'View' },
+  { kind: 'write', label: 'Write' },
+  { kind: 'boundary', label: 'Boundary' },
+  { kind: 'fuzz', label: 'Fuzz' },
+  { kind: 'integration', label: 'Integration' }
+];
+
+// Runs kept per network and contract; older ones are dropped
+export const MAX_RUNS = 20;
+
+// Boundary cases are recognised by the generator's id prefix, since they call a single function like write cases do;
+// every other case with several steps (attacks, time travel, access checks, invariant sequences) counts as integration
+export function classifyTestCase(testCase: TestCase, isReadOnly: (testCase: TestCase) => boolean): TestKind {
+  if (testCase.fuzz) return 'fuzz';
+  if (testCase.id.startsWith('boundary-')) return 'boundary';
+  if (testCase.steps.length > 1) return 'integration';
+  return isReadOnly(testCase) ? 'view' : 'write';
+}
+
+export function createRunRecord(
+  contractAddress: string,
+  network: string,
+  startedAt: number,
+  runs: ScheduledResult[],
+  kindOf: (testCase: TestCase) => TestKind,
+  stopped: boolean
+): RunRecord {
+  return {
+    id: `run-${startedAt}`,
+    contractAddress,
+    network,
+    startedAt: new Date(startedAt).toISOString(),
+    durationMs: Date.now() - startedAt,
+    cases: runs.map(({ testCase, result, durationMs }) => ({
+      testCaseId: testCase.id,
+      name: testCase.name,
+      kind: kindOf(testCase),
+      success: result.success,
+      error: result.error,
+      durationMs
+    })),
+    stopped
+  };
+}
+
+// Cases of the run whose outcome differs from the last earlier run on the same network they were part of;
+// history is newest first
+export function findStatusChanges(history: RunRecord[], run: RunRecord): StatusChange[] {
+  const earlier = history.filter(record => record.network === run.network && record.startedAt < run.startedAt);
+  return run.cases.flatMap(item => {
+    const previousRun = earlier.find(record => record.cases.some(other => other.testCaseId === item.testCaseId));
+    const previous = previousRun?.cases.find(other => other.testCaseId === item.testCaseId);
+    if (!previousRun || !previous || previous.success === item.success) return [];
+    return [{
+      testCaseId: item.testCaseId,
+      name: item.name,
+      change: item.success ? 'fixed' : 'startedFailing',
+      error: item.error,
+      previousRunAt: previousRun.startedAt
+    }];
+  });
+}
+
+export function passRate(passed: number, failed: number): number {
+  return passed + failed === 0 ? 0 : (passed / (passed + failed)) * 100;
+}
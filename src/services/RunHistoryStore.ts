@@ -0,0 +1,25 @@
+import { RunRecord } from '../types/RunHistory';
+import { MAX_RUNS } from './RunHistory';
+
+const KEY_PREFIX = 'run-history:';
+
+// Browser persistence of the latest runs per network and contract address, newest first
+export function loadRunHistory(network: string, contractAddress: string): RunRecord[] {
+  const stored = localStorage.getItem(storageKey(network, contractAddress));
+  return stored ? JSON.parse(stored) : [];
+}
+
+// Returns the updated history
+export function saveRunRecord(record: RunRecord): RunRecord[] {
+  const history = [record, ...loadRunHistory(record.network, record.contractAddress)].slice(0, MAX_RUNS);
+  localStorage.setItem(storageKey(record.network, record.contractAddress), JSON.stringify(history));
+  return history;
+}
+
+export function clearRunHistory(network: string, contractAddress: string) {
+  localStorage.removeItem(storageKey(network, contractAddress));
+}
+
+function storageKey(network: string, contractAddress: string): string {
+  return `${KEY_PREFIX}${network}:${contractAddress.toLowerCase()}`;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { findingVerdict } from './SecurityAnalyzer';
+import { SecurityFinding } from '../types/Security';
+import { StepResult, TestResult } from '../types/TestCase';
+
+const finding: SecurityFinding = {
+  id: 'finding-selfdestruct',
+  detector: 'unprotected-selfdestruct',
+  severity: 'high',
+  title: 'kill can destroy the contract without a caller check',
+  description: '',
+  function: 'kill()',
+  evidence: 'selfdestruct(payable(msg.sender))',
+  conclusive: true,
+  testCase: {
+    id: 'security-selfdestruct',
+    name: 'Exploit: kill',
+    description: '',
+    steps: [{
+      id: 'exploit',
+      action: 'CONTRACT_CALL',
+      params: { method: 'kill', contractAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3', args: [], actor: 'attacker' },
+      description: 'Call kill as the attacker',
+      expectedOutcome: 'revert'
+    }],
+    expectedResult: '',
+    status: 'pending'
+  }
+};
+
+function result(error: string, step?: Partial<StepResult>): TestResult {
+  return {
+    testCaseId: finding.testCase.id,
+    success: false,
+    error,
+    logs: [],
+    timestamp: 0,
+    steps: step ? [{ stepId: 'exploit', method: 'kill()', kind: 'transaction', reverted: false, ...step }] : []
+  };
+}
+
+describe('findingVerdict', () => {
+  it('confirms the finding when the exploit step went through', () => {
+    const receipt = { hash: '0x01' } as StepResult['receipt'];
+    expect(findingVerdict(finding, result('Step exploit was expected to revert but succeeded', { receipt }))).toBe('confirmed');
+  });
+
+  it('dismisses the finding when the exploit step reverted', () => {
+    const reverted = { ...result('', { reverted: true }), success: true, error: undefined };
+    expect(findingVerdict(finding, reverted)).toBe('dismissed');
+    expect(findingVerdict({ ...finding, conclusive: false }, reverted)).toBe('unverified');
+  });
+
+  it('leaves the finding unverified when the exploit step never completed', () => {
+    expect(findingVerdict(finding)).toBe('unverified');
+    expect(findingVerdict(finding, result('insufficient funds for intrinsic transaction cost'))).toBe('unverified');
+    expect(findingVerdict(finding, result('request timed out', {}))).toBe('unverified');
+  });
+});
@@ -0,0 +1,308 @@
+import { ethers } from 'ethers';
+import { TestCase, TestResult, TestStep } from '../types/TestCase';
+import { FindingVerdict, SecurityDetector, SecurityFinding, Severity } from '../types/Security';
+import { GenerationInput } from './GenerationStrategy';
+import { isPrivileged } from './AccessControlCases';
+import { ParsedSource, SourceFunction, appliedModifiers, findSourceFunction, localNames, parseSource } from './SoliditySource';
+import { validateTestCases } from './TestCaseValidator';
+import { ValueGenerator } from './ValueGenerator';
+import { stableId } from '../utils/ids';
+
+export interface SecurityAnalysisInput extends GenerationInput {
+  // Runtime or creation bytecode; scanned for opcodes when the source is not available
+  bytecode?: string;
+}
+
+const SELFDESTRUCT = 0xff;
+const DELEGATECALL = 0xf4;
+const ORIGIN = 0x32;
+
+export const SEVERITY_ORDER: Severity[] = ['high', 'medium', 'low', 'info'];
+
+// Checks that restrict the caller, in a function body or one of its modifiers
+const CALLER_CHECK = /msg\.sender\s*[!=]=|[!=]=\s*msg\.sender|_msgSender\(\)\s*[!=]=|[!=]=\s*_msgSender\(\)|_checkOwner\s*\(|_checkRole\s*\(|hasRole\s*\(|_isOwner\s*\(|requiresAuth|isAuthorized\s*\(/;
+const GUARD_MODIFIER = /\bonly[A-Z_]\w*|\bauth\b|\brequiresAuth\b/;
+// tx.origin compared with msg.sender only rejects contract callers, which is not authorization
+const ORIGIN_USE = /\btx\.origin\b(?!\s*[!=]=\s*msg\.sender)/;
+const ORIGIN_SENDER_CHECK = /msg\.sender\s*[!=]=\s*tx\.origin/g;
+// Calls that hand control to another contract: low-level calls and transfers with receiver hooks
+const EXTERNAL_CALL = /\.call\s*(?:\{[^}]*\}\s*)?\(|\.safeTransfer(?:From)?\s*\(|\b_safeMint\s*\(|\b_safeTransfer\s*\(|\.sendValue\s*\(/;
+const STATE_WRITE = /\b([A-Za-z_]\w*)\s*(?:\[[^\]]*\]\s*|\.\w+\s*)*(?:\+\+|--|(?:[+\-*/%|&^]|<<|>>)?=(?!=))|\bdelete\s+([A-Za-z_]\w*)|(?:\+\+|--)\s*([A-Za-z_]\w*)/g;
+const REENTRANCY_GUARD = /\bnonReentrant\b|\bnoReentrancy\b|\block\b/;
+const ZERO_CHECK = /address\s*\(\s*0\s*\)|ZeroAddress|_checkNonZero/;
+// Names of functions likely to contain the opcode, when only bytecode is available
+const DESTROY_NAME = /kill|destroy|selfdestruct|suicide|close|shutdown|terminate/i;
+// Sent with payable exploit attempts, so the call carries funds without draining the attacker
+const EXPLOIT_VALUE = '1';
+
+// Flags risky patterns and pairs each finding with an exploit attempt the executor can run on a local fork
+export function analyzeSecurity(input: SecurityAnalysisInput): SecurityFinding[] {
+  const iface = ethers.Interface.from(input.abi);
+  const functions = iface.fragments
+    .filter(ethers.Fragment.isFunction)
+    .filter(fragment => !fragment.constant);
+  const parsed = input.source ? parseSource(input.source) : undefined;
+  const opcodes = input.bytecode && !parsed ? scanOpcodes(input.bytecode) : new Set<number>();
+  const builder = new FindingBuilder(input.contractAddress);
+
+  for (const fragment of functions) {
+    const implementation = parsed && findSourceFunction(parsed, fragment.name, fragment.inputs.length);
+    if (parsed && implementation) {
+      checkSource(builder, fragment, implementation, parsed);
+    } else if (!parsed) {
+      checkCompiled(builder, fragment, opcodes);
+    }
+  }
+
+  // The exploit cases go through the same ABI checks as generated ones
+  const findings = builder.findings;
+  const { valid } = validateTestCases(findings.map(finding => finding.testCase), input.abi);
+  const validated = new Map(valid.map(testCase => [testCase.id, testCase]));
+  return findings
+    .filter(finding => validated.has(finding.testCase.id))
+    .map(finding => ({ ...finding, testCase: validated.get(finding.testCase.id) as TestCase }))
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+}
+
+// Judged by the exploit step itself: going through confirms the finding, reverting dismisses it only when the attempt
+// covers the whole attack, and a step that never completed (RPC error, timeout, unfunded actor) proves nothing
+export function findingVerdict(finding: SecurityFinding, result?: TestResult): FindingVerdict {
+  const exploit = finding.testCase.steps[finding.testCase.steps.length - 1];
+  const step = result?.steps?.find(item => item.stepId === exploit.id);
+  if (!step) return 'unverified';
+  if (step.reverted) return finding.conclusive ? 'dismissed' : 'unverified';
+  return step.receipt !== undefined || step.returnValue !== undefined ? 'confirmed' : 'unverified';
+}
+
+function checkSource(
+  builder: FindingBuilder,
+  fragment: ethers.FunctionFragment,
+  fn: SourceFunction,
+  parsed: ParsedSource
+) {
+  const modifiers = appliedModifiers(parsed, fn);
+  const checked = [fn.body, ...modifiers.map(modifier => modifier.body)].join('\n');
+  const guarded = GUARD_MODIFIER.test(fn.header) || CALLER_CHECK.test(checked);
+
+  const destroy = fn.body.match(/\b(?:selfdestruct|suicide)\s*\([^;]*/);
+  if (destroy && !guarded) {
+    builder.add('unprotected-selfdestruct', 'high', fragment, excerpt(destroy[0]), {
+      title: `${fragment.name} can destroy the contract without a caller check`,
+      description: `${fragment.name} reaches selfdestruct and neither it nor its modifiers restrict msg.sender`
+    });
+  }
+
+  const delegate = fn.body.match(/\bdelegatecall\s*\([^;]*/);
+  if (delegate && !guarded) {
+    builder.add('unprotected-delegatecall', 'high', fragment, excerpt(delegate[0]), {
+      title: `${fragment.name} delegatecalls without a caller check`,
+      description: `${fragment.name} runs code through delegatecall in this contract's storage and anyone can call it`
+    });
+  }
+
+  if (fragment.payable && isPrivileged(fragment) && !guarded) {
+    builder.add('unprotected-payable', 'medium', fragment, `payable ${fragment.format()} with no caller check`, {
+      title: `Payable ${fragment.name} is open to every caller`,
+      description: `${fragment.name} accepts ether and looks privileged by name, but nothing restricts msg.sender`
+    });
+  }
+
+  const origin = checked.replace(ORIGIN_SENDER_CHECK, '').match(new RegExp(`[^;{}]*${ORIGIN_USE.source}[^;{}]*`));
+  if (origin) {
+    builder.add('tx-origin', 'medium', fragment, excerpt(origin[0]), {
+      title: `${fragment.name} relies on tx.origin`,
+      description: `${fragment.name} uses tx.origin; a contract the owner is tricked into calling passes an origin check`,
+      conclusive: false
+    });
+  }
+
+  const locals = localNames(fn);
+  for (const [index, input] of fragment.inputs.entries()) {
+    const name = fn.params[index];
+    if (input.type !== 'address' || !name) continue;
+    const stored = new RegExp(`\\b([A-Za-z_]\\w*)(?:\\[[^\\]]*\\])*\\s*=\\s*(?:payable\\s*\\()?${name}\\b\\)?\\s*;`).exec(fn.body);
+    if (stored && !locals.has(stored[1]) && !ZERO_CHECK.test(checked)) {
+      builder.add('missing-zero-address-check', 'low', fragment, excerpt(stored[0]), {
+        title: `${fragment.name} stores ${name} without a zero-address check`,
+        description: `${fragment.name} writes ${name} to storage but never compares it with address(0)`,
+        zeroAddress: true
+      });
+      break;
+    }
+  }
+
+  const call = EXTERNAL_CALL.exec(fn.body);
+  if (call && !REENTRANCY_GUARD.test(fn.header)) {
+    const write = stateWriteAfter(fn.body, call.index + call[0].length, locals);
+    if (write) {
+      builder.add('reentrancy', 'high', fragment, `${excerpt(statementAt(fn.body, call.index))} … then ${excerpt(write)}`, {
+        title: `${fragment.name} makes an external call before updating state`,
+        description: `${fragment.name} hands control to another contract and writes storage afterwards, without a reentrancy guard. The exploit attempt checks whether the attacker can reach the call at all`,
+        conclusive: false
+      });
+    }
+  }
+}
+
+// Without source, opcodes show that a pattern exists and names or parameters point at the likely function
+function checkCompiled(builder: FindingBuilder, fragment: ethers.FunctionFragment, opcodes: Set<number>) {
+  if (opcodes.has(SELFDESTRUCT) && DESTROY_NAME.test(fragment.name)) {
+    builder.add('unprotected-selfdestruct', 'medium', fragment, 'SELFDESTRUCT opcode in bytecode', {
+      title: `${fragment.name} may destroy the contract`,
+      description: `The bytecode contains SELFDESTRUCT and ${fragment.name} is the likely entry point; the attacker must not be able to call it`
+    });
+  }
+
+  const types = fragment.inputs.map(input => input.type);
+  if (opcodes.has(DELEGATECALL) && types.includes('address') && types.includes('bytes')) {
+    builder.add('unprotected-delegatecall', 'medium', fragment, 'DELEGATECALL opcode in bytecode', {
+      title: `${fragment.name} may delegatecall an arbitrary target`,
+      description: `The bytecode contains DELEGATECALL and ${fragment.name} takes a target address and calldata`
+    });
+  }
+
+  if (fragment.payable && isPrivileged(fragment)) {
+    builder.add('unprotected-payable', 'low', fragment, `payable ${fragment.format()}`, {
+      title: `Payable ${fragment.name} may be open to every caller`,
+      description: `${fragment.name} accepts ether and looks privileged by name; without source it is unknown whether it checks the caller`
+    });
+  }
+
+  if (opcodes.has(ORIGIN) && isPrivileged(fragment)) {
+    builder.add('tx-origin', 'low', fragment, 'ORIGIN opcode in bytecode', {
+      title: `${fragment.name} may authorize by tx.origin`,
+      description: `The bytecode reads tx.origin and ${fragment.name} looks privileged; a contract the owner is tricked into calling would pass an origin check`,
+      conclusive: false
+    });
+  }
+
+  if (isPrivileged(fragment) && /^set|^transfer/i.test(fragment.name) && types.includes('address')) {
+    builder.add('missing-zero-address-check', 'info', fragment, `${fragment.format()} takes an address`, {
+      title: `${fragment.name} may accept the zero address`,
+      description: `${fragment.name} looks like it stores an address; setting it to address(0) usually locks a role or burns funds`,
+      zeroAddress: true
+    });
+  }
+}
+
+interface FindingDetails {
+  title: string;
+  description: string;
+  // The owner sends address(0) for every address parameter instead of the attacker calling
+  zeroAddress?: boolean;
+  conclusive?: boolean;
+}
+
+class FindingBuilder {
+  readonly findings: SecurityFinding[] = [];
+  private values = new ValueGenerator();
+
+  constructor(private contractAddress: string) {}
+
+  add(
+    detector: SecurityDetector,
+    severity: Severity,
+    fragment: ethers.FunctionFragment,
+    evidence: string,
+    details: FindingDetails
+  ) {
+    const signature = fragment.format();
+    this.findings.push({
+      id: stableId('finding', detector, this.contractAddress, signature),
+      detector,
+      severity,
+      title: details.title,
+      description: details.description,
+      function: signature,
+      evidence,
+      conclusive: details.conclusive ?? true,
+      testCase: this.exploitCase(detector, fragment, details)
+    });
+  }
+
+  private exploitCase(detector: SecurityDetector, fragment: ethers.FunctionFragment, details: FindingDetails): TestCase {
+    const step: TestStep = details.zeroAddress
+      ? {
+        id: 'zero-address',
+        action: 'CONTRACT_CALL',
+        params: {
+          method: fragment.name,
+          contractAddress: this.contractAddress,
+          fragment: JSON.parse(fragment.format('json')),
+          args: fragment.inputs.map(input => input.type === 'address' ? ethers.ZeroAddress : this.values.generate(input, 'safe')),
+          actor: 'owner'
+        },
+        description: `Call ${fragment.name} as the owner with address(0)`,
+        expectedOutcome: 'revert'
+      }
+      : {
+        id: 'exploit',
+        action: 'CONTRACT_CALL',
+        params: {
+          method: fragment.name,
+          contractAddress: this.contractAddress,
+          fragment: JSON.parse(fragment.format('json')),
+          args: fragment.inputs.map(input => input.type === 'address' ? { addressOf: 'attacker' } : this.values.generate(input, 'safe')),
+          actor: 'attacker',
+          ...(fragment.payable ? { value: EXPLOIT_VALUE } : {})
+        },
+        description: `Call ${fragment.name} as the attacker`,
+        expectedOutcome: 'revert'
+      };
+
+    return {
+      id: stableId('security', detector, this.contractAddress, fragment.format()),
+      name: `Exploit: ${details.title}`,
+      description: details.description,
+      steps: [step],
+      expectedResult: details.zeroAddress
+        ? 'Transaction reverts because address(0) is rejected; success confirms the finding'
+        : 'Transaction reverts because the attacker is not authorized; success confirms the finding',
+      status: 'pending'
+    };
+  }
+}
+
+function stateWriteAfter(body: string, from: number, locals: Set<string>): string | undefined {
+  const rest = body.slice(from);
+  for (const match of rest.matchAll(STATE_WRITE)) {
+    const target = match[1] ?? match[2] ?? match[3];
+    if (!locals.has(target)) {
+      return statementAt(rest, match.index);
+    }
+  }
+  return undefined;
+}
+
+function statementAt(code: string, index: number): string {
+  const start = Math.max(code.lastIndexOf(';', index), code.lastIndexOf('{', index), code.lastIndexOf('}', index)) + 1;
+  const end = code.indexOf(';', index);
+  return code.slice(start, end === -1 ? undefined : end);
+}
+
+// Opcodes of the code, skipping PUSH data and the trailing CBOR metadata that solc appends
+function scanOpcodes(bytecode: string): Set<number> {
+  const code = ethers.getBytes(bytecode.startsWith('0x') ? bytecode : `0x${bytecode}`);
+  let end = code.length;
+  if (code.length >= 2) {
+    const metadataLength = (code[code.length - 2] << 8) | code[code.length - 1];
+    if (metadataLength + 2 <= code.length && (code[code.length - 2 - metadataLength] & 0xf0) === 0xa0) {
+      end = code.length - 2 - metadataLength;
+    }
+  }
+
+  const opcodes = new Set<number>();
+  for (let pc = 0; pc < end; pc++) {
+    const opcode = code[pc];
+    opcodes.add(opcode);
+    if (opcode >= 0x60 && opcode <= 0x7f) {
+      pc += opcode - 0x5f;
+    }
+  }
+  return opcodes;
+}
+
+function excerpt(text: string): string {
+  const compact = text.replace(/\s+/g, ' ').trim();
+  return compact.length > 120 ? `${compact.slice(0, 117)}...` : compact;
+}
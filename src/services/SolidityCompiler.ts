@@ -0,0 +1,68 @@
+// Compiles Solidity standard JSON input to standard JSON output; both sides are strings as solc takes them
+export interface SolidityCompiler {
+  compile(input: string): Promise<string>;
+}
+
+// The parts of solc's emscripten module used here
+interface Soljson {
+  cwrap(ident: string, returnType: string | null, argTypes: string[]): (...args: unknown[]) => unknown;
+}
+
+// Runs the bundled solc-js in the current thread. Browsers only allow its synchronous
+// WebAssembly compilation off the main thread, so the app goes through WorkerSolidityCompiler
+export class InProcessSolidityCompiler implements SolidityCompiler {
+  private solc?: Promise<{ compile: (input: string) => string; reset: () => void }>;
+
+  async compile(input: string): Promise<string> {
+    const { compile, reset } = await (this.solc ??= this.load());
+    try {
+      // No import callback: every imported file has to be among the sources
+      return compile(input);
+    } finally {
+      reset();
+    }
+  }
+
+  private async load() {
+    const loaded = await import('solc/soljson.js') as unknown as Soljson & { default?: Soljson };
+    const soljson = loaded.default ?? loaded;
+    const compile = soljson.cwrap('solidity_compile', 'string', ['string', 'number', 'number']);
+    const reset = soljson.cwrap('solidity_reset', null, []);
+    return { compile: (input: string) => compile(input, 0, 0) as string, reset: () => reset() };
+  }
+}
+
+export class WorkerSolidityCompiler implements SolidityCompiler {
+  private worker?: Worker;
+  private nextId = 0;
+  private pending = new Map<number, { resolve: (output: string) => void; reject: (error: Error) => void }>();
+
+  compile(input: string): Promise<string> {
+    const worker = this.worker ??= this.startWorker();
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      worker.postMessage({ id, input });
+    });
+  }
+
+  private startWorker(): Worker {
+    const worker = new Worker(new URL('../workers/solcWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<{ id: number; output?: string; error?: string }>) => {
+      const request = this.pending.get(event.data.id);
+      this.pending.delete(event.data.id);
+      if (event.data.error !== undefined) {
+        request?.reject(new Error(event.data.error));
+      } else {
+        request?.resolve(event.data.output ?? '');
+      }
+    };
+    worker.onerror = event => {
+      for (const request of this.pending.values()) {
+        request.reject(new Error(`Solidity compiler failed to load: ${event.message}`));
+      }
+      this.pending.clear();
+    };
+    return worker;
+  }
+}
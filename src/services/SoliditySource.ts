@@ -0,0 +1,151 @@
+// Lightweight Solidity reading for heuristics: enough to find function bodies, not a full parser
+
+export interface SourceFunction {
+  name: string;
+  // Parameter names in declaration order; unnamed parameters are empty strings
+  params: string[];
+  // Visibility, mutability and modifiers between the parameter list and the body
+  header: string;
+  body: string;
+}
+
+export interface SourceModifier {
+  name: string;
+  body: string;
+}
+
+export interface ParsedSource {
+  functions: SourceFunction[];
+  modifiers: SourceModifier[];
+}
+
+const KEYWORDS = new Set(['return', 'returns', 'delete', 'emit', 'else', 'new', 'revert', 'using', 'is']);
+
+// Comments and string literals blanked out, so braces and keywords inside them do not count; offsets are kept
+export function stripCommentsAndStrings(source: string): string {
+  let result = '';
+  let index = 0;
+  while (index < source.length) {
+    const rest = source.slice(index, index + 2);
+    if (rest === '//') {
+      const end = source.indexOf('\n', index);
+      const stop = end === -1 ? source.length : end;
+      result += ' '.repeat(stop - index);
+      index = stop;
+    } else if (rest === '/*') {
+      const end = source.indexOf('*/', index + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      result += source.slice(index, stop).replace(/[^\n]/g, ' ');
+      index = stop;
+    } else if (source[index] === '"' || source[index] === "'") {
+      const quote = source[index];
+      let stop = index + 1;
+      while (stop < source.length && source[stop] !== quote && source[stop] !== '\n') {
+        stop += source[stop] === '\\' ? 2 : 1;
+      }
+      result += source.slice(index, stop + 1).replace(/[^\n]/g, ' ');
+      index = stop + 1;
+    } else {
+      result += source[index];
+      index++;
+    }
+  }
+  return result;
+}
+
+// Functions with a body and modifiers, from every contract in the source; interface declarations are skipped
+export function parseSource(source: string): ParsedSource {
+  const code = stripCommentsAndStrings(source);
+  const functions: SourceFunction[] = [];
+  const modifiers: SourceModifier[] = [];
+
+  for (const match of code.matchAll(/\b(function|modifier)\s+(\w+)\s*(\()?/g)) {
+    const start = match.index + match[0].length;
+    let params: string[] = [];
+    let headerStart = start;
+    if (match[3]) {
+      const close = findClosing(code, start - 1, '(', ')');
+      if (close === -1) continue;
+      params = splitTopLevel(code.slice(start, close)).map(parameterName);
+      headerStart = close + 1;
+    }
+    const bodyStart = indexOfEither(code, headerStart, '{', ';');
+    if (bodyStart === -1 || code[bodyStart] === ';') continue;
+    const bodyEnd = findClosing(code, bodyStart, '{', '}');
+    if (bodyEnd === -1) continue;
+
+    const body = code.slice(bodyStart + 1, bodyEnd);
+    if (match[1] === 'modifier') {
+      modifiers.push({ name: match[2], body });
+    } else {
+      functions.push({ name: match[2], params, header: code.slice(headerStart, bodyStart), body });
+    }
+  }
+  return { functions, modifiers };
+}
+
+// The implementation of an ABI function: same name and parameter count, first declaration wins
+export function findSourceFunction(parsed: ParsedSource, name: string, paramCount: number): SourceFunction | undefined {
+  return parsed.functions.find(item => item.name === name && item.params.length === paramCount);
+}
+
+// Bodies of the modifiers a function applies, since checks often live there
+export function appliedModifiers(parsed: ParsedSource, fn: SourceFunction): SourceModifier[] {
+  const used = new Set([...fn.header.matchAll(/\b(\w+)\b/g)].map(match => match[1]));
+  return parsed.modifiers.filter(modifier => used.has(modifier.name));
+}
+
+// Names declared by a function: parameters, named returns, locals and tuple destructuring targets
+export function localNames(fn: SourceFunction): Set<string> {
+  const returns = /\breturns\s*\(([^)]*)\)/.exec(fn.header);
+  const names = new Set([...fn.params, ...splitTopLevel(returns?.[1] ?? '').map(parameterName)].filter(Boolean));
+  const declaration = /\b([A-Za-z_]\w*)(?:\[\d*\])*\s+(?:memory\s+|calldata\s+|payable\s+)?([A-Za-z_]\w*)\s*(?=[=;,)])/g;
+  for (const match of fn.body.matchAll(declaration)) {
+    if (!KEYWORDS.has(match[1]) && match[1] !== 'storage') {
+      names.add(match[2]);
+    }
+  }
+  return names;
+}
+
+function parameterName(param: string): string {
+  const words = param.trim().split(/\s+/);
+  const last = words[words.length - 1] ?? '';
+  // A lone type, or a type followed only by a data location, has no name
+  return words.length > 1 && !['memory', 'calldata', 'storage', 'payable'].includes(last) ? last : '';
+}
+
+function splitTopLevel(text: string): string[] {
+  if (text.trim() === '') return [];
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function findClosing(code: string, openIndex: number, open: string, close: string): number {
+  let depth = 0;
+  for (let index = openIndex; index < code.length; index++) {
+    if (code[index] === open) depth++;
+    if (code[index] === close && --depth === 0) return index;
+  }
+  return -1;
+}
+
+function indexOfEither(code: string, from: number, first: string, second: string): number {
+  for (let index = from; index < code.length; index++) {
+    if (code[index] === first || code[index] === second) return index;
+  }
+  return -1;
+}
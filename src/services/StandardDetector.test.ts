@@ -0,0 +1,75 @@
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { INTERFACE_IDS, detectStandards, detectStandardsOnChain, withStandardFunctions } from './StandardDetector';
+import { generateStandardPacks } from './StandardTestPacks';
+import { validateTestCases } from './TestCaseValidator';
+
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const SUPPORTS_INTERFACE = 'function supportsInterface(bytes4 interfaceId) view returns (bool)';
+
+const ERC20_ABI = [
+  'function totalSupply() view returns (uint256)',
+  'function balanceOf(address) view returns (uint256)',
+  'function transfer(address, uint256) returns (bool)',
+  'function transferFrom(address, address, uint256) returns (bool)',
+  'function approve(address, uint256) returns (bool)',
+  'function allowance(address, address) view returns (uint256)',
+  'function mint(address to, uint256 amount)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event Approval(address indexed owner, address indexed spender, uint256 value)'
+];
+
+// Answers supportsInterface with true for the given ids, or reverts every call
+function contractClaiming(ids: string[] | 'revert'): ethers.Provider {
+  const iface = new ethers.Interface([SUPPORTS_INTERFACE]);
+  const runner = {
+    provider: null,
+    call: async (tx: ethers.TransactionRequest) => {
+      if (ids === 'revert') {
+        throw ethers.makeError('execution reverted', 'CALL_EXCEPTION', { action: 'call', data: '0x', reason: null, transaction: { to: CONTRACT, data: String(tx.data) }, invocation: null, revert: null });
+      }
+      const [id] = iface.decodeFunctionData('supportsInterface', String(tx.data));
+      return iface.encodeFunctionResult('supportsInterface', [ids.includes(id)]);
+    }
+  };
+  return runner as unknown as ethers.Provider;
+}
+
+describe('detectStandards', () => {
+  it('recognises a standard whose required functions are all in the ABI', () => {
+    expect(detectStandards(ERC20_ABI)).toEqual(['ERC-20']);
+    expect(detectStandards(ERC20_ABI.filter(item => !item.includes('allowance')))).toEqual([]);
+  });
+
+  it('adds the standards a contract claims through supportsInterface', async () => {
+    const partial = [SUPPORTS_INTERFACE, 'function ownerOf(uint256 tokenId) view returns (address)'];
+    const provider = contractClaiming([INTERFACE_IDS['ERC-165'], INTERFACE_IDS['ERC-721']]);
+
+    const standards = await detectStandardsOnChain(partial, CONTRACT, provider);
+    expect(standards).toEqual(['ERC-721']);
+
+    // The completed ABI carries the standard's functions, so its whole pack is generated and passes validation
+    const abi = withStandardFunctions(partial, standards);
+    expect(detectStandards(abi)).toEqual(['ERC-721']);
+    const { valid, rejected } = validateTestCases(generateStandardPacks(abi, CONTRACT), abi);
+    expect(rejected).toEqual([]);
+    expect(valid.map(testCase => testCase.name)).toContain('ERC-721: ERC-165 interface detection');
+  });
+
+  it('ignores contracts that revert on supportsInterface', async () => {
+    expect(await detectStandardsOnChain([SUPPORTS_INTERFACE], CONTRACT, contractClaiming('revert'))).toEqual([]);
+  });
+});
+
+describe('ERC-20 pack', () => {
+  it('moves a funded, non-zero amount on local chains only', () => {
+    const local = generateStandardPacks(ERC20_ABI, CONTRACT, true);
+    const transfer = local.find(testCase => testCase.name === 'ERC-20: transfer moves tokens and preserves total supply');
+    expect(transfer?.steps.map(step => step.id)).toEqual(['mint', 'supply-before', 'transfer', 'supply-after']);
+    expect(transfer?.steps[2].params.args).toEqual(['0x00000000000000000000000000000000000000a1', '1000']);
+    expect(validateTestCases(local, ERC20_ABI).rejected).toEqual([]);
+
+    const remote = generateStandardPacks(ERC20_ABI, CONTRACT);
+    expect(remote.some(testCase => testCase.name.includes('preserves total supply'))).toBe(false);
+  });
+});
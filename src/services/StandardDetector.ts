@@ -0,0 +1,153 @@
+import { ethers } from 'ethers';
+
+export type TokenStandard = 'ERC-20' | 'ERC-721' | 'ERC-1155' | 'ERC-4626';
+
+// ERC-165 interface ids
+export const INTERFACE_IDS = {
+  'ERC-165': '0x01ffc9a7',
+  'ERC-721': '0x80ac58cd',
+  'ERC-1155': '0xd9b67a26'
+} as const;
+
+// The functions each standard requires, plus the events its test pack checks; a contract that claims the standard
+// through ERC-165 has them even when its ABI was pasted in part
+const STANDARD_ABIS: Record<TokenStandard, string[]> = {
+  'ERC-20': [
+    'function totalSupply() view returns (uint256)',
+    'function balanceOf(address account) view returns (uint256)',
+    'function transfer(address to, uint256 value) returns (bool)',
+    'function transferFrom(address from, address to, uint256 value) returns (bool)',
+    'function approve(address spender, uint256 value) returns (bool)',
+    'function allowance(address owner, address spender) view returns (uint256)',
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+    'event Approval(address indexed owner, address indexed spender, uint256 value)'
+  ],
+  'ERC-721': [
+    'function balanceOf(address owner) view returns (uint256)',
+    'function ownerOf(uint256 tokenId) view returns (address)',
+    'function safeTransferFrom(address from, address to, uint256 tokenId)',
+    'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+    'function transferFrom(address from, address to, uint256 tokenId)',
+    'function approve(address to, uint256 tokenId)',
+    'function setApprovalForAll(address operator, bool approved)',
+    'function getApproved(uint256 tokenId) view returns (address)',
+    'function isApprovedForAll(address owner, address operator) view returns (bool)',
+    'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+    'event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)',
+    'event ApprovalForAll(address indexed owner, address indexed operator, bool approved)'
+  ],
+  'ERC-1155': [
+    'function balanceOf(address account, uint256 id) view returns (uint256)',
+    'function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[])',
+    'function setApprovalForAll(address operator, bool approved)',
+    'function isApprovedForAll(address account, address operator) view returns (bool)',
+    'function safeTransferFrom(address from, address to, uint256 id, uint256 value, bytes data)',
+    'function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] values, bytes data)',
+    'event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)',
+    'event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)',
+    'event ApprovalForAll(address indexed account, address indexed operator, bool approved)'
+  ],
+  'ERC-4626': [
+    'function asset() view returns (address)',
+    'function totalAssets() view returns (uint256)',
+    'function convertToShares(uint256 assets) view returns (uint256)',
+    'function convertToAssets(uint256 shares) view returns (uint256)',
+    'function maxDeposit(address receiver) view returns (uint256)',
+    'function previewDeposit(uint256 assets) view returns (uint256)',
+    'function deposit(uint256 assets, address receiver) returns (uint256)',
+    'function maxMint(address receiver) view returns (uint256)',
+    'function previewMint(uint256 shares) view returns (uint256)',
+    'function mint(uint256 shares, address receiver) returns (uint256)',
+    'function maxWithdraw(address owner) view returns (uint256)',
+    'function previewWithdraw(uint256 assets) view returns (uint256)',
+    'function withdraw(uint256 assets, address receiver, address owner) returns (uint256)',
+    'function maxRedeem(address owner) view returns (uint256)',
+    'function previewRedeem(uint256 shares) view returns (uint256)',
+    'function redeem(uint256 shares, address receiver, address owner) returns (uint256)',
+    'event Deposit(address indexed sender, address indexed owner, uint256 assets, uint256 shares)',
+    'event Withdraw(address indexed sender, address indexed receiver, address indexed owner, uint256 assets, uint256 shares)'
+  ]
+};
+
+const STANDARDS = Object.keys(STANDARD_ABIS) as TokenStandard[];
+
+// Selectors that must all be present for the ABI to count as the standard
+const REQUIRED_SELECTORS = Object.fromEntries(STANDARDS.map(standard => [
+  standard,
+  ethers.Interface.from(STANDARD_ABIS[standard]).fragments.filter(ethers.Fragment.isFunction).map(fragment => fragment.selector)
+])) as Record<TokenStandard, string[]>;
+
+// Ids asked of contracts that implement ERC-165. ERC-4626 defines none; vaults that advertise one use the XOR of
+// its function selectors, as ERC-165 computes every interface id
+const QUERIED_IDS: [TokenStandard, string][] = [
+  ['ERC-721', INTERFACE_IDS['ERC-721']],
+  ['ERC-1155', INTERFACE_IDS['ERC-1155']],
+  ['ERC-4626', ethers.toBeHex(REQUIRED_SELECTORS['ERC-4626'].reduce((id, selector) => id ^ BigInt(selector), 0n), 4)]
+];
+
+// Standards whose required functions are all in the ABI
+export function detectStandards(abi: ethers.InterfaceAbi): TokenStandard[] {
+  const selectors = functionSelectors(ethers.Interface.from(abi));
+  const standards = STANDARDS.filter(standard => REQUIRED_SELECTORS[standard].every(selector => selectors.has(selector)));
+  // A vault is also an ERC-20 share token; without the ERC-20 surface it is not a conforming vault
+  return standards.includes('ERC-20') ? standards : standards.filter(standard => standard !== 'ERC-4626');
+}
+
+export function supportsErc165(abi: ethers.InterfaceAbi): boolean {
+  // The ERC-165 interface id is the selector of supportsInterface(bytes4) itself
+  return functionSelectors(ethers.Interface.from(abi)).has(INTERFACE_IDS['ERC-165']);
+}
+
+// Adds the standards the deployed contract claims through supportsInterface, asked when the ABI has it
+export async function detectStandardsOnChain(
+  abi: ethers.InterfaceAbi,
+  contractAddress: string,
+  provider: ethers.Provider
+): Promise<TokenStandard[]> {
+  const standards = new Set(detectStandards(abi));
+  if (!supportsErc165(abi)) {
+    return [...standards];
+  }
+  const contract = new ethers.Contract(contractAddress, ['function supportsInterface(bytes4) view returns (bool)'], provider);
+  for (const [standard, id] of QUERIED_IDS) {
+    if (!standards.has(standard) && await claims(contract, id)) {
+      standards.add(standard);
+    }
+  }
+  // Vault shares are themselves ERC-20 tokens
+  if (standards.has('ERC-4626')) {
+    standards.add('ERC-20');
+  }
+  return STANDARDS.filter(standard => standards.has(standard));
+}
+
+// The ABI plus the functions and events of the given standards it lacks
+export function withStandardFunctions(abi: ethers.InterfaceAbi, standards: TokenStandard[]): string[] {
+  const iface = ethers.Interface.from(abi);
+  const present = new Set(iface.fragments.map(fragment => fragment.format('sighash')));
+  const missing = standards
+    .flatMap(standard => ethers.Interface.from(STANDARD_ABIS[standard]).fragments)
+    .filter(fragment => {
+      const sighash = fragment.format('sighash');
+      if (present.has(sighash)) return false;
+      present.add(sighash);
+      return true;
+    });
+  return [...iface.format(), ...missing.map(fragment => fragment.format('full'))];
+}
+
+// Reverts and empty returns mean the contract does not claim the id
+async function claims(contract: ethers.Contract, id: string): Promise<boolean> {
+  try {
+    return Boolean(await contract.getFunction('supportsInterface').staticCall(id));
+  } catch (error) {
+    if (ethers.isCallException(error) || ethers.isError(error, 'BAD_DATA')) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+function functionSelectors(iface: ethers.Interface): Set<string> {
+  return new Set(iface.fragments.filter(ethers.Fragment.isFunction).map(fragment => fragment.selector));
+}
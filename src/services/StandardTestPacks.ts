@@ -0,0 +1,444 @@
+import { ethers } from 'ethers';
+import { TestCase, TestStep } from '../types/TestCase';
+import { AddressReference } from '../types/Assertion';
+import { stableId } from '../utils/ids';
+import { INTERFACE_IDS, TokenStandard, detectStandards, supportsErc165 } from './StandardDetector';
+
+// Externally owned placeholder accounts; none of them holds tokens or has granted approvals
+const RECIPIENT = '0x00000000000000000000000000000000000000a1';
+const OPERATOR = '0x00000000000000000000000000000000000000a2';
+const STRANGER = '0x00000000000000000000000000000000000000a3';
+const SENDER: AddressReference = { addressOf: 'sender' };
+// Large enough that no real collection or vault has minted it
+const UNMINTED_ID = ethers.MaxUint256.toString();
+const FRESH_TOKEN_ID = '424242';
+const VAULT_AMOUNTS = ['1', ethers.parseUnits('1', 'ether').toString()];
+// Small enough for any initial supply, large enough that a transfer has something to move
+const TOKEN_AMOUNT = '1000';
+
+type CaseSpec = Pick<TestCase, 'name' | 'description' | 'expectedResult' | 'specReference' | 'steps'>;
+
+// Curated conformance cases for every standard the ABI implements. Cases that move tokens need a funded sender,
+// which only a local chain gives: there the default sender deployed the contract, and can mint where the ABI allows
+export function generateStandardPacks(abi: ethers.InterfaceAbi, contractAddress: string, localChain = false): TestCase[] {
+  const pack = new StandardPack(ethers.Interface.from(abi), contractAddress, supportsErc165(abi), localChain);
+  return detectStandards(abi).flatMap(standard => pack.build(standard));
+}
+
+class StandardPack {
+  constructor(
+    private iface: ethers.Interface,
+    private contractAddress: string,
+    private hasErc165: boolean,
+    private localChain: boolean
+  ) {}
+
+  build(standard: TokenStandard): TestCase[] {
+    const specs = {
+      'ERC-20': () => this.erc20(),
+      'ERC-721': () => this.erc721(),
+      'ERC-1155': () => this.erc1155(),
+      'ERC-4626': () => this.erc4626()
+    }[standard]();
+    const slug = standard.toLowerCase().replace('-', '');
+    return specs.map(spec => ({
+      ...spec,
+      id: stableId(slug, this.contractAddress, spec.name),
+      name: `${standard}: ${spec.name}`,
+      status: 'pending'
+    }));
+  }
+
+  private erc20(): CaseSpec[] {
+    const specs: CaseSpec[] = [
+      {
+        name: 'zero-value transfer',
+        description: 'A transfer of 0 tokens succeeds and emits Transfer like any other transfer',
+        expectedResult: 'Transfer(sender, recipient, 0) is emitted',
+        specReference: 'EIP-20 transfer: transfers of 0 values MUST be treated as normal transfers and fire the Transfer event',
+        steps: [
+          this.step('transfer', 'transfer(address,uint256)', [RECIPIENT, '0'], {
+            expectations: [{ type: 'event', event: 'Transfer', args: [SENDER, RECIPIENT, '0'] }]
+          })
+        ]
+      },
+      {
+        name: 'transfer above balance',
+        description: 'Transferring more than the sender holds is rejected',
+        expectedResult: 'transfer reverts',
+        specReference: 'EIP-20 transfer: the function SHOULD throw if the caller does not have enough tokens to spend',
+        steps: [
+          this.step('transfer', 'transfer(address,uint256)', [RECIPIENT, ethers.MaxUint256.toString()], {
+            expectedOutcome: 'revert'
+          })
+        ]
+      },
+      {
+        name: 'approve sets allowance',
+        description: 'approve records the allowance and emits Approval',
+        expectedResult: 'Approval(sender, spender, 1000) is emitted and allowance returns 1000',
+        specReference: 'EIP-20 approve / allowance: allows the spender to withdraw up to the value, and MUST fire the Approval event',
+        steps: [
+          this.step('approve', 'approve(address,uint256)', [OPERATOR, '1000'], {
+            expectations: [{ type: 'event', event: 'Approval', args: [SENDER, OPERATOR, '1000'] }]
+          }),
+          this.step('allowance', 'allowance(address,address)', [SENDER, OPERATOR], {
+            expectations: [{ type: 'returnValue', operator: 'eq', expected: '1000' }]
+          })
+        ]
+      },
+      {
+        name: 'approve overwrites allowance',
+        description: 'A second approve replaces the previous allowance instead of adding to it',
+        expectedResult: 'allowance returns the most recent approved value',
+        specReference: 'EIP-20 approve: if called again it overwrites the current allowance with the new value',
+        steps: [
+          this.step('approve-first', 'approve(address,uint256)', [OPERATOR, '1000']),
+          this.step('approve-second', 'approve(address,uint256)', [OPERATOR, '5']),
+          this.step('allowance', 'allowance(address,address)', [SENDER, OPERATOR], {
+            expectations: [{ type: 'returnValue', operator: 'eq', expected: '5' }]
+          })
+        ]
+      },
+      {
+        name: 'transferFrom without allowance',
+        description: 'Spending from an account that never approved the caller is rejected',
+        expectedResult: 'transferFrom reverts',
+        specReference: 'EIP-20 transferFrom: the function SHOULD throw unless the from account has deliberately authorized the sender',
+        steps: [
+          this.step('transfer-from', 'transferFrom(address,address,uint256)', [STRANGER, RECIPIENT, '1'], {
+            expectedOutcome: 'revert'
+          })
+        ]
+      }
+    ];
+
+    if (this.localChain) {
+      const mint = this.findFunction('mint(address,uint256)');
+      const funding = mint ? [this.step('mint', mint, [SENDER, TOKEN_AMOUNT])] : [];
+      specs.push({
+        name: 'transfer moves tokens and preserves total supply',
+        description: `Transferring ${TOKEN_AMOUNT} units credits the recipient, emits Transfer and leaves totalSupply unchanged; the sender is ${mint ? 'funded through mint' : 'the deployer, holding the initial supply'}`,
+        expectedResult: `Transfer(sender, recipient, ${TOKEN_AMOUNT}) is emitted, the recipient gains ${TOKEN_AMOUNT} and totalSupply is the same before and after`,
+        specReference: 'EIP-20 transfer / totalSupply: transfers value tokens to the address, MUST fire the Transfer event, and moves tokens without minting or burning',
+        steps: [
+          ...funding,
+          this.step('supply-before', 'totalSupply()', []),
+          this.step('transfer', 'transfer(address,uint256)', [RECIPIENT, TOKEN_AMOUNT], {
+            expectations: [
+              { type: 'event', event: 'Transfer', args: [SENDER, RECIPIENT, TOKEN_AMOUNT] },
+              { type: 'balanceDelta', account: RECIPIENT, delta: TOKEN_AMOUNT, token: this.contractAddress }
+            ]
+          }),
+          this.step('supply-after', 'totalSupply()', [], {
+            expectations: [{ type: 'returnValue', operator: 'eq', expected: { stepRef: 'supply-before' } }]
+          })
+        ]
+      });
+    }
+    return specs;
+  }
+
+  private erc721(): CaseSpec[] {
+    const specs: CaseSpec[] = [
+      {
+        name: 'balance of the zero address',
+        description: 'Querying the balance of the zero address is rejected',
+        expectedResult: 'balanceOf(0x0) reverts',
+        specReference: 'EIP-721 balanceOf: NFTs assigned to the zero address are considered invalid, and queries about them do throw',
+        steps: [this.step('balance', 'balanceOf(address)', [ethers.ZeroAddress], { expectedOutcome: 'revert' })]
+      },
+      {
+        name: 'owner of an unminted token',
+        description: 'Querying the owner of a token that was never minted is rejected',
+        expectedResult: 'ownerOf reverts',
+        specReference: 'EIP-721 ownerOf: NFTs assigned to the zero address are considered invalid, and queries about them do throw',
+        steps: [this.step('owner', 'ownerOf(uint256)', [UNMINTED_ID], { expectedOutcome: 'revert' })]
+      },
+      this.approvalForAllCase(
+        'EIP-721 setApprovalForAll: enables an operator to manage all of the caller\'s assets and MUST emit ApprovalForAll'
+      ),
+      {
+        name: 'transfer of a token the caller does not own',
+        description: 'transferFrom by an account that is neither owner, approved nor operator is rejected',
+        expectedResult: 'transferFrom reverts',
+        specReference: 'EIP-721 transferFrom: throws unless the caller is the current owner, an authorized operator, or the approved address',
+        steps: [
+          this.step('transfer-from', 'transferFrom(address,address,uint256)', [STRANGER, RECIPIENT, UNMINTED_ID], {
+            expectedOutcome: 'revert'
+          })
+        ]
+      }
+    ];
+
+    if (this.hasErc165) {
+      specs.unshift(this.interfaceCase('ERC-721', 'EIP-721: every ERC-721 contract must implement ERC-165 and report 0x80ac58cd'));
+    }
+
+    // Receiver checks need a token the caller owns, which is only possible with a public mint
+    const mint = this.findFunction('mint(address,uint256)') ?? this.findFunction('safeMint(address,uint256)');
+    if (mint) {
+      specs.push(
+        {
+          name: 'safe transfer to a non-receiver contract',
+          description: 'safeTransferFrom to a contract without onERC721Received is rejected; the token contract itself is used as the recipient',
+          expectedResult: 'safeTransferFrom reverts and the sender still owns the token',
+          specReference: 'EIP-721 safeTransferFrom: when the recipient is a contract it calls onERC721Received and throws if the return value is not the magic value',
+          steps: [
+            this.step('mint', mint, [SENDER, FRESH_TOKEN_ID]),
+            this.step('safe-transfer', 'safeTransferFrom(address,address,uint256)', [SENDER, this.contractAddress, FRESH_TOKEN_ID], {
+              expectedOutcome: 'revert'
+            }),
+            this.step('owner', 'ownerOf(uint256)', [FRESH_TOKEN_ID], {
+              expectations: [{ type: 'returnValue', operator: 'eq', expected: SENDER }]
+            })
+          ]
+        },
+        {
+          name: 'safe transfer to an externally owned account',
+          description: 'safeTransferFrom to an account without code skips the receiver check and moves the token',
+          expectedResult: 'Transfer is emitted and ownerOf returns the recipient',
+          specReference: 'EIP-721 safeTransferFrom: the receiver check only applies when the recipient is a smart contract; transfers MUST emit Transfer',
+          steps: [
+            this.step('mint', mint, [SENDER, FRESH_TOKEN_ID]),
+            this.step('safe-transfer', 'safeTransferFrom(address,address,uint256)', [SENDER, RECIPIENT, FRESH_TOKEN_ID], {
+              expectations: [{ type: 'event', event: 'Transfer', args: [SENDER, RECIPIENT, FRESH_TOKEN_ID] }]
+            }),
+            this.step('owner', 'ownerOf(uint256)', [FRESH_TOKEN_ID], {
+              expectations: [{ type: 'returnValue', operator: 'eq', expected: RECIPIENT }]
+            })
+          ]
+        }
+      );
+    }
+    return specs;
+  }
+
+  private erc1155(): CaseSpec[] {
+    const specs: CaseSpec[] = [
+      {
+        name: 'safe transfer to a non-receiver contract',
+        description: 'A zero-amount safeTransferFrom to a contract without onERC1155Received is rejected; the token contract itself is used as the recipient',
+        expectedResult: 'safeTransferFrom reverts',
+        specReference: 'EIP-1155 safeTransferFrom: if the recipient is a contract it MUST call onERC1155Received and revert unless the magic value is returned',
+        steps: [
+          this.step('safe-transfer', 'safeTransferFrom(address,address,uint256,uint256,bytes)', [SENDER, this.contractAddress, '1', '0', '0x'], {
+            expectedOutcome: 'revert'
+          })
+        ]
+      },
+      {
+        name: 'safe batch transfer to a non-receiver contract',
+        description: 'A zero-amount safeBatchTransferFrom to a contract without onERC1155BatchReceived is rejected',
+        expectedResult: 'safeBatchTransferFrom reverts',
+        specReference: 'EIP-1155 safeBatchTransferFrom: if the recipient is a contract it MUST call onERC1155BatchReceived and revert unless the magic value is returned',
+        steps: [
+          this.step('safe-batch-transfer', 'safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)', [SENDER, this.contractAddress, ['1'], ['0'], '0x'], {
+            expectedOutcome: 'revert'
+          })
+        ]
+      },
+      {
+        name: 'transfer to the zero address',
+        description: 'safeTransferFrom with the zero address as recipient is rejected',
+        expectedResult: 'safeTransferFrom reverts',
+        specReference: 'EIP-1155 safeTransferFrom: MUST revert if _to is the zero address',
+        steps: [
+          this.step('safe-transfer', 'safeTransferFrom(address,address,uint256,uint256,bytes)', [SENDER, ethers.ZeroAddress, '1', '0', '0x'], {
+            expectedOutcome: 'revert'
+          })
+        ]
+      },
+      {
+        name: 'batch transfer with mismatched lengths',
+        description: 'safeBatchTransferFrom with more ids than values is rejected',
+        expectedResult: 'safeBatchTransferFrom reverts',
+        specReference: 'EIP-1155 safeBatchTransferFrom: MUST revert if length of _ids is not the same as length of _values',
+        steps: [
+          this.step('safe-batch-transfer', 'safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)', [SENDER, RECIPIENT, ['1', '2'], ['0'], '0x'], {
+            expectedOutcome: 'revert'
+          })
+        ]
+      },
+      {
+        name: 'unapproved transfer',
+        description: 'Moving tokens out of an account that has not approved the caller is rejected',
+        expectedResult: 'safeTransferFrom reverts',
+        specReference: 'EIP-1155 safeTransferFrom: caller must be approved to manage the tokens being transferred out of the _from account',
+        steps: [
+          this.step('safe-transfer', 'safeTransferFrom(address,address,uint256,uint256,bytes)', [STRANGER, RECIPIENT, '1', '1', '0x'], {
+            expectedOutcome: 'revert'
+          })
+        ]
+      },
+      this.approvalForAllCase(
+        'EIP-1155 setApprovalForAll: enables or disables approval for a third party to manage all of the caller\'s tokens and MUST emit ApprovalForAll'
+      )
+    ];
+
+    if (this.hasErc165) {
+      specs.unshift(this.interfaceCase('ERC-1155', 'EIP-1155: smart contracts implementing the standard MUST implement ERC-165 and report 0xd9b67a26'));
+    }
+    return specs;
+  }
+
+  private erc4626(): CaseSpec[] {
+    const specs: CaseSpec[] = [
+      {
+        name: 'underlying asset',
+        description: 'The vault reports a real underlying token',
+        expectedResult: 'asset() is not the zero address',
+        specReference: 'EIP-4626 asset: the address of the underlying token used for the Vault for accounting, depositing, and withdrawing',
+        steps: [
+          this.step('asset', 'asset()', [], {
+            expectations: [{ type: 'returnValue', operator: 'neq', expected: ethers.ZeroAddress }]
+          })
+        ]
+      },
+      {
+        name: 'redeem above maxRedeem',
+        description: 'Redeeming more shares than the owner can redeem is rejected',
+        expectedResult: 'redeem reverts',
+        specReference: 'EIP-4626 redeem: MUST revert if all of shares cannot be redeemed',
+        steps: [
+          this.step('redeem', 'redeem(uint256,address,address)', [ethers.MaxUint256.toString(), SENDER, SENDER], {
+            expectedOutcome: 'revert'
+          })
+        ]
+      },
+      {
+        name: 'withdraw above maxWithdraw',
+        description: 'Withdrawing more assets than the owner can withdraw is rejected',
+        expectedResult: 'withdraw reverts',
+        specReference: 'EIP-4626 withdraw: MUST revert if all of assets cannot be withdrawn',
+        steps: [
+          this.step('withdraw', 'withdraw(uint256,address,address)', [ethers.MaxUint256.toString(), SENDER, SENDER], {
+            expectedOutcome: 'revert'
+          })
+        ]
+      }
+    ];
+
+    // Previews must round against the caller relative to the fee-free conversion
+    for (const amount of VAULT_AMOUNTS) {
+      specs.push(
+        {
+          name: `previewDeposit rounds down (${amount} assets)`,
+          description: 'Depositing never mints more shares than the ideal conversion',
+          expectedResult: 'previewDeposit(assets) <= convertToShares(assets)',
+          specReference: 'EIP-4626 previewDeposit: MUST return as close to and no more than the exact amount of shares minted in a deposit; rounding favours the Vault',
+          steps: [
+            this.step('convert', 'convertToShares(uint256)', [amount]),
+            this.step('preview', 'previewDeposit(uint256)', [amount], {
+              expectations: [{ type: 'returnValue', operator: 'lte', expected: { stepRef: 'convert' } }]
+            })
+          ]
+        },
+        {
+          name: `previewMint rounds up (${amount} shares)`,
+          description: 'Minting never costs fewer assets than the ideal conversion',
+          expectedResult: 'previewMint(shares) >= convertToAssets(shares)',
+          specReference: 'EIP-4626 previewMint: MUST return as close to and no fewer than the exact amount of assets deposited in a mint; rounding favours the Vault',
+          steps: [
+            this.step('convert', 'convertToAssets(uint256)', [amount]),
+            this.step('preview', 'previewMint(uint256)', [amount], {
+              expectations: [{ type: 'returnValue', operator: 'gte', expected: { stepRef: 'convert' } }]
+            })
+          ]
+        },
+        {
+          name: `previewWithdraw rounds up (${amount} assets)`,
+          description: 'Withdrawing never burns fewer shares than the ideal conversion',
+          expectedResult: 'previewWithdraw(assets) >= convertToShares(assets)',
+          specReference: 'EIP-4626 previewWithdraw: MUST return as close to and no fewer than the exact amount of shares burned in a withdraw; rounding favours the Vault',
+          steps: [
+            this.step('convert', 'convertToShares(uint256)', [amount]),
+            this.step('preview', 'previewWithdraw(uint256)', [amount], {
+              expectations: [{ type: 'returnValue', operator: 'gte', expected: { stepRef: 'convert' } }]
+            })
+          ]
+        },
+        {
+          name: `previewRedeem rounds down (${amount} shares)`,
+          description: 'Redeeming never pays out more assets than the ideal conversion',
+          expectedResult: 'previewRedeem(shares) <= convertToAssets(shares)',
+          specReference: 'EIP-4626 previewRedeem: MUST return as close to and no more than the exact amount of assets withdrawn in a redeem; rounding favours the Vault',
+          steps: [
+            this.step('convert', 'convertToAssets(uint256)', [amount]),
+            this.step('preview', 'previewRedeem(uint256)', [amount], {
+              expectations: [{ type: 'returnValue', operator: 'lte', expected: { stepRef: 'convert' } }]
+            })
+          ]
+        }
+      );
+    }
+    return specs;
+  }
+
+  private interfaceCase(standard: 'ERC-721' | 'ERC-1155', specReference: string): CaseSpec {
+    return {
+      name: 'ERC-165 interface detection',
+      description: `supportsInterface reports ERC-165 and ${standard}, and rejects the invalid id 0xffffffff`,
+      expectedResult: 'supportsInterface is true for the standard ids and false for 0xffffffff',
+      specReference,
+      steps: [
+        this.step('erc165', 'supportsInterface(bytes4)', [INTERFACE_IDS['ERC-165']], {
+          expectations: [{ type: 'returnValue', operator: 'eq', expected: true }]
+        }),
+        this.step('standard', 'supportsInterface(bytes4)', [INTERFACE_IDS[standard]], {
+          expectations: [{ type: 'returnValue', operator: 'eq', expected: true }]
+        }),
+        this.step('invalid', 'supportsInterface(bytes4)', ['0xffffffff'], {
+          expectations: [{ type: 'returnValue', operator: 'eq', expected: false }]
+        })
+      ]
+    };
+  }
+
+  private approvalForAllCase(specReference: string): CaseSpec {
+    return {
+      name: 'operator approval',
+      description: 'setApprovalForAll emits ApprovalForAll and isApprovedForAll reflects it',
+      expectedResult: 'ApprovalForAll(sender, operator, true) is emitted and isApprovedForAll returns true',
+      specReference,
+      steps: [
+        this.step('approve-all', 'setApprovalForAll(address,bool)', [OPERATOR, true], {
+          expectations: [{ type: 'event', event: 'ApprovalForAll', args: [SENDER, OPERATOR, true] }]
+        }),
+        this.step('is-approved', 'isApprovedForAll(address,address)', [SENDER, OPERATOR], {
+          expectations: [{ type: 'returnValue', operator: 'eq', expected: true }]
+        })
+      ]
+    };
+  }
+
+  private step(
+    id: string,
+    signature: string | ethers.FunctionFragment,
+    args: unknown[],
+    extras: Pick<TestStep, 'expectedOutcome' | 'expectations'> = {}
+  ): TestStep {
+    const fragment = typeof signature === 'string' ? this.findFunction(signature) : signature;
+    if (!fragment) {
+      throw new Error(`Function ${String(signature)} not found in ABI`);
+    }
+    return {
+      id,
+      action: 'CONTRACT_CALL',
+      params: {
+        method: fragment.name,
+        contractAddress: this.contractAddress,
+        fragment: JSON.parse(fragment.format('json')),
+        args
+      },
+      description: `Call ${fragment.format()}`,
+      ...extras
+    };
+  }
+
+  private findFunction(signature: string): ethers.FunctionFragment | null {
+    return this.iface.fragments
+      .filter(ethers.Fragment.isFunction)
+      .find(fragment => fragment.format() === signature) ?? null;
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { StorageLayout, StorageVariable, checkStorageLayout } from './StorageLayout';
+
+const TYPES: StorageLayout['types'] = {
+  t_address: { encoding: 'inplace', label: 'address', numberOfBytes: '20' },
+  t_uint256: { encoding: 'inplace', label: 'uint256', numberOfBytes: '32' }
+};
+
+function layout(...variables: [label: string, type: string][]): [string, StorageLayout] {
+  const storage: StorageVariable[] = variables.map(([label, type], index) => ({
+    label,
+    slot: String(index),
+    offset: 0,
+    type,
+    contract: 'Vault.sol:Vault'
+  }));
+  return ['Vault.sol:Vault', { storage, types: TYPES }];
+}
+
+describe('checkStorageLayout', () => {
+  it('accepts appended variables', () => {
+    const report = checkStorageLayout(
+      layout(['owner', 't_address']),
+      layout(['owner', 't_address'], ['fee', 't_uint256'])
+    );
+    expect(report.compatible).toBe(true);
+    expect(report.issues).toEqual([]);
+  });
+
+  it('warns about a rename when the old name is gone', () => {
+    const report = checkStorageLayout(layout(['owner', 't_address']), layout(['admin', 't_address']));
+    expect(report.compatible).toBe(true);
+    expect(report.issues).toMatchObject([{ severity: 'warning', variable: 'owner' }]);
+  });
+
+  it('rejects swapped variables of the same type', () => {
+    const report = checkStorageLayout(
+      layout(['owner', 't_address'], ['admin', 't_address']),
+      layout(['admin', 't_address'], ['owner', 't_address'])
+    );
+    expect(report.compatible).toBe(false);
+    expect(report.issues.map(issue => [issue.severity, issue.variable])).toEqual([['error', 'owner'], ['error', 'admin']]);
+  });
+
+  it('rejects a variable moved into the slot of a removed one', () => {
+    const report = checkStorageLayout(
+      layout(['owner', 't_address'], ['admin', 't_address']),
+      layout(['admin', 't_address'])
+    );
+    expect(report.compatible).toBe(false);
+    expect(report.issues.every(issue => issue.severity === 'error')).toBe(true);
+  });
+
+  it('rejects a retyped variable', () => {
+    const report = checkStorageLayout(layout(['owner', 't_address']), layout(['owner', 't_uint256']));
+    expect(report.compatible).toBe(false);
+  });
+});
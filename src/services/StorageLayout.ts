@@ -0,0 +1,194 @@
+import { SolidityCompiler } from './SolidityCompiler';
+import { CompilerOutput, compileStandardJson } from './ArtifactLoader';
+import { LayoutIssue, StorageLayoutReport } from '../types/Differential';
+
+// solc's storageLayout output for one contract
+export interface StorageLayout {
+  storage: StorageVariable[];
+  // Null for contracts without state variables
+  types: Record<string, StorageType> | null;
+}
+
+export interface StorageVariable {
+  label: string;
+  // Decimal string, slots are uint256
+  slot: string;
+  offset: number;
+  // Key into types; ids embed AST ids, so they differ between compilations
+  type: string;
+  contract: string;
+}
+
+export interface StorageType {
+  encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes';
+  label: string;
+  numberOfBytes: string;
+  members?: StorageVariable[];
+  base?: string;
+  key?: string;
+  value?: string;
+}
+
+interface LayoutOutput extends CompilerOutput {
+  contracts?: Record<string, Record<string, { storageLayout?: StorageLayout; evm?: { bytecode?: { object?: string } } }>>;
+}
+
+// Layouts of every deployable contract in the sources, keyed by sourceName:contractName
+export async function compileStorageLayouts(
+  compiler: SolidityCompiler,
+  sources: Record<string, string>
+): Promise<Map<string, StorageLayout>> {
+  const output = await compileStandardJson<LayoutOutput>(compiler, sources, { '*': { '*': ['storageLayout', 'evm.bytecode.object'] } });
+  const layouts = new Map<string, StorageLayout>();
+  for (const [sourceName, contracts] of Object.entries(output.contracts ?? {})) {
+    for (const [contractName, contract] of Object.entries(contracts)) {
+      if (!contract.storageLayout || !contract.evm?.bytecode?.object) continue;
+      layouts.set(`${sourceName}:${contractName}`, contract.storageLayout);
+    }
+  }
+  return layouts;
+}
+
+// Picks a layout by contractName or sourceName:contractName; without a name, the contract with the most state
+// variables, since the most derived contract of an implementation holds the variables of all its bases
+export function selectLayout(layouts: Map<string, StorageLayout>, name?: string): [string, StorageLayout] {
+  const entries = [...layouts];
+  if (name) {
+    const match = entries.find(([id]) => id === name || id.split(':').pop() === name);
+    if (!match) {
+      throw new Error(`No deployable contract named ${name}; found ${entries.map(([id]) => id).join(', ') || 'none'}`);
+    }
+    return match;
+  }
+  if (entries.length === 0) {
+    throw new Error('The sources contain no deployable contract');
+  }
+  return entries.reduce((best, entry) => entry[1].storage.length >= best[1].storage.length ? entry : best);
+}
+
+// Checks that the candidate implementation reads every variable of the baseline where the baseline wrote it.
+// Appending variables is fine, as is spending part of a __gap array on new variables as long as the gap still ends
+// where it did; removing, moving, reordering or retyping existing variables corrupts the proxy's storage
+export function checkStorageLayout(
+  baseline: [string, StorageLayout],
+  candidate: [string, StorageLayout]
+): StorageLayoutReport {
+  const [baselineContract, before] = baseline;
+  const [candidateContract, after] = candidate;
+  const issues: LayoutIssue[] = [];
+
+  for (const variable of before.storage) {
+    const { label, slot } = variable;
+    if (isGap(variable)) {
+      const gap = after.storage.find(other => other.label === label);
+      if (!gap) {
+        issues.push({ severity: 'warning', variable: label, slot, message: `Storage gap ${label} was removed, leaving no room for later variables of ${variable.contract}` });
+      } else if (endSlot(gap, after) !== endSlot(variable, before)) {
+        issues.push({
+          severity: 'error',
+          variable: label,
+          slot,
+          message: `Storage gap ${label} now ends at slot ${endSlot(gap, after)} instead of ${endSlot(variable, before)}, shifting every variable after it`
+        });
+      }
+      continue;
+    }
+
+    const counterpart = after.storage.find(other => other.slot === slot && other.offset === variable.offset && !isGap(other));
+    if (!counterpart) {
+      const moved = after.storage.find(other => other.label === label && other.contract === variable.contract);
+      issues.push(moved
+        ? { severity: 'error', variable: label, slot, message: `${label} moved from slot ${slot} offset ${variable.offset} to slot ${moved.slot} offset ${moved.offset}` }
+        : { severity: 'error', variable: label, slot, message: `${label} was removed; its slot ${slot} would be read as ${describeOccupant(after, slot)}` });
+      continue;
+    }
+    const beforeType = typeOf(before, variable.type);
+    const afterType = typeOf(after, counterpart.type);
+    if (!compatible(before, variable.type, after, counterpart.type, false)) {
+      issues.push({
+        severity: 'error',
+        variable: label,
+        slot,
+        message: `${label} changes type from ${beforeType?.label ?? variable.type} to ${afterType?.label ?? counterpart.type}`
+      });
+    } else if (counterpart.label !== label) {
+      // A rename only when the old name is gone; otherwise the variables were reordered and read each other's values
+      const moved = after.storage.find(other => other.label === label && other.contract === variable.contract);
+      const displaced = before.storage.find(other => other.label === counterpart.label && other.contract === counterpart.contract);
+      if (moved) {
+        issues.push({ severity: 'error', variable: label, slot, message: `${label} moved from slot ${slot} offset ${variable.offset} to slot ${moved.slot} offset ${moved.offset}; ${counterpart.label} now reads its value` });
+      } else if (displaced) {
+        issues.push({ severity: 'error', variable: label, slot, message: `${counterpart.label} moved from slot ${displaced.slot} offset ${displaced.offset} into the slot of ${label}, which was removed` });
+      } else {
+        issues.push({ severity: 'warning', variable: label, slot, message: `${label} is renamed to ${counterpart.label}; the stored value carries over` });
+      }
+    }
+  }
+
+  return {
+    baselineContract,
+    candidateContract,
+    compatible: !issues.some(issue => issue.severity === 'error'),
+    issues
+  };
+}
+
+function isGap(variable: StorageVariable): boolean {
+  return variable.label.startsWith('__gap');
+}
+
+function typeOf(layout: StorageLayout, type: string): StorageType | undefined {
+  return layout.types?.[type];
+}
+
+// First slot after the variable
+function endSlot(variable: StorageVariable, layout: StorageLayout): string {
+  const bytes = BigInt(typeOf(layout, variable.type)?.numberOfBytes ?? '32');
+  return (BigInt(variable.slot) + (bytes + 31n) / 32n).toString();
+}
+
+function describeOccupant(layout: StorageLayout, slot: string): string {
+  const occupants = layout.storage.filter(variable => variable.slot === slot).map(variable => variable.label);
+  return occupants.length > 0 ? occupants.join(', ') : 'nothing';
+}
+
+// Type ids embed AST ids, so types are compared by structure. Growth (longer structs) is allowed only where the
+// type does not sit in place, i.e. as a mapping value or dynamic array element
+function compatible(before: StorageLayout, beforeId: string, after: StorageLayout, afterId: string, allowGrowth: boolean): boolean {
+  const a = typeOf(before, beforeId);
+  const b = typeOf(after, afterId);
+  if (!a || !b) return beforeId === afterId;
+  if (a.encoding !== b.encoding) return false;
+
+  switch (a.encoding) {
+    case 'mapping':
+      return compatible(before, a.key ?? '', after, b.key ?? '', false)
+        && compatible(before, a.value ?? '', after, b.value ?? '', true);
+    case 'dynamic_array':
+      return compatible(before, a.base ?? '', after, b.base ?? '', true);
+    case 'bytes':
+      return a.label === b.label;
+  }
+
+  if (a.members) {
+    if (!b.members || b.members.length < a.members.length) return false;
+    if (!allowGrowth && b.numberOfBytes !== a.numberOfBytes) return false;
+    return a.members.every((member, index) => {
+      const other = b.members?.[index];
+      return other !== undefined && other.slot === member.slot && other.offset === member.offset
+        && compatible(before, member.type, after, other.type, false);
+    });
+  }
+  if (b.numberOfBytes !== a.numberOfBytes) return false;
+  if (a.base) {
+    return b.base !== undefined && compatible(before, a.base, after, b.base, false);
+  }
+  // Addresses keep their meaning when typed as a contract or interface, and enums of the same size keep their values
+  return a.label === b.label
+    || (isAddressLike(a.label) && isAddressLike(b.label))
+    || (a.label.startsWith('enum ') && b.label.startsWith('enum '));
+}
+
+function isAddressLike(label: string): boolean {
+  return label === 'address' || label === 'address payable' || label.startsWith('contract ');
+}
@@ -0,0 +1,124 @@
+import { ethers } from 'ethers';
+import YAML from 'yaml';
+import { TestCase } from '../types/TestCase';
+import { SUITE_SCHEMA_VERSION, TestSuite } from '../types/TestSuite';
+import { validateTestCases } from './TestCaseValidator';
+import { stableId, uniqueIds } from '../utils/ids';
+import { stringify } from '../utils/format';
+
+export type SuiteFormat = 'json' | 'yaml';
+
+export interface SuiteOptions {
+  network?: string;
+  abi?: ethers.JsonFragment[];
+  createdAt?: string;
+}
+
+// Saving a suite under the same name for the same contract overwrites the stored one
+export function suiteId(contractAddress: string, name: string): string {
+  return stableId('suite', contractAddress.toLowerCase(), name);
+}
+
+export function createSuite(
+  name: string,
+  contractAddress: string,
+  testCases: TestCase[],
+  options: SuiteOptions = {}
+): TestSuite {
+  const now = new Date().toISOString();
+  return {
+    schemaVersion: SUITE_SCHEMA_VERSION,
+    id: suiteId(contractAddress, name),
+    name,
+    contractAddress,
+    network: options.network,
+    abi: options.abi,
+    testCases: uniqueIds(testCases.map(toStoredCase)),
+    createdAt: options.createdAt ?? now,
+    updatedAt: now
+  };
+}
+
+export function serializeSuite(suite: TestSuite, format: SuiteFormat): string {
+  const stored: TestSuite = { ...suite, testCases: suite.testCases.map(toStoredCase) };
+  // Drop undefined fields and turn bigints into strings before either encoder sees them
+  const plain = JSON.parse(stringify(stored));
+  return format === 'yaml' ? YAML.stringify(plain) : JSON.stringify(plain, null, 2) + '\n';
+}
+
+// Parses and checks a suite file; cases are re-validated against the suite's ABI when it has one
+export function parseSuite(text: string, format: SuiteFormat = detectFormat(text)): TestSuite {
+  let parsed: unknown;
+  try {
+    parsed = format === 'yaml' ? YAML.parse(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Suite is not valid ${format.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Suite must be an object');
+  }
+
+  const suite = parsed as Partial<TestSuite>;
+  if (typeof suite.schemaVersion !== 'number') {
+    throw new Error('Suite has no schemaVersion');
+  }
+  if (suite.schemaVersion > SUITE_SCHEMA_VERSION) {
+    throw new Error(`Suite uses schema version ${suite.schemaVersion}; this version supports up to ${SUITE_SCHEMA_VERSION}`);
+  }
+  if (typeof suite.name !== 'string' || suite.name.trim() === '') {
+    throw new Error('Suite has no name');
+  }
+  if (typeof suite.contractAddress !== 'string' || !ethers.isAddress(suite.contractAddress)) {
+    throw new Error(`Suite has invalid contract address ${String(suite.contractAddress)}`);
+  }
+  if (!Array.isArray(suite.testCases)) {
+    throw new Error('Suite has no testCases array');
+  }
+  if (suite.testCases.some(testCase => typeof testCase?.id !== 'string')) {
+    throw new Error('Every test case in a suite needs a string id');
+  }
+
+  let testCases = suite.testCases;
+  if (suite.abi) {
+    const { valid, rejected } = validateTestCases(testCases, suite.abi);
+    if (rejected.length > 0) {
+      throw new Error(`Suite has invalid test cases: ${rejected.map(item => `${item.name} (${item.reason})`).join('; ')}`);
+    }
+    testCases = valid;
+  }
+
+  const created = createSuite(suite.name, suite.contractAddress, testCases, {
+    network: suite.network,
+    abi: suite.abi,
+    createdAt: suite.createdAt
+  });
+  return { ...created, id: typeof suite.id === 'string' ? suite.id : created.id, updatedAt: suite.updatedAt ?? created.updatedAt };
+}
+
+// Points a suite written for one deployment at another, e.g. a fresh local deployment
+export function retargetTestCases(testCases: TestCase[], from: string, to: string): TestCase[] {
+  if (from.toLowerCase() === to.toLowerCase()) {
+    return testCases;
+  }
+  return testCases.map(testCase => ({
+    ...testCase,
+    steps: testCase.steps.map(step =>
+      step.params.contractAddress.toLowerCase() === from.toLowerCase()
+        ? { ...step, params: { ...step.params, contractAddress: to } }
+        : step
+    )
+  }));
+}
+
+export function formatFromFileName(fileName: string): SuiteFormat {
+  return /\.ya?ml$/i.test(fileName) ? 'yaml' : 'json';
+}
+
+function detectFormat(text: string): SuiteFormat {
+  return text.trimStart().startsWith('{') ? 'json' : 'yaml';
+}
+
+// Run state is not part of a suite
+function toStoredCase(testCase: TestCase): TestCase {
+  return { ...testCase, actualResult: undefined, status: 'pending' };
+}
@@ -0,0 +1,66 @@
+import { SuiteSummary, TestSuite } from '../types/TestSuite';
+
+export interface SuiteStore {
+  list(): Promise<SuiteSummary[]>;
+  load(id: string): Promise<TestSuite | undefined>;
+  save(suite: TestSuite): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+const DB_NAME = 'dapp-test-ai';
+const DB_VERSION = 1;
+const SUITES = 'suites';
+
+// Browser persistence; suites survive reloads and are keyed by their stable id
+export class IndexedDbSuiteStore implements SuiteStore {
+  private database?: Promise<IDBDatabase>;
+
+  async list(): Promise<SuiteSummary[]> {
+    const suites = await this.request<TestSuite[]>('readonly', store => store.getAll());
+    return suites
+      .map(suite => ({
+        id: suite.id,
+        name: suite.name,
+        contractAddress: suite.contractAddress,
+        network: suite.network,
+        updatedAt: suite.updatedAt,
+        caseCount: suite.testCases.length
+      }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async load(id: string): Promise<TestSuite | undefined> {
+    return this.request<TestSuite | undefined>('readonly', store => store.get(id));
+  }
+
+  async save(suite: TestSuite): Promise<void> {
+    await this.request('readwrite', store => store.put(suite));
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const database = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = run(database.transaction(SUITES, mode).objectStore(SUITES));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(SUITES, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,277 @@
+import { ethers } from 'ethers';
+import { TestCase, TestStep } from '../types/TestCase';
+import { Assertion } from '../types/Assertion';
+import { isActorName } from './ActorRegistry';
+import { ATTACKER_KINDS, RELAY_ATTACKERS } from './AttackerLibrary';
+import { CHAIN_ACTIONS } from './LocalChain';
+
+export interface RejectedTestCase {
+  name: string;
+  reason: string;
+}
+
+export interface ValidationResult {
+  valid: TestCase[];
+  rejected: RejectedTestCase[];
+}
+
+const ASSERTION_TYPES: Assertion['type'][] = ['returnValue', 'event', 'balanceDelta', 'storage', 'revert'];
+const EXPECTED_OUTCOMES = ['success', 'revert', 'either'];
+const ATTACK_GOALS = ['reentrancy', 'dos'];
+
+// Checks generated cases against the ABI and pins each step to the exact function fragment it calls
+export function validateTestCases(testCases: TestCase[], abi: ethers.InterfaceAbi): ValidationResult {
+  const iface = ethers.Interface.from(abi);
+  const result: ValidationResult = { valid: [], rejected: [] };
+
+  for (const testCase of testCases) {
+    try {
+      result.valid.push(validateTestCase(testCase, iface));
+    } catch (error) {
+      result.rejected.push({
+        name: typeof testCase?.name === 'string' ? testCase.name : '(unnamed test case)',
+        reason: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+  return result;
+}
+
+function validateTestCase(testCase: TestCase, iface: ethers.Interface): TestCase {
+  if (typeof testCase.name !== 'string' || testCase.name.trim() === '') {
+    throw new Error('Test case has no name');
+  }
+  if (!Array.isArray(testCase.steps) || testCase.steps.length === 0) {
+    throw new Error('Test case has no steps');
+  }
+
+  const attack = testCase.attack;
+  if (attack !== undefined) {
+    if (!Array.isArray(attack.attackers) || attack.attackers.some(kind => !ATTACKER_KINDS.includes(kind))) {
+      throw new Error(`Test case deploys unknown attackers; expected some of ${ATTACKER_KINDS.join(', ')}`);
+    }
+    if (!ATTACK_GOALS.includes(attack.goal)) {
+      throw new Error(`Test case has unknown attack goal ${String(attack.goal)}`);
+    }
+  }
+
+  const seenSteps = new Set<string>();
+  const steps = testCase.steps.map(step => {
+    const validated = validateStep(step, iface, seenSteps, attack?.attackers ?? []);
+    seenSteps.add(step.id);
+    return validated;
+  });
+  return { ...testCase, steps, status: 'pending' };
+}
+
+function validateStep(step: TestStep, iface: ethers.Interface, earlierSteps: Set<string>, attackers: string[]): TestStep {
+  if (typeof step.id !== 'string' || earlierSteps.has(step.id)) {
+    throw new Error(`Step ids must be unique strings, got ${String(step.id)}`);
+  }
+  if (step.action !== 'CONTRACT_CALL') {
+    if (!CHAIN_ACTIONS.includes(step.action)) {
+      throw new Error(`Step ${step.id} has unsupported action ${String(step.action)}`);
+    }
+    return validateChainStep(step, earlierSteps);
+  }
+  if (!Array.isArray(step.params?.args)) {
+    throw new Error(`Step ${step.id} has no argument list`);
+  }
+  const actor = step.params.actor;
+  if (actor !== undefined && !(typeof actor === 'string' && (isActorName(actor) || ethers.isAddress(actor)))) {
+    throw new Error(`Step ${step.id} is sent by unknown actor ${String(actor)}`);
+  }
+  if (step.expectedOutcome !== undefined && !EXPECTED_OUTCOMES.includes(step.expectedOutcome)) {
+    throw new Error(`Step ${step.id} has unknown expected outcome ${step.expectedOutcome}`);
+  }
+
+  const fragment = resolveFragment(step, iface);
+  const value = step.params.value;
+  if (value !== undefined && !(typeof value === 'string' && /^\d+$/.test(value))) {
+    throw new Error(`Step ${step.id} sends invalid value ${String(value)}; expected wei as a decimal string`);
+  }
+  if (value !== undefined && BigInt(value) > 0n && !fragment.payable) {
+    throw new Error(`Step ${step.id} sends ether to ${fragment.format()}, which is not payable`);
+  }
+  const via = step.params.via;
+  if (via !== undefined && !(RELAY_ATTACKERS.includes(via) && attackers.includes(via))) {
+    throw new Error(`Step ${step.id} routes through ${String(via)}, which is not a relay attacker the case deploys`);
+  }
+  if (via !== undefined && fragment.constant) {
+    throw new Error(`Step ${step.id} routes view function ${fragment.name} through an attacker`);
+  }
+  const references = collectReferences(step.params.args);
+  for (const reference of references) {
+    if (!earlierSteps.has(reference)) {
+      throw new Error(`Step ${step.id} refers to unknown or later step ${reference}`);
+    }
+  }
+  // Arguments that depend on earlier outputs or on accounts can only be encoded at run time
+  if (references.length === 0 && !hasAddressReference(step.params.args)) {
+    try {
+      iface.encodeFunctionData(fragment, step.params.args);
+    } catch (error) {
+      const reason = ethers.isError(error, 'INVALID_ARGUMENT') ? error.shortMessage : String(error);
+      throw new Error(`Invalid arguments for ${fragment.format()}: ${reason}`);
+    }
+  }
+
+  for (const assertion of step.expectations ?? []) {
+    validateAssertion(assertion, fragment, iface, step.id);
+  }
+
+  return {
+    ...step,
+    params: { ...step.params, method: fragment.name, fragment: JSON.parse(fragment.format('json')) }
+  };
+}
+
+// Chain steps call nothing, so they are checked for the parameters their action needs
+function validateChainStep(step: TestStep, earlierSteps: Set<string>): TestStep {
+  const params = step.params ?? {};
+  if (step.expectations?.length) {
+    throw new Error(`Step ${step.id} has expectations, but ${step.action} steps have no outcome to check`);
+  }
+  if (step.expectedOutcome === 'revert') {
+    throw new Error(`Step ${step.id} expects ${step.action} to revert`);
+  }
+  if (params.offset !== undefined && !Number.isInteger(params.offset)) {
+    throw new Error(`Step ${step.id} has invalid offset ${String(params.offset)}`);
+  }
+
+  switch (step.action) {
+    case 'INCREASE_TIME':
+      validateQuantity(step, 'seconds', earlierSteps);
+      break;
+    case 'SET_NEXT_BLOCK_TIMESTAMP':
+      validateQuantity(step, 'timestamp', earlierSteps);
+      break;
+    case 'MINE_BLOCKS':
+      if (!(Number.isInteger(params.blocks) && Number(params.blocks) > 0)) {
+        throw new Error(`Step ${step.id} mines ${String(params.blocks)} blocks; expected a positive integer`);
+      }
+      break;
+    case 'SET_NEXT_BLOCK_BASE_FEE':
+      validateWei(step, 'baseFee');
+      break;
+    case 'IMPERSONATE':
+    case 'STOP_IMPERSONATING':
+      if (!(typeof params.account === 'string' && ethers.isAddress(params.account))) {
+        throw new Error(`Step ${step.id} impersonates invalid address ${String(params.account)}`);
+      }
+      break;
+    case 'SET_BALANCE':
+      validateAccount(step);
+      validateWei(step, 'balance');
+      break;
+    case 'SET_STORAGE':
+      if (params.account === undefined && !ethers.isAddress(params.contractAddress)) {
+        throw new Error(`Step ${step.id} sets storage without an account or contract address`);
+      }
+      if (params.account !== undefined) {
+        validateAccount(step);
+      }
+      for (const key of ['slot', 'storageValue'] as const) {
+        if (!(typeof params[key] === 'string' && /^(\d+|0x[0-9a-fA-F]{1,64})$/.test(params[key]))) {
+          throw new Error(`Step ${step.id} has invalid ${key} ${String(params[key])}; expected a decimal or hex string`);
+        }
+      }
+      break;
+  }
+  return { ...step, params: { ...params, args: [] } };
+}
+
+function validateQuantity(step: TestStep, key: 'seconds' | 'timestamp', earlierSteps: Set<string>) {
+  const value = step.params[key];
+  if (typeof value === 'object' && value !== null && 'stepRef' in value) {
+    if (!earlierSteps.has(value.stepRef)) {
+      throw new Error(`Step ${step.id} refers to unknown or later step ${value.stepRef}`);
+    }
+    return;
+  }
+  if (!((typeof value === 'number' && Number.isInteger(value) && value >= 0) || (typeof value === 'string' && /^\d+$/.test(value)))) {
+    throw new Error(`Step ${step.id} has invalid ${key} ${String(value)}; expected a non-negative integer or a step reference`);
+  }
+}
+
+function validateWei(step: TestStep, key: 'baseFee' | 'balance') {
+  const value = step.params[key];
+  if (!(typeof value === 'string' && /^\d+$/.test(value))) {
+    throw new Error(`Step ${step.id} has invalid ${key} ${String(value)}; expected wei as a decimal string`);
+  }
+}
+
+function validateAccount(step: TestStep) {
+  const account = step.params.account;
+  if (!(typeof account === 'string' && (isActorName(account) || ethers.isAddress(account)))) {
+    throw new Error(`Step ${step.id} targets unknown account ${String(account)}`);
+  }
+}
+
+function resolveFragment(step: TestStep, iface: ethers.Interface): ethers.FunctionFragment {
+  const functions = iface.fragments.filter(ethers.Fragment.isFunction);
+
+  if (step.params.fragment) {
+    const signature = ethers.FunctionFragment.from(step.params.fragment).format();
+    const known = functions.find(item => item.format() === signature);
+    if (!known) {
+      throw new Error(`Step ${step.id} calls ${signature}, which is not in the ABI`);
+    }
+    return known;
+  }
+
+  const method = String(step.params.method);
+  const named = functions.filter(item => item.name === method || item.format() === method);
+  if (named.length === 0) {
+    throw new Error(`Step ${step.id} calls unknown method ${method}`);
+  }
+  const matching = named.filter(item => item.inputs.length === step.params.args.length);
+  if (matching.length === 0) {
+    throw new Error(`${method} expects ${named[0].inputs.length} arguments, step ${step.id} passes ${step.params.args.length}`);
+  }
+  if (matching.length > 1) {
+    throw new Error(`Step ${step.id} calls overloaded ${method}; use the full signature`);
+  }
+  return matching[0];
+}
+
+function validateAssertion(
+  assertion: Assertion,
+  fragment: ethers.FunctionFragment,
+  iface: ethers.Interface,
+  stepId: string
+) {
+  if (!ASSERTION_TYPES.includes(assertion?.type)) {
+    throw new Error(`Step ${stepId} has unknown assertion type ${String(assertion?.type)}`);
+  }
+  if (assertion.type === 'returnValue' && !fragment.constant) {
+    throw new Error(`Step ${stepId} checks the return value of ${fragment.name}, which is not a view function`);
+  }
+  if (assertion.type === 'event' && !assertion.event.includes('(') && !iface.getEvent(assertion.event)) {
+    throw new Error(`Step ${stepId} expects unknown event ${assertion.event}`);
+  }
+  if (
+    assertion.type === 'balanceDelta' &&
+    typeof assertion.account === 'string' &&
+    !ethers.isAddress(assertion.account)
+  ) {
+    throw new Error(`Step ${stepId} tracks the balance of invalid address ${assertion.account}`);
+  }
+}
+
+function collectReferences(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(collectReferences);
+  }
+  if (typeof value === 'object' && value !== null && 'stepRef' in value) {
+    return [String((value as { stepRef: unknown }).stepRef)];
+  }
+  return [];
+}
+
+function hasAddressReference(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.some(hasAddressReference);
+  }
+  return typeof value === 'object' && value !== null && 'addressOf' in value;
+}
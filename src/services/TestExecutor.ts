@@ -1,47 +1,529 @@
 import { ethers } from 'ethers';
-import { TestCase, TestResult } from '../types/TestCase';
+import { AttackReport, AttackerKind, ChainQuantity, FuzzConfig, StepReceipt, StepResult, TestCase, TestResult, TestStep } from '../types/TestCase';
+import { AddressReference, AssertionResult, StepReference } from '../types/Assertion';
+import { ActorRegistry, isActorName } from './ActorRegistry';
+import { CallTracer, InterfaceLookup, decodeEvents, findRevertFrame } from './CallTracer';
+import { CoverageCollector } from './CoverageCollector';
+import { AssertionEngine, StepOutcome, resolveExpected } from './AssertionEngine';
+import { AttackerHoldings, AttackerLibrary, DeployedAttackers } from './AttackerLibrary';
+import { FuzzCampaign } from './FuzzCampaign';
+import { InvariantCampaignOptions, InvariantReport, InvariantTester, findViolation } from './InvariantTester';
+import { LocalChain, LocalChainOptions } from './LocalChain';
+import { BUILTIN_NETWORKS, DEFAULT_NETWORK_ID, LOCAL_NETWORK_ID } from './NetworkRegistry';
+import { NetworkConfig } from '../types/Network';
+import { PlannedTransaction, TransactionPreview, WalletState } from '../types/Wallet';
+import { decodeRevert, describeRevert, isAssertionPanic } from './RevertDecoder';
+import { errorMessage, stringify } from '../utils/format';
+import { Deadline, TimeoutError } from '../utils/async';
+import { InjectedProvider, isUserRejection } from './WalletConnection';
+
+// Raised when a step runs but its outcome does not match what the test expects
+class StepFailure extends Error {
+  constructor(message: string, public failedAssertion?: AssertionResult) {
+    super(message);
+  }
+}
+
+export interface ExecutionOptions {
+  // Aborting fails the running step and stops the test
+  signal?: AbortSignal;
+  // Upper bound for all RPC work of a single step
+  stepTimeoutMs?: number;
+  // Asked once per case, before the connected wallet signs any of the case's transactions
+  confirm?: (transactions: PlannedTransaction[]) => Promise<boolean>;
+  // Traces every contract call of the test into the collector, reverted ones included; local chains only
+  coverage?: CoverageCollector;
+  // Records each transaction's native balance changes on its step result, e.g. to compare two deployments
+  trackBalances?: boolean;
+}
 
 export class TestExecutor {
   private provider: ethers.Provider;
-  private signer: ethers.Wallet;
+  // Wallets kept across public network switches, and the actors signing on the current backend
+  private remoteActors = ActorRegistry.withRandomWallets();
+  private actors: ActorRegistry;
+  private interfaces = new Map<string, ethers.Interface>();
+  private localChain?: LocalChain;
+  private attackerLibrary?: AttackerLibrary;
+
+  // Network the provider was connected to with connectNetwork, if any
+  private network?: NetworkConfig;
+  // Account of the injected wallet signing as deployer and owner, if one is connected
+  private walletAccount?: string;
 
   constructor() {
-    // Initialize with default Ethereum mainnet provider and a random wallet
-    this.provider = new ethers.JsonRpcProvider('https://eth-mainnet.g.alchemy.com/v2/demo');
-    this.signer = ethers.Wallet.createRandom().connect(this.provider);
-  }
-
-  setProvider(network: string) {
-    const networks = {
-      mainnet: 'https://eth-mainnet.g.alchemy.com/v2/demo',
-      goerli: 'https://eth-goerli.g.alchemy.com/v2/demo',
-      sepolia: 'https://eth-sepolia.g.alchemy.com/v2/demo',
-      polygon: 'https://polygon-mainnet.g.alchemy.com/v2/demo',
-      mumbai: 'https://polygon-mumbai.g.alchemy.com/v2/demo'
+    // Initialize with default Ethereum mainnet provider and random actor wallets
+    const mainnet = BUILTIN_NETWORKS.find(network => network.id === DEFAULT_NETWORK_ID) as NetworkConfig;
+    this.provider = new ethers.JsonRpcProvider(mainnet.rpcUrl);
+    this.actors = this.remoteActors.connect(this.provider);
+  }
+
+  // Switches to a remote network after checking its endpoint serves the expected chain
+  async connectNetwork(network: NetworkConfig): Promise<void> {
+    if (network.id === LOCAL_NETWORK_ID || network.chainId === undefined) {
+      throw new Error(`${network.name} has no chain id to verify; local nodes connect through connectLocalChain`);
+    }
+    if (!this.localChain && !this.walletAccount && this.network?.id === network.id && this.network.rpcUrl === network.rpcUrl) {
+      return;
+    }
+    // A static network skips ethers' detection loop, which retries an unreachable endpoint forever
+    const provider = new ethers.JsonRpcProvider(network.rpcUrl, undefined, {
+      staticNetwork: ethers.Network.from(network.chainId)
+    });
+    const chainId = Number(await provider.send('eth_chainId', []));
+    if (chainId !== network.chainId) {
+      provider.destroy();
+      throw new Error(`${network.rpcUrl} serves chain ${chainId}, but ${network.name} is chain ${network.chainId}`);
+    }
+
+    this.provider = provider;
+    this.network = network;
+    this.localChain = undefined;
+    this.walletAccount = undefined;
+    // Reconnect the existing wallets to the new provider
+    this.actors = this.remoteActors.connect(this.provider);
+  }
+
+  // Sends and reads through an injected EIP-1193 wallet on whatever chain it is on. Called again after
+  // the user switches account or chain, since ethers providers are bound to one network
+  async connectWallet(wallet: InjectedProvider): Promise<WalletState> {
+    const provider = new ethers.BrowserProvider(wallet);
+    const signer = await provider.getSigner();
+    const account = await signer.getAddress();
+    const chainId = Number((await provider.getNetwork()).chainId);
+
+    this.provider = provider;
+    this.network = undefined;
+    this.localChain = undefined;
+    this.walletAccount = account;
+    this.actors = ActorRegistry.withWallet(signer, this.remoteActors.connect(provider));
+    return { account, chainId };
+  }
+
+  getProvider(): ethers.Provider {
+    return this.provider;
+  }
+
+  getWalletAccount(): string | undefined {
+    return this.walletAccount;
+  }
+
+  // Switches execution to a local development node with pre-funded accounts
+  async connectLocalChain(options: LocalChainOptions = {}): Promise<LocalChain> {
+    const chain = new LocalChain(options);
+    await chain.start();
+    this.localChain = chain;
+    this.network = undefined;
+    this.walletAccount = undefined;
+    this.provider = chain.provider;
+    this.actors = ActorRegistry.fromLocalChain(chain);
+    return chain;
+  }
+
+  async getActorAddresses(): Promise<Record<string, string>> {
+    return this.actors.addresses();
+  }
+
+  async getChainId(): Promise<number> {
+    return Number((await this.provider.getNetwork()).chainId);
+  }
+
+  async getCode(address: string): Promise<string> {
+    return this.provider.getCode(address);
+  }
+
+  getLocalChain(): LocalChain | undefined {
+    return this.localChain;
+  }
+
+  async deployContract(abi: ethers.InterfaceAbi, bytecode: string, args: unknown[] = []): Promise<string> {
+    if (!this.localChain) {
+      throw new Error('Deploying from bytecode requires a local chain');
+    }
+    const address = await this.localChain.deploy(abi, bytecode, args, this.actors.get('deployer'));
+    this.registerAbi(address, abi);
+    return address;
+  }
+
+  // Needed by attack cases, which deploy attacker contracts compiled on first use
+  setAttackerLibrary(library: AttackerLibrary) {
+    this.attackerLibrary = library;
+  }
+
+  // Full contract ABIs by address, used to decode events and custom errors of every step
+  registerAbi(address: string, abi: ethers.InterfaceAbi) {
+    this.interfaces.set(address.toLowerCase(), ethers.Interface.from(abi));
+  }
+
+  async executeTest(testCase: TestCase, options: ExecutionOptions = {}): Promise<TestResult> {
+    const refused = this.walletRestriction(testCase);
+    if (refused) {
+      return { testCaseId: testCase.id, success: false, error: refused, logs: [`Error: ${refused}`], timestamp: Date.now() };
+    }
+    if (options.confirm && this.walletAccount) {
+      const rejection = await this.confirmTransactions(testCase, options);
+      if (rejection) {
+        return rejection;
+      }
+      // Confirmed once per case; fuzz cases reaching here are read-only, so their iterations send nothing
+      options = { ...options, confirm: undefined };
+    }
+    if (testCase.fuzz) {
+      return this.runFuzzCampaign(testCase, testCase.fuzz, options);
+    }
+    // Read-only cases leave no state behind, so they skip the snapshot and can run side by side
+    if (!this.localChain || this.isReadOnly(testCase)) {
+      return this.runTest(testCase, options);
+    }
+    // Every test case starts from the same chain state on local backends
+    const snapshotId = await this.localChain.snapshot();
+    try {
+      return await this.runTest(testCase, options);
+    } finally {
+      await this.localChain.revert(snapshotId);
+    }
+  }
+
+  // Every transaction the case would send, estimated against the current chain state; nothing is signed
+  async planTransactions(testCase: TestCase): Promise<PlannedTransaction[]> {
+    return this.planCase(testCase, await this.maxFeePerGas());
+  }
+
+  // Dry run of a suite in wallet mode: what each case sends and what the wallet's share can cost at most
+  async previewTransactions(testCases: TestCase[]): Promise<TransactionPreview> {
+    if (!this.walletAccount) {
+      throw new Error('Connect a wallet to preview its transactions');
+    }
+    const maxFeePerGas = await this.maxFeePerGas();
+    const preview: TransactionPreview = {
+      account: this.walletAccount,
+      chainId: await this.getChainId(),
+      maxFeePerGas: maxFeePerGas.toString(),
+      transactions: [],
+      totalMaxCost: '0',
+      skipped: []
     };
-    
-    this.provider = new ethers.JsonRpcProvider(networks[network] || networks.mainnet);
-    // Reconnect the existing wallet to the new provider
-    this.signer = this.signer.connect(this.provider);
+    let total = 0n;
+    for (const testCase of testCases.filter(item => !item.disabled)) {
+      const unsupported = this.localChainRequirement(testCase) ?? this.walletRestriction(testCase);
+      if (unsupported) {
+        preview.skipped.push({ testCaseName: testCase.name, reason: unsupported });
+        continue;
+      }
+      const planned = await this.planCase(testCase, maxFeePerGas);
+      preview.transactions.push(...planned);
+      for (const transaction of planned) {
+        if (transaction.fromWallet && transaction.maxCost) {
+          total += BigInt(transaction.maxCost);
+        }
+      }
+    }
+    preview.totalMaxCost = total.toString();
+    return preview;
+  }
+
+  // True when every step is a view or pure call
+  isReadOnly(testCase: TestCase): boolean {
+    return testCase.steps.every(step => {
+      if (step.action !== 'CONTRACT_CALL') return false;
+      try {
+        return this.resolveFunction(step).fragment.constant;
+      } catch {
+        return false;
+      }
+    });
   }
 
-  async executeTest(testCase: TestCase): Promise<TestResult> {
+  // Whether a failed run can be repeated without leaving duplicate state behind
+  canRetry(testCase: TestCase): boolean {
+    return this.localChain !== undefined || this.isReadOnly(testCase);
+  }
+
+  // A failed result when the user declines the case's wallet transactions, so nothing of the case is sent
+  private async confirmTransactions(testCase: TestCase, options: ExecutionOptions): Promise<TestResult | undefined> {
+    const planned = (await this.planTransactions(testCase)).filter(transaction => transaction.fromWallet);
+    if (planned.length === 0 || !options.confirm) {
+      return undefined;
+    }
+    if (await new Deadline(undefined, '', options.signal).race(options.confirm(planned))) {
+      return undefined;
+    }
+    const error = `Declined ${planned.length} wallet transactions; nothing was sent`;
+    return { testCaseId: testCase.id, success: false, error, logs: [`Error: ${error}`], timestamp: Date.now() };
+  }
+
+  private async planCase(testCase: TestCase, maxFeePerGas: bigint): Promise<PlannedTransaction[]> {
+    const addresses = await this.actors.addresses();
+    const planned: PlannedTransaction[] = [];
+    for (const step of testCase.steps) {
+      if (step.action !== 'CONTRACT_CALL') continue;
+      const { fragment, iface } = this.resolveFunction(step);
+      if (fragment.constant) continue;
+
+      const from = await (await this.signerFor(step)).getAddress();
+      const value = BigInt(step.params.value ?? '0');
+      const transaction: PlannedTransaction = {
+        testCaseId: testCase.id,
+        testCaseName: testCase.name,
+        stepId: step.id,
+        method: fragment.format(),
+        from,
+        fromWallet: from.toLowerCase() === this.walletAccount?.toLowerCase(),
+        to: step.params.contractAddress,
+        value: value.toString()
+      };
+      planned.push(transaction);
+      if (hasStepReference(step.params.args)) {
+        transaction.note = 'Uses the output of an earlier step; estimated when it runs';
+        continue;
+      }
+      try {
+        const args = resolveAddresses(step.params.args, { ...addresses, sender: from });
+        const data = iface.encodeFunctionData(fragment, args);
+        const gasLimit = await this.provider.estimateGas({ from, to: step.params.contractAddress, data, value });
+        transaction.gasLimit = gasLimit.toString();
+        transaction.maxCost = (gasLimit * maxFeePerGas + value).toString();
+      } catch (error) {
+        // Estimates run before the case's earlier steps, which later steps often depend on
+        transaction.note = ethers.isCallException(error)
+          ? 'Reverts on the current state; nothing is signed if it still reverts when the step runs'
+          : `No estimate: ${errorMessage(error)}`;
+      }
+    }
+    return planned;
+  }
+
+  private async maxFeePerGas(): Promise<bigint> {
+    const fees = await this.provider.getFeeData();
+    return fees.maxFeePerGas ?? fees.gasPrice ?? 0n;
+  }
+
+  // Why the case cannot run on the current backend, checked before any of its steps is sent
+  private localChainRequirement(testCase: TestCase): string | undefined {
+    if (this.localChain) {
+      return undefined;
+    }
+    if (testCase.attack) {
+      return 'Deploys attacker contracts, which needs a local chain';
+    }
+    const chainStep = testCase.steps.find(step => step.action !== 'CONTRACT_CALL');
+    return chainStep ? `${chainStep.action} steps need a local chain` : undefined;
+  }
+
+  // Fuzz campaigns send fresh transactions every iteration, far too many to sign one by one from a wallet
+  private walletRestriction(testCase: TestCase): string | undefined {
+    if (this.walletAccount && testCase.fuzz && !this.isReadOnly(testCase)) {
+      return 'Fuzz cases send a transaction per iteration, which wallet mode does not sign; run them on a local chain';
+    }
+    return undefined;
+  }
+
+  private async runTest(testCase: TestCase, options: ExecutionOptions): Promise<TestResult> {
     const logs: string[] = [];
+    const steps: StepResult[] = [];
+    const assertions: AssertionResult[] = [];
+    // Return values and receipts by step id, so later steps and assertions can refer to them
+    const outputs = new Map<string, unknown>();
+    const engine = new AssertionEngine(this.provider);
+    // What each step sent, so a failing test can replay it under a tracer
+    const requests = new Map<string, CallRequest>();
+    const stepInterfaces = new Map<string, ethers.Interface>();
+    const lookup: InterfaceLookup = address =>
+      stepInterfaces.get(address.toLowerCase()) ?? this.interfaces.get(address.toLowerCase());
+    const attack: AttackReport | undefined = testCase.attack && {
+      goal: testCase.attack.goal,
+      achieved: false,
+      summary: testCase.attack.goal === 'reentrancy'
+        ? 'No attacker took out more than it deposited by re-entering the contract'
+        : 'Honest callers were not blocked'
+    };
+    let attackers: DeployedAttackers | undefined;
+    let attackerAddresses: Record<string, string> = {};
+
     try {
       logs.push(`Starting test: ${testCase.name}`);
-      
+      const unsupported = this.localChainRequirement(testCase);
+      if (unsupported) {
+        throw new Error(unsupported);
+      }
+      if (testCase.attack) {
+        attackers = await this.deployAttackers(testCase, options);
+        attackerAddresses = await attackers.addresses();
+        for (const [kind, iface] of attackers.interfaces()) {
+          stepInterfaces.set(attackerAddresses[kind].toLowerCase(), iface);
+        }
+        logs.push(`Deployed attackers: ${Object.entries(attackerAddresses).map(([kind, address]) => `${kind} at ${address}`).join(', ')}`);
+      }
+
       for (const step of testCase.steps) {
+        const deadline = new Deadline(
+          options.stepTimeoutMs,
+          `Step ${step.id} timed out after ${options.stepTimeoutMs} ms`,
+          options.signal
+        );
         if (step.action === 'CONTRACT_CALL') {
-          const contract = new ethers.Contract(
-            step.params.contractAddress,
-            [step.params.method],
-            this.signer
-          );
-
-          logs.push(`Executing contract call: ${step.params.method}`);
-          const tx = await contract[step.params.method](...step.params.args);
-          await tx.wait();
-          logs.push(`Transaction successful: ${tx.hash}`);
+          const signer = await deadline.race(this.signerFor(step));
+          const addresses: Record<string, string> = {
+            ...(await deadline.race(this.actors.addresses())),
+            ...attackerAddresses,
+            sender: await deadline.race(signer.getAddress())
+          };
+          const expectations = resolveAddresses(step.expectations ?? [], addresses);
+          const expectsRevert = expectations.some(assertion => assertion.type === 'revert');
+          const expectedOutcome = step.expectedOutcome ?? (expectsRevert ? 'revert' : 'success');
+          const { fragment, iface } = this.resolveFunction(step);
+          const contract = new ethers.Contract(step.params.contractAddress, iface, signer);
+          const method = contract.getFunction(fragment);
+          const args = resolveArgs(resolveAddresses(step.params.args, addresses), outputs);
+          const value = step.params.value !== undefined ? BigInt(step.params.value) : undefined;
+          const overrides: ethers.Overrides = value !== undefined ? { value } : {};
+          stepInterfaces.set(step.params.contractAddress.toLowerCase(), iface);
+
+          const outcome: StepOutcome = {
+            stepId: step.id,
+            contractAddress: step.params.contractAddress,
+            iface,
+            balancesBefore: await deadline.race(engine.captureBalances(expectations)),
+            balancesAfter: new Map()
+          };
+          const stepResult: StepResult = {
+            stepId: step.id,
+            method: fragment.format(),
+            kind: fragment.constant ? 'call' : 'transaction',
+            args,
+            reverted: false
+          };
+          steps.push(stepResult);
+
+          const data = iface.encodeFunctionData(fragment, args);
+          const via = step.params.via;
+          if (attackers) {
+            // Reentrant attackers replay this very call from their hooks
+            await deadline.race(attackers.arm(step.params.contractAddress, data));
+          }
+
+          try {
+            requests.set(step.id, {
+              from: via ? attackerAddresses[via] : addresses.sender,
+              to: step.params.contractAddress,
+              data,
+              value: value !== undefined ? ethers.toQuantity(value) : undefined
+            });
+            if (fragment.constant) {
+              logs.push(`Calling ${fragment.format()} via eth_call`);
+              const returnValue = await deadline.race(method.staticCall(...args, overrides));
+              outcome.returnValue = returnValue;
+              stepResult.returnValue = returnValue;
+              outputs.set(step.id, returnValue);
+              logs.push(`Call returned: ${stringify(returnValue)}`);
+            } else {
+              // sender repeats one of the actors
+              const balanceAccounts: Record<string, string> = { ...addresses, contract: step.params.contractAddress };
+              delete balanceAccounts.sender;
+              const balancesBefore = options.trackBalances
+                ? await deadline.race(this.nativeBalances(balanceAccounts))
+                : undefined;
+              logs.push(via ? `Sending transaction ${fragment.format()} through ${via}` : `Sending transaction ${fragment.format()}`);
+              const tx = via
+                ? await deadline.race(this.relayThrough(attackers, via, signer).send(step.params.contractAddress, data, overrides))
+                : await deadline.race(method.send(...args, overrides));
+              const receipt = toStepReceipt(await deadline.race(tx.wait()), tx);
+              outcome.receipt = receipt;
+              stepResult.receipt = receipt;
+              stepResult.events = decodeEvents(receipt.logs, lookup);
+              if (via && value) {
+                attackers?.recordForwarded(via, value);
+              }
+              if (balancesBefore) {
+                const balancesAfter = await deadline.race(this.nativeBalances(balanceAccounts));
+                stepResult.balanceChanges = balanceChanges(balanceAccounts, balancesBefore, balancesAfter, addresses.sender, receipt);
+              }
+              outputs.set(step.id, receipt);
+              logs.push(`Transaction ${receipt.hash} mined in block ${receipt.blockNumber}, gas used ${receipt.gasUsed} at ${receipt.effectiveGasPrice} wei, ${receipt.calldataBytes} bytes of calldata, ${receipt.logs.length} logs`);
+            }
+          } catch (error) {
+            if (isUserRejection(error)) {
+              throw new Error(`Step ${step.id} was rejected in the wallet`);
+            }
+            // Only contract reverts can satisfy an expected revert; RPC failures always fail the test
+            if (!ethers.isCallException(error)) {
+              throw error;
+            }
+            outcome.error = error;
+            stepResult.reverted = true;
+            stepResult.revert = decodeRevert(error, iface);
+            logs.push(`Call reverted: ${describeRevert(stepResult.revert)}`);
+            if (attack?.goal === 'dos' && !via && expectedOutcome === 'success') {
+              attack.achieved = true;
+              attack.summary = `DoS achieved: step ${step.id} reverted for an honest caller after the attacker's steps (${describeRevert(stepResult.revert)})`;
+            }
+            if (expectedOutcome === 'success') {
+              throw new StepFailure(`Step ${step.id} reverted unexpectedly: ${describeRevert(stepResult.revert)}`);
+            }
+          } finally {
+            // Before a failure ends the test, so unexpected reverts count towards coverage too
+            if (options.coverage && (stepResult.reverted || outputs.has(step.id))) {
+              await deadline.race(this.recordCoverage(options.coverage, stepResult, requests.get(step.id)));
+            }
+          }
+
+          // A call back that succeeds is not enough: the attacker has to end up with more than it deposited
+          if (attackers && attack?.goal === 'reentrancy' && !stepResult.reverted) {
+            const reentered = Object.entries(await deadline.race(attackers.reentries())).filter(([, count]) => count > 0);
+            const gains = reentered.length > 0 ? await deadline.race(attackers.gains()) : {};
+            const profited: string[] = [];
+            for (const [kind, count] of reentered) {
+              const gain = describeGain(gains[kind as AttackerKind]);
+              if (gain) {
+                profited.push(`${kind} re-entered ${count} times and took out ${gain} more than it deposited`);
+              } else {
+                logs.push(`${kind} re-entered ${count} times without taking out more than it deposited`);
+              }
+            }
+            if (profited.length > 0) {
+              attack.achieved = true;
+              attack.summary = `Reentrancy achieved: ${profited.join(', ')} by step ${step.id}`;
+              throw new StepFailure(attack.summary);
+            }
+          }
+
+          if (expectedOutcome === 'revert' && !stepResult.reverted) {
+            throw new StepFailure(`Step ${step.id} was expected to revert but succeeded`);
+          }
+          if (stepResult.revert && isAssertionPanic(stepResult.revert) && !expectsRevert) {
+            throw new StepFailure(`Step ${step.id} hit a failing assert(): ${describeRevert(stepResult.revert)}`);
+          }
+
+          if (testCase.invariants && !stepResult.reverted) {
+            const violation = await deadline.race(findViolation(testCase.invariants, {
+              provider: this.provider,
+              iface,
+              contractAddress: step.params.contractAddress,
+              actors: await this.actorsOf(testCase)
+            }));
+            if (violation) {
+              throw new StepFailure(`After step ${step.id}: ${violation.message}`);
+            }
+            logs.push(`Invariants hold after step ${step.id}`);
+          }
+
+          outcome.balancesAfter = await deadline.race(engine.captureBalances(expectations));
+          const stepAssertions = await deadline.race(engine.evaluate(expectations, outcome, outputs));
+          for (const assertion of stepAssertions) {
+            logs.push(`${assertion.passed ? 'Assertion passed' : 'Assertion failed'}: ${assertion.message}`);
+          }
+          assertions.push(...stepAssertions);
+
+          const failedAssertion = stepAssertions.find(assertion => !assertion.passed);
+          if (failedAssertion) {
+            throw new StepFailure(failedAssertion.message, failedAssertion);
+          }
+        } else {
+          const description = describeChainStep(step);
+          steps.push({ stepId: step.id, method: description, kind: 'chain', reverted: false });
+          logs.push(`Chain step ${step.id}: ${description}`);
+          const addresses = { ...(await deadline.race(this.actors.addresses())), ...attackerAddresses };
+          await deadline.race(this.runChainStep(step, addresses, outputs));
         }
       }
 
@@ -49,20 +531,223 @@ export class TestExecutor {
         testCaseId: testCase.id,
         success: true,
         logs,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        steps,
+        assertions,
+        attack
       };
     } catch (error) {
-      logs.push(`Error: ${error.message}`);
+      logs.push(`Error: ${errorMessage(error)}`);
+      const retryable = isTransientError(error);
+      // Tracing a stopped run or an unresponsive backend would only hold the run up further
+      if (!retryable && !options.signal?.aborted) {
+        await this.attachTraces(steps, requests, lookup, logs);
+      }
       return {
         testCaseId: testCase.id,
         success: false,
-        error: error.message,
+        error: errorMessage(error),
         logs,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        steps,
+        assertions,
+        failedAssertion: error instanceof StepFailure ? error.failedAssertion : undefined,
+        retryable,
+        attack
+      };
+    }
+  }
+
+  private async runChainStep(step: TestStep, addresses: Record<string, string>, outputs: Map<string, unknown>): Promise<void> {
+    if (!this.localChain) {
+      throw new Error(`${step.action} steps need a local chain`);
+    }
+    const { params } = step;
+    // Actor names map to their accounts; addresses are used as given
+    const account = params.account !== undefined ? addresses[params.account] ?? params.account : '';
+    switch (step.action) {
+      case 'INCREASE_TIME':
+        return this.localChain.increaseTime(resolveQuantity(params.seconds, params.offset, outputs));
+      case 'SET_NEXT_BLOCK_TIMESTAMP':
+        return this.localChain.setNextBlockTimestamp(resolveQuantity(params.timestamp, params.offset, outputs));
+      case 'MINE_BLOCKS':
+        return this.localChain.mine(Number(params.blocks));
+      case 'SET_NEXT_BLOCK_BASE_FEE':
+        return this.localChain.setNextBlockBaseFee(BigInt(String(params.baseFee)));
+      case 'IMPERSONATE':
+        return this.localChain.impersonate(account);
+      case 'STOP_IMPERSONATING':
+        return this.localChain.stopImpersonating(account);
+      case 'SET_BALANCE':
+        return this.localChain.setBalance(account, BigInt(String(params.balance)));
+      case 'SET_STORAGE':
+        return this.localChain.setStorageAt(
+          params.account === undefined ? params.contractAddress : account,
+          BigInt(String(params.slot)),
+          BigInt(String(params.storageValue))
+        );
+      default:
+        throw new Error(`Step ${step.id} has unsupported action ${String(step.action)}`);
+    }
+  }
+
+  // Deployed inside the case's snapshot, so every attack case starts with fresh attackers
+  private async deployAttackers(testCase: TestCase, options: ExecutionOptions): Promise<DeployedAttackers> {
+    if (!this.localChain) {
+      throw new Error('Attack cases deploy attacker contracts and need a local chain');
+    }
+    if (!this.attackerLibrary) {
+      throw new Error('No attacker library configured; attack cases need a Solidity compiler');
+    }
+    const deadline = new Deadline(options.stepTimeoutMs, `Deploying attackers timed out after ${options.stepTimeoutMs} ms`, options.signal);
+    const holders = [...new Set(Object.values(await deadline.race(this.actors.addresses())))];
+    return deadline.race(this.attackerLibrary.deploy(testCase.attack?.attackers ?? [], holders, this.actors.get('deployer')));
+  }
+
+  private relayThrough(attackers: DeployedAttackers | undefined, via: AttackerKind, signer: ethers.Signer) {
+    if (!attackers) {
+      throw new Error(`Step routes through ${via}, but the case deploys no attackers`);
+    }
+    return attackers.relay(via, signer);
+  }
+
+  // Native balances by label, read one account at a time
+  private async nativeBalances(accounts: Record<string, string>): Promise<Map<string, bigint>> {
+    const balances = new Map<string, bigint>();
+    for (const [label, address] of Object.entries(accounts)) {
+      balances.set(label, await this.provider.getBalance(address));
+    }
+    return balances;
+  }
+
+  // Remote nodes rarely serve opcode traces, and replaying every step there would be slow
+  private async recordCoverage(coverage: CoverageCollector, step: StepResult, request: CallRequest | undefined) {
+    if (!this.localChain || !(this.provider instanceof ethers.JsonRpcProvider)) {
+      return;
+    }
+    if (step.receipt) {
+      await coverage.record(this.provider, { hash: step.receipt.hash });
+    } else if (request) {
+      // Calls and sends that reverted before reaching a block are replayed on the state the step saw
+      await coverage.record(this.provider, { request });
+    }
+  }
+
+  // Runs before executeTest reverts the local snapshot, so the traced state is the one the test saw
+  private async attachTraces(
+    steps: StepResult[],
+    requests: Map<string, CallRequest>,
+    lookup: InterfaceLookup,
+    logs: string[]
+  ) {
+    if (!(this.provider instanceof ethers.JsonRpcProvider) || steps.length === 0) {
+      return;
+    }
+    const tracer = new CallTracer(this.provider, lookup);
+    const failing = steps[steps.length - 1];
+    const request = requests.get(failing.stepId);
+    try {
+      for (const step of steps) {
+        if (step.receipt) {
+          step.trace = await tracer.traceTransaction(step.receipt.hash);
+        }
+      }
+      // Reverted sends never reach a block and calls never do, so replay the failing step instead
+      if (!failing.receipt && request) {
+        failing.trace = await tracer.traceCall(request);
+      }
+    } catch (error) {
+      logs.push(`Call traces unavailable: ${errorMessage(error)}`);
+      return;
+    }
+
+    const origin = failing.trace && findRevertFrame(failing.trace);
+    if (origin) {
+      logs.push(`Revert originated in ${origin.method ?? origin.to ?? 'contract creation'} at ${origin.to ?? 'new contract'}, called by ${origin.from}`);
+    }
+  }
+
+  private async runFuzzCampaign(testCase: TestCase, config: FuzzConfig, options: ExecutionOptions): Promise<TestResult> {
+    try {
+      // Addresses the contract is likely to treat specially make good fuzz inputs
+      const knownAddresses = [
+        ...new Set(Object.values(await this.actors.addresses())),
+        ...new Set(testCase.steps.map(step => step.params.contractAddress))
+      ];
+      // Checking the signal first keeps a stopped run from being shrunk as if it were a counterexample
+      const campaign = new FuzzCampaign(iteration => {
+        options.signal?.throwIfAborted();
+        return this.executeTest(iteration, options);
+      }, knownAddresses);
+      return await campaign.run(testCase, config);
+    } catch (error) {
+      return {
+        testCaseId: testCase.id,
+        success: false,
+        error: errorMessage(error),
+        logs: [`Error: ${errorMessage(error)}`],
+        timestamp: Date.now(),
+        fuzz: { seed: config.seed, iterations: 0 }
       };
     }
   }
 
+  async runInvariantCampaign(options: InvariantCampaignOptions): Promise<InvariantReport> {
+    if (!this.localChain) {
+      throw new Error('Invariant testing requires a local chain');
+    }
+    return new InvariantTester(this.localChain).run(options);
+  }
+
+  // Steps without an actor are sent by the deployer
+  private async signerFor(step: TestStep): Promise<ethers.Signer> {
+    const actor = step.params.actor ?? 'deployer';
+    if (isActorName(actor)) {
+      return this.actors.get(actor);
+    }
+    const known = await this.actors.findByAddress(actor);
+    if (known) {
+      return known;
+    }
+    if (!this.localChain) {
+      throw new Error(`Actor ${actor} can only sign on a local chain`);
+    }
+    return this.localChain.provider.getSigner(actor);
+  }
+
+  private async actorsOf(testCase: TestCase): Promise<string[]> {
+    const actors = await Promise.all(
+      testCase.steps.map(async step => (await this.signerFor(step)).getAddress())
+    );
+    return [...new Set(actors)];
+  }
+
+  private resolveFunction(step: TestStep): { fragment: ethers.FunctionFragment; iface: ethers.Interface } {
+    const registered = this.interfaces.get(step.params.contractAddress.toLowerCase());
+    let fragment: ethers.FunctionFragment | null = null;
+
+    if (step.params.fragment) {
+      fragment = ethers.FunctionFragment.from(step.params.fragment);
+    } else if (step.params.method.includes('(')) {
+      fragment = ethers.FunctionFragment.from(step.params.method);
+    } else {
+      fragment = registered?.getFunction(step.params.method) ?? null;
+    }
+    if (!fragment) {
+      throw new Error(`No ABI fragment available for ${step.params.method}`);
+    }
+
+    if (!registered) {
+      return { fragment, iface: new ethers.Interface([fragment]) };
+    }
+    if (registered.getFunction(fragment.format()) !== null) {
+      return { fragment, iface: registered };
+    }
+    // Keep the registered events and errors for decoding, but call the step's own fragment
+    const others = registered.fragments.filter(item => !(item instanceof ethers.FunctionFragment));
+    return { fragment, iface: new ethers.Interface([fragment, ...others]) };
+  }
+
   async validateContract(address: string): Promise<boolean> {
     try {
       const code = await this.provider.getCode(address);
@@ -71,4 +756,145 @@ export class TestExecutor {
       return false;
     }
   }
-}
\ No newline at end of file
+}
+
+// Failures of the backend rather than the contract: timeouts, dropped connections and rate limits
+function isTransientError(error: unknown): boolean {
+  if (error instanceof TimeoutError) {
+    return true;
+  }
+  if (ethers.isError(error, 'NETWORK_ERROR') || ethers.isError(error, 'TIMEOUT') || ethers.isError(error, 'SERVER_ERROR')) {
+    return true;
+  }
+  // Rate limits arrive as JSON-RPC error -32005 or HTTP 429
+  const code = (error as { error?: { code?: unknown } })?.error?.code;
+  return code === -32005 || code === 429;
+}
+
+interface CallRequest {
+  from: string;
+  to: string;
+  data: string;
+  value?: string;
+}
+
+function resolveArgs(args: unknown[], outputs: Map<string, unknown>): unknown[] {
+  return args.map(arg => resolveArg(arg, outputs));
+}
+
+function resolveArg(arg: unknown, outputs: Map<string, unknown>): unknown {
+  if (Array.isArray(arg)) {
+    return arg.map(item => resolveArg(item, outputs));
+  }
+  if (typeof arg === 'object' && arg !== null && 'stepRef' in arg) {
+    return resolveExpected(arg as StepReference, outputs);
+  }
+  return arg;
+}
+
+// A literal or an earlier step's output, plus the offset
+function resolveQuantity(value: ChainQuantity | undefined, offset: number | undefined, outputs: Map<string, unknown>): bigint {
+  const resolved = resolveArg(value, outputs);
+  if (!(typeof resolved === 'bigint' || typeof resolved === 'number' || (typeof resolved === 'string' && /^\d+$/.test(resolved)))) {
+    throw new Error(`Expected a number of seconds or a timestamp, got ${stringify(resolved)}`);
+  }
+  return BigInt(resolved) + BigInt(offset ?? 0);
+}
+
+// What a chain step does, in place of a function signature in results
+function describeChainStep(step: TestStep): string {
+  const { params } = step;
+  const quantity = (value: ChainQuantity | undefined) => {
+    const base = typeof value === 'object' ? `output of ${value.stepRef}${value.path ? `.${value.path}` : ''}` : String(value);
+    return params.offset ? `${base} + ${params.offset}` : base;
+  };
+  switch (step.action) {
+    case 'INCREASE_TIME':
+      return `increaseTime(${quantity(params.seconds)})`;
+    case 'SET_NEXT_BLOCK_TIMESTAMP':
+      return `setNextBlockTimestamp(${quantity(params.timestamp)})`;
+    case 'MINE_BLOCKS':
+      return `mine(${params.blocks})`;
+    case 'SET_NEXT_BLOCK_BASE_FEE':
+      return `setNextBlockBaseFee(${params.baseFee})`;
+    case 'IMPERSONATE':
+      return `impersonate(${params.account})`;
+    case 'STOP_IMPERSONATING':
+      return `stopImpersonating(${params.account})`;
+    case 'SET_BALANCE':
+      return `setBalance(${params.account}, ${params.balance})`;
+    case 'SET_STORAGE':
+      return `setStorageAt(${params.account ?? params.contractAddress}, ${params.slot}, ${params.storageValue})`;
+    default:
+      return String(step.action);
+  }
+}
+
+function hasStepReference(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.some(hasStepReference);
+  }
+  return typeof value === 'object' && value !== null && 'stepRef' in value;
+}
+
+// Replaces every { addressOf } in args or expectations with the account it names
+function resolveAddresses<T>(value: T, addresses: Record<string, string>): T {
+  if (Array.isArray(value)) {
+    return value.map(item => resolveAddresses(item, addresses)) as T;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if ('addressOf' in value) {
+    const name = String((value as AddressReference).addressOf);
+    const address = addresses[name];
+    if (!address) {
+      throw new Error(`Unknown account ${name}`);
+    }
+    return address as T;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, resolveAddresses(item, addresses)])
+  ) as T;
+}
+
+// Non-zero changes by label; the sender's fee is added back, so only value moved by the contract remains
+function balanceChanges(
+  accounts: Record<string, string>,
+  before: Map<string, bigint>,
+  after: Map<string, bigint>,
+  payer: string,
+  receipt: StepReceipt
+): Record<string, string> {
+  const fee = BigInt(receipt.gasUsed) * BigInt(receipt.effectiveGasPrice);
+  const changes: Record<string, string> = {};
+  for (const [label, address] of Object.entries(accounts)) {
+    const change = (after.get(label) ?? 0n) - (before.get(label) ?? 0n) + (address.toLowerCase() === payer.toLowerCase() ? fee : 0n);
+    if (change !== 0n) changes[label] = change.toString();
+  }
+  return changes;
+}
+
+// Undefined unless the attacker came out ahead; attacker tokens have 18 decimals like ether
+function describeGain(gain: AttackerHoldings | undefined): string | undefined {
+  if (!gain) return undefined;
+  const parts: string[] = [];
+  if (gain.ether > 0n) parts.push(`${ethers.formatEther(gain.ether)} ether`);
+  if (gain.tokens > 0n) parts.push(`${ethers.formatEther(gain.tokens)} attacker tokens`);
+  return parts.length > 0 ? parts.join(' and ') : undefined;
+}
+
+function toStepReceipt(receipt: ethers.TransactionReceipt | null, tx: ethers.TransactionResponse): StepReceipt {
+  if (!receipt) {
+    throw new Error('Transaction was dropped before it was mined');
+  }
+  return {
+    hash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    status: receipt.status ?? 0,
+    gasUsed: receipt.gasUsed.toString(),
+    effectiveGasPrice: receipt.gasPrice.toString(),
+    calldataBytes: ethers.dataLength(tx.data),
+    logs: receipt.logs.map(log => ({ address: log.address, topics: [...log.topics], data: log.data }))
+  };
+}
@@ -0,0 +1,143 @@
+import { TestCase, TestResult } from '../types/TestCase';
+import { PlannedTransaction } from '../types/Wallet';
+import { TestExecutor } from './TestExecutor';
+import { CoverageCollector } from './CoverageCollector';
+import { TimeoutError, delay } from '../utils/async';
+import { errorMessage } from '../utils/format';
+
+export interface SchedulerOptions {
+  // Read-only cases in flight at once
+  concurrency?: number;
+  stepTimeoutMs?: number;
+  testTimeoutMs?: number;
+  // Extra attempts for cases that failed on the backend rather than in the contract
+  retries?: number;
+  retryDelayMs?: number;
+  // Wallet mode: approves each case's wallet transactions before any is signed
+  confirm?: (transactions: PlannedTransaction[]) => Promise<boolean>;
+  // Traces every step into the collector; local chains only
+  coverage?: CoverageCollector;
+  trackBalances?: boolean;
+  onStart?: (testCase: TestCase) => void;
+  onResult?: (run: ScheduledResult) => void;
+}
+
+export interface ScheduledResult {
+  testCase: TestCase;
+  result: TestResult;
+  durationMs: number;
+  attempts: number;
+}
+
+export interface ScheduledRun {
+  // Results of the cases that ran, in suite order; cases not started before an abort are left out
+  done: Promise<ScheduledResult[]>;
+  abort: () => void;
+}
+
+export const DEFAULT_CONCURRENCY = 4;
+export const DEFAULT_STEP_TIMEOUT_MS = 60_000;
+export const DEFAULT_TEST_TIMEOUT_MS = 300_000;
+export const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 1_000;
+
+// Runs read-only cases concurrently, then state-changing cases one at a time. Writes stay serial
+// because they share actor accounts (and their nonces) and, on local chains, the snapshot stack
+export class TestScheduler {
+  constructor(private executor: TestExecutor, private options: SchedulerOptions = {}) {}
+
+  run(testCases: TestCase[]): ScheduledRun {
+    const controller = new AbortController();
+    const done = this.schedule(testCases.filter(testCase => !testCase.disabled), controller.signal);
+    return { done, abort: () => controller.abort(new Error('Run stopped')) };
+  }
+
+  private async schedule(testCases: TestCase[], signal: AbortSignal): Promise<ScheduledResult[]> {
+    const results = new Map<string, ScheduledResult>();
+    const record = (run: ScheduledResult) => {
+      results.set(run.testCase.id, run);
+      this.options.onResult?.(run);
+    };
+
+    const reads = testCases.filter(testCase => this.executor.isReadOnly(testCase));
+    const writes = testCases.filter(testCase => !this.executor.isReadOnly(testCase));
+
+    let next = 0;
+    const worker = async () => {
+      while (next < reads.length && !signal.aborted) {
+        record(await this.runCase(reads[next++], signal));
+      }
+    };
+    const concurrency = Math.max(1, this.options.concurrency ?? DEFAULT_CONCURRENCY);
+    await Promise.all(Array.from({ length: Math.min(concurrency, reads.length) }, worker));
+
+    for (const testCase of writes) {
+      if (signal.aborted) break;
+      record(await this.runCase(testCase, signal));
+    }
+
+    return testCases.flatMap(testCase => results.get(testCase.id) ?? []);
+  }
+
+  private async runCase(testCase: TestCase, runSignal: AbortSignal): Promise<ScheduledResult> {
+    this.options.onStart?.(testCase);
+    const startedAt = Date.now();
+    const testTimeoutMs = this.options.testTimeoutMs ?? DEFAULT_TEST_TIMEOUT_MS;
+    const retries = this.executor.canRetry(testCase) ? this.options.retries ?? DEFAULT_RETRIES : 0;
+    const logs: string[] = [];
+
+    // The test timeout aborts the executor like Stop does, so the local snapshot is still reverted before moving on
+    const controller = new AbortController();
+    const stop = () => controller.abort(runSignal.reason);
+    runSignal.addEventListener('abort', stop);
+    const timer = setTimeout(
+      () => controller.abort(new TimeoutError(`Test timed out after ${testTimeoutMs} ms`)),
+      testTimeoutMs
+    );
+
+    let result: TestResult;
+    let attempt = 1;
+    try {
+      for (;;) {
+        result = await this.attempt(testCase, controller.signal);
+        if (result.success || !result.retryable || attempt > retries || controller.signal.aborted) break;
+        logs.push(...result.logs, `Attempt ${attempt} failed on the backend, retrying`);
+        await delay((this.options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS) * attempt, controller.signal)
+          .catch(() => undefined);
+        attempt++;
+      }
+    } finally {
+      clearTimeout(timer);
+      runSignal.removeEventListener('abort', stop);
+    }
+
+    return {
+      testCase,
+      result: { ...result, logs: [...logs, ...result.logs] },
+      durationMs: Date.now() - startedAt,
+      attempts: attempt
+    };
+  }
+
+  // Aborting makes the executor give up on its pending RPC await; it is not raced here,
+  // so the case's snapshot is reverted before the next write case starts
+  private async attempt(testCase: TestCase, signal: AbortSignal): Promise<TestResult> {
+    try {
+      return await this.executor.executeTest(testCase, {
+        signal,
+        stepTimeoutMs: this.options.stepTimeoutMs ?? DEFAULT_STEP_TIMEOUT_MS,
+        confirm: this.options.confirm,
+        coverage: this.options.coverage,
+        trackBalances: this.options.trackBalances
+      });
+    } catch (error) {
+      return {
+        testCaseId: testCase.id,
+        success: false,
+        error: errorMessage(error),
+        logs: [`Error: ${errorMessage(error)}`],
+        timestamp: Date.now()
+      };
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { ethers } from 'ethers';
+import { TestCase, TestStep } from '../types/TestCase';
+import { ValueGenerator } from './ValueGenerator';
+import { stableId } from '../utils/ids';
+
+// Names of functions that typically only work once some time has passed
+const GATED_NAME = /release|claim|unlock|withdraw|vest|redeem|unstake|execute|finali[sz]e|settle|reveal|exit|mature/i;
+// Case-sensitive, so send or extend do not count as ending anything
+const ENDING_NAME = /^(end|close)|(End|Close)$/;
+const TOKEN_PARAM = /token|asset|currency|erc20/i;
+// Getters and parameters holding a point in time or a duration
+const TIME_NAME = /deadline|expir|unlock|release(time|at|date)|vest|cliff|timelock|delay|duration|period|maturity|until|(end|start|close|open)(time|s?at|date|stamp)|timestamp|^time$/i;
+// Relative to when the lock was set up rather than absolute timestamps
+const DURATION_NAME = /duration|delay|period|cliff|seconds/i;
+// Getters ranked by how likely they are the last moment before the function opens
+const GETTER_PREFERENCE = [/unlock|release|matur|vest|cliff/i, /deadline|expir|end|close|until/i, /delay|duration|period|timelock/i, /./];
+// Start times pass before the function opens, so they are used only when nothing else is there
+const START_NAME = /start|open/i;
+
+// First block of cases that set up their own lock, far enough ahead of any real chain to be settable
+const START_TIMESTAMP = 4_102_444_800;
+const DAY = 86_400;
+// Lock length passed to functions that set one up
+const LOCK_SECONDS = DAY;
+
+// "Before the deadline reverts, after it succeeds" sequences for functions that look time-gated.
+// They move the clock, so they only run on a local chain
+export function generateTimeCases(abi: ethers.InterfaceAbi, contractAddress: string): TestCase[] {
+  const functions = ethers.Interface.from(abi).fragments.filter(ethers.Fragment.isFunction);
+  const getter = preferredGetter(functions.filter(isTimeGetter));
+  const scheduler = functions.find(fragment => !fragment.constant && timeParams(fragment).length > 0);
+  const builder = new TimeCaseBuilder(contractAddress);
+
+  // Only functions whose arguments can all be the caller, so the call after the deadline has no other reason to fail
+  const gated = functions.filter(fragment =>
+    !fragment.constant &&
+    fragment !== scheduler &&
+    (GATED_NAME.test(fragment.name) || ENDING_NAME.test(fragment.name)) &&
+    fragment.inputs.every(input => input.type === 'address' && !TOKEN_PARAM.test(input.name))
+  );
+
+  const testCases: TestCase[] = [];
+  for (const fragment of gated) {
+    if (scheduler) {
+      testCases.push(builder.afterSchedule(scheduler, fragment));
+    } else if (getter) {
+      testCases.push(builder.afterGetter(getter, fragment));
+    } else if (TIME_NAME.test(fragment.name)) {
+      testCases.push(builder.afterLongWait(fragment));
+    }
+  }
+  return testCases;
+}
+
+function isTimeGetter(fragment: ethers.FunctionFragment): boolean {
+  return fragment.constant &&
+    fragment.inputs.length === 0 &&
+    fragment.outputs.length === 1 &&
+    /^uint\d*$/.test(fragment.outputs[0].type) &&
+    TIME_NAME.test(fragment.name);
+}
+
+function preferredGetter(getters: ethers.FunctionFragment[]): ethers.FunctionFragment | undefined {
+  const ends = getters.filter(fragment => !START_NAME.test(fragment.name));
+  for (const pattern of GETTER_PREFERENCE) {
+    const match = ends.find(fragment => pattern.test(fragment.name));
+    if (match) return match;
+  }
+  return getters[0];
+}
+
+function timeParams(fragment: ethers.FunctionFragment): ethers.ParamType[] {
+  return fragment.inputs.filter(input => /^uint\d*$/.test(input.type) && TIME_NAME.test(input.name));
+}
+
+class TimeCaseBuilder {
+  private values = new ValueGenerator();
+
+  constructor(private contractAddress: string) {}
+
+  // The case sets the lock up itself at a known time, then waits it out
+  afterSchedule(scheduler: ethers.FunctionFragment, gated: ethers.FunctionFragment): TestCase {
+    const args = scheduler.inputs.map(input => {
+      if (timeParams(scheduler).includes(input)) {
+        return String(DURATION_NAME.test(input.name) ? LOCK_SECONDS : START_TIMESTAMP + LOCK_SECONDS);
+      }
+      return input.type === 'address' ? { addressOf: 'sender' } : this.values.generate(input, 'safe');
+    });
+    return this.testCase(gated, `${scheduler.name} locks for ${LOCK_SECONDS} seconds`, [
+      this.chainStep('start-clock', 'SET_NEXT_BLOCK_TIMESTAMP', { timestamp: START_TIMESTAMP }, `Start the clock at ${START_TIMESTAMP}`),
+      {
+        id: 'schedule',
+        action: 'CONTRACT_CALL',
+        params: {
+          method: scheduler.name,
+          contractAddress: this.contractAddress,
+          fragment: JSON.parse(scheduler.format('json')),
+          args,
+          ...(scheduler.payable ? { value: ethers.parseEther('1').toString() } : {})
+        },
+        description: `Call ${scheduler.name} to set up the lock`,
+        expectedOutcome: 'success'
+      },
+      this.call('before', gated, 'revert'),
+      this.chainStep('advance', 'INCREASE_TIME', { seconds: LOCK_SECONDS, offset: 1 }, 'Move past the end of the lock'),
+      this.call('after', gated, 'success')
+    ]);
+  }
+
+  // Reads the deadline from the contract and jumps just past it
+  afterGetter(getter: ethers.FunctionFragment, gated: ethers.FunctionFragment): TestCase {
+    const relative = DURATION_NAME.test(getter.name);
+    const jump = relative
+      ? this.chainStep('advance', 'INCREASE_TIME', { seconds: { stepRef: 'read-time' }, offset: 1 }, `Wait ${getter.name} out`)
+      : this.chainStep('advance', 'SET_NEXT_BLOCK_TIMESTAMP', { timestamp: { stepRef: 'read-time' }, offset: 1 }, `Move just past ${getter.name}`);
+    return this.testCase(gated, `${getter.name} has passed`, [
+      {
+        id: 'read-time',
+        action: 'CONTRACT_CALL',
+        params: {
+          method: getter.name,
+          contractAddress: this.contractAddress,
+          fragment: JSON.parse(getter.format('json')),
+          args: []
+        },
+        description: `Read ${getter.name}`,
+        expectedOutcome: 'success'
+      },
+      this.call('before', gated, 'revert'),
+      jump,
+      this.call('after', gated, 'success')
+    ]);
+  }
+
+  // No getter tells when the function opens, so wait long enough for any usual lock
+  afterLongWait(gated: ethers.FunctionFragment): TestCase {
+    const seconds = 4 * 365 * DAY;
+    return this.testCase(gated, 'four years have passed', [
+      this.call('before', gated, 'revert'),
+      this.chainStep('advance', 'INCREASE_TIME', { seconds }, 'Wait four years'),
+      this.call('after', gated, 'success')
+    ]);
+  }
+
+  private testCase(gated: ethers.FunctionFragment, condition: string, steps: TestStep[]): TestCase {
+    return {
+      id: stableId('time', this.contractAddress, gated.format(), steps.map(step => step.id)),
+      name: `Time Lock: ${gated.name} before and after the deadline`,
+      description: `${gated.name} looks time-gated; it must revert before and succeed once ${condition}`,
+      steps,
+      expectedResult: 'Reverts before the deadline and succeeds after it',
+      status: 'pending'
+    };
+  }
+
+  private call(id: string, fragment: ethers.FunctionFragment, expectedOutcome: 'success' | 'revert'): TestStep {
+    return {
+      id,
+      action: 'CONTRACT_CALL',
+      params: {
+        method: fragment.name,
+        contractAddress: this.contractAddress,
+        fragment: JSON.parse(fragment.format('json')),
+        args: fragment.inputs.map(() => ({ addressOf: 'sender' }))
+      },
+      description: `Call ${fragment.name} ${id} the deadline`,
+      expectedOutcome
+    };
+  }
+
+  private chainStep(id: string, action: TestStep['action'], params: Partial<TestStep['params']>, description: string): TestStep {
+    return {
+      id,
+      action,
+      params: { method: '', contractAddress: this.contractAddress, args: [], ...params },
+      description
+    };
+  }
+}
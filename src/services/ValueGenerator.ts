@@ -0,0 +1,254 @@
+import { ethers } from 'ethers';
+
+// How values are picked: representative valid input, the type's lower or upper bound, random,
+// or random biased toward edge cases for fuzzing
+export type ValueStrategy = 'safe' | 'min' | 'max' | 'random' | 'fuzz';
+
+const SAFE_ADDRESS = '0x0000000000000000000000000000000000000001';
+const MAX_DYNAMIC_LENGTH = 5;
+const LARGE_DYNAMIC_LENGTH = 256;
+const HUGE_ARRAY_LENGTH = 64;
+// Share of fuzz draws taken from the edge-case pool rather than uniformly
+const EDGE_CASE_BIAS = 0.5;
+
+export class ValueGenerator {
+  // The random source is injectable so callers can make generation reproducible
+  constructor(
+    private random: () => number = Math.random,
+    private knownAddresses: string[] = [],
+    // Draw every random address from the known ones, e.g. to keep funds among tracked actors
+    private restrictAddresses = false
+  ) {}
+
+  generateArgs(inputs: readonly ethers.ParamType[], strategy: ValueStrategy): unknown[] {
+    return inputs.map(input => this.generate(input, strategy));
+  }
+
+  generate(param: ethers.ParamType, strategy: ValueStrategy): unknown {
+    if (param.isArray()) {
+      const length = param.arrayLength >= 0 ? param.arrayLength : this.dynamicLength(strategy);
+      return Array.from({ length }, () => this.generate(param.arrayChildren, strategy));
+    }
+    if (param.isTuple()) {
+      return param.components.map(component => this.generate(component, strategy));
+    }
+    return this.generateBase(param.baseType, strategy);
+  }
+
+  // Pushes only integer leaves to their bound; every other value stays representative
+  generateIntegerBoundary(param: ethers.ParamType, boundary: 'min' | 'max'): unknown {
+    if (param.isArray()) {
+      const length = param.arrayLength >= 0 ? param.arrayLength : 1;
+      return Array.from({ length }, () => this.generateIntegerBoundary(param.arrayChildren, boundary));
+    }
+    if (param.isTuple()) {
+      return param.components.map(component => this.generateIntegerBoundary(component, boundary));
+    }
+    return this.generateBase(param.baseType, parseIntegerType(param.baseType) ? boundary : 'safe');
+  }
+
+  private generateBase(type: string, strategy: ValueStrategy): unknown {
+    const integer = parseIntegerType(type);
+    if (integer) {
+      return this.generateInteger(integer, strategy).toString();
+    }
+
+    const fixedBytes = type.match(/^bytes(\d+)$/);
+    if (fixedBytes) {
+      return this.generateBytes(Number(fixedBytes[1]), strategy);
+    }
+
+    switch (type) {
+      case 'address':
+        return this.generateAddress(strategy);
+      case 'bool':
+        if (strategy === 'random' || strategy === 'fuzz') return this.random() > 0.5;
+        return strategy !== 'min';
+      case 'string':
+        return this.generateString(strategy);
+      case 'bytes':
+        return this.generateDynamicBytes(strategy);
+      case 'function':
+        // External function pointers encode as 20-byte address plus 4-byte selector
+        return this.generateBytes(24, strategy);
+      default:
+        throw new Error(`Unsupported ABI type: ${type}`);
+    }
+  }
+
+  private generateInteger(integer: IntegerType, strategy: ValueStrategy): bigint {
+    const { min, max } = integerBounds(integer);
+    switch (strategy) {
+      case 'min':
+        return min;
+      case 'max':
+        return max;
+      case 'safe':
+        // One whole token for wide unsigned types, mirroring typical amount parameters
+        return integer.bits >= 64 && !integer.signed ? ethers.parseUnits('1', 'ether') : 1n;
+      case 'random': {
+        // Log-uniform magnitude so small and large values are both exercised
+        const magnitudeBits = 1 + Math.floor(this.random() * (integer.signed ? integer.bits - 1 : integer.bits));
+        const value = this.randomBigInt(magnitudeBits);
+        return integer.signed && this.random() > 0.5 ? -value : value;
+      }
+      case 'fuzz':
+        if (this.random() < EDGE_CASE_BIAS) {
+          return this.pick(integerEdgeCases(integer));
+        }
+        return this.generateInteger(integer, 'random');
+    }
+  }
+
+  private generateAddress(strategy: ValueStrategy): string {
+    if (this.restrictAddresses && this.knownAddresses.length > 0 && (strategy === 'random' || strategy === 'fuzz')) {
+      return this.pick(this.knownAddresses);
+    }
+    switch (strategy) {
+      case 'min':
+        return ethers.ZeroAddress;
+      case 'max':
+        return ethers.getAddress('0x' + 'ff'.repeat(20));
+      case 'safe':
+        return SAFE_ADDRESS;
+      case 'random':
+        return ethers.getAddress(this.randomHex(20));
+      case 'fuzz':
+        if (this.random() < EDGE_CASE_BIAS) {
+          return this.pick([ethers.ZeroAddress, SAFE_ADDRESS, ...this.knownAddresses]);
+        }
+        return this.generateAddress('random');
+    }
+  }
+
+  private generateBytes(size: number, strategy: ValueStrategy): string {
+    switch (strategy) {
+      case 'min':
+        return ethers.zeroPadValue('0x', size);
+      case 'max':
+        return '0x' + 'ff'.repeat(size);
+      case 'safe':
+        return ethers.dataSlice(ethers.id('test'), 0, size);
+      case 'random':
+        return this.randomHex(size);
+      case 'fuzz':
+        if (this.random() < EDGE_CASE_BIAS) {
+          return this.generateBytes(size, this.pick<ValueStrategy>(['min', 'max']));
+        }
+        return this.randomHex(size);
+    }
+  }
+
+  private generateDynamicBytes(strategy: ValueStrategy): string {
+    switch (strategy) {
+      case 'min':
+        return '0x';
+      case 'max':
+        return '0x' + 'ff'.repeat(LARGE_DYNAMIC_LENGTH);
+      case 'safe':
+        return '0x00';
+      case 'random':
+        return this.randomHex(Math.floor(this.random() * 64));
+      case 'fuzz':
+        if (this.random() < EDGE_CASE_BIAS) {
+          return this.pick(['0x', '0x' + '00'.repeat(LARGE_DYNAMIC_LENGTH), this.generateDynamicBytes('max')]);
+        }
+        return this.generateDynamicBytes('random');
+    }
+  }
+
+  private generateString(strategy: ValueStrategy): string {
+    switch (strategy) {
+      case 'min':
+        return '';
+      case 'max':
+        return 'A'.repeat(LARGE_DYNAMIC_LENGTH);
+      case 'safe':
+        return 'Test String';
+      case 'random': {
+        const length = 1 + Math.floor(this.random() * 32);
+        return Array.from({ length }, () => Math.floor(this.random() * 36).toString(36)).join('');
+      }
+      case 'fuzz':
+        if (this.random() < EDGE_CASE_BIAS) {
+          return this.pick(['', 'A'.repeat(LARGE_DYNAMIC_LENGTH), '\u0000', '\u{1F600}']);
+        }
+        return this.generateString('random');
+    }
+  }
+
+  private dynamicLength(strategy: ValueStrategy): number {
+    switch (strategy) {
+      case 'min':
+        return 0;
+      case 'max':
+        return MAX_DYNAMIC_LENGTH;
+      case 'safe':
+        return 1;
+      case 'random':
+        return Math.floor(this.random() * (MAX_DYNAMIC_LENGTH + 1));
+      case 'fuzz':
+        if (this.random() < EDGE_CASE_BIAS) {
+          return this.pick([0, 1, HUGE_ARRAY_LENGTH]);
+        }
+        return this.dynamicLength('random');
+    }
+  }
+
+  private pick<T>(values: T[]): T {
+    return values[Math.floor(this.random() * values.length)];
+  }
+
+  private randomBigInt(bits: number): bigint {
+    const bytes = this.randomHex(Math.ceil(bits / 8));
+    return BigInt(bytes) & ((1n << BigInt(bits)) - 1n);
+  }
+
+  private randomHex(size: number): string {
+    let hex = '0x';
+    for (let i = 0; i < size; i++) {
+      hex += Math.floor(this.random() * 256).toString(16).padStart(2, '0');
+    }
+    return hex;
+  }
+}
+
+export interface IntegerType {
+  signed: boolean;
+  bits: number;
+}
+
+export function parseIntegerType(type: string): IntegerType | null {
+  const match = type.match(/^(u?)int(\d*)$/);
+  if (!match) return null;
+  return { signed: match[1] !== 'u', bits: match[2] ? Number(match[2]) : 256 };
+}
+
+export function integerBounds({ signed, bits }: IntegerType): { min: bigint; max: bigint } {
+  if (!signed) {
+    return { min: 0n, max: (1n << BigInt(bits)) - 1n };
+  }
+  return { min: -(1n << BigInt(bits - 1)), max: (1n << BigInt(bits - 1)) - 1n };
+}
+
+// 0, 1, the bounds and their neighbours, and every power of two (and its predecessor) in range
+export function integerEdgeCases(integer: IntegerType): bigint[] {
+  const { min, max } = integerBounds(integer);
+  const values = new Set<bigint>([0n, 1n, 2n, max, max - 1n]);
+  if (integer.signed) {
+    [-1n, min, min + 1n].forEach(value => values.add(value));
+  }
+  const magnitudeBits = integer.signed ? integer.bits - 1 : integer.bits;
+  for (let bit = 2; bit < magnitudeBits; bit++) {
+    values.add(1n << BigInt(bit));
+    values.add((1n << BigInt(bit)) - 1n);
+  }
+  return [...values];
+}
+
+// True when the parameter, or anything nested inside it, is an integer
+export function hasIntegerType(param: ethers.ParamType): boolean {
+  if (param.isArray()) return hasIntegerType(param.arrayChildren);
+  if (param.isTuple()) return param.components.some(hasIntegerType);
+  return parseIntegerType(param.baseType) !== null;
+}
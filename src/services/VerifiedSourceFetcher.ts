@@ -0,0 +1,87 @@
+import { ethers } from 'ethers';
+import { validateAbi } from './AbiValidator';
+
+export interface VerifiedSource {
+  address: string;
+  contractName: string;
+  abi: ethers.JsonFragment[];
+  // Source files keyed by path; a single-file verification is keyed by the contract name
+  sources: Record<string, string>;
+  compilerVersion: string;
+}
+
+// Looks up verified contract sources; swap in a stub to work offline
+export interface VerifiedSourceFetcher {
+  // Resolves to null when the contract is not verified
+  fetchVerifiedSource(address: string): Promise<VerifiedSource | null>;
+}
+
+export interface EtherscanOptions {
+  chainId: number;
+  apiKey?: string;
+  // Any Etherscan-compatible API; defaults to Etherscan's multichain v2 endpoint
+  apiUrl?: string;
+  fetch?: typeof fetch;
+}
+
+const ETHERSCAN_API_URL = 'https://api.etherscan.io/v2/api';
+
+interface EtherscanSourceResult {
+  SourceCode: string;
+  ABI: string;
+  ContractName: string;
+  CompilerVersion: string;
+}
+
+export class EtherscanSourceFetcher implements VerifiedSourceFetcher {
+  private fetchImpl: typeof fetch;
+
+  constructor(private options: EtherscanOptions) {
+    this.fetchImpl = options.fetch ?? globalThis.fetch.bind(globalThis);
+  }
+
+  async fetchVerifiedSource(address: string): Promise<VerifiedSource | null> {
+    const params = new URLSearchParams({
+      chainid: String(this.options.chainId),
+      module: 'contract',
+      action: 'getsourcecode',
+      address
+    });
+    if (this.options.apiKey) {
+      params.set('apikey', this.options.apiKey);
+    }
+
+    const response = await this.fetchImpl(`${this.options.apiUrl ?? ETHERSCAN_API_URL}?${params}`);
+    if (!response.ok) {
+      throw new Error(`Explorer API returned ${response.status}: ${await response.text()}`);
+    }
+    const body = await response.json();
+    // Failures come back as status "0" with the reason in result
+    if (body?.status !== '1' || !Array.isArray(body.result)) {
+      throw new Error(`Explorer API error: ${typeof body?.result === 'string' ? body.result : body?.message ?? 'unexpected response'}`);
+    }
+
+    const result: EtherscanSourceResult = body.result[0];
+    if (!result?.SourceCode) {
+      return null;
+    }
+    return {
+      address,
+      contractName: result.ContractName,
+      abi: validateAbi(JSON.parse(result.ABI)),
+      sources: parseSourceCode(result.SourceCode, result.ContractName),
+      compilerVersion: result.CompilerVersion
+    };
+  }
+}
+
+// SourceCode is flat Solidity, a { path: { content } } map, or standard JSON input wrapped in an extra pair of braces
+function parseSourceCode(sourceCode: string, contractName: string): Record<string, string> {
+  const text = sourceCode.trim();
+  if (!text.startsWith('{')) {
+    return { [`${contractName}.sol`]: sourceCode };
+  }
+  const parsed = JSON.parse(text.startsWith('{{') ? text.slice(1, -1) : text);
+  const files: Record<string, { content: string }> = parsed.sources ?? parsed;
+  return Object.fromEntries(Object.entries(files).map(([path, file]) => [path, file.content]));
+}
@@ -0,0 +1,244 @@
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { ethers } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MockEip1193Provider } from './MockEip1193Provider';
+import { TestExecutor } from './TestExecutor';
+import { WalletConnection, isUserRejection } from './WalletConnection';
+import { WalletState } from '../types/Wallet';
+import { NetworkConfig } from '../types/Network';
+import { TestCase } from '../types/TestCase';
+
+const ACCOUNTS = [
+  '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+];
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const ABI = ['function setValue(uint256 value)', 'function value() view returns (uint256)'];
+
+// Just enough of a JSON-RPC node for the mock wallet and ethers; transactions are recorded, never mined
+interface FakeNode {
+  url: string;
+  sent: unknown[];
+  close(): Promise<void>;
+}
+
+async function startNode(chainId: number): Promise<FakeNode> {
+  const sent: unknown[] = [];
+  const block = {
+    number: '0x1',
+    hash: ethers.id('block'),
+    parentHash: ethers.ZeroHash,
+    timestamp: '0x6553f100',
+    nonce: '0x0000000000000000',
+    difficulty: '0x0',
+    gasLimit: '0x1c9c380',
+    gasUsed: '0x0',
+    miner: ethers.ZeroAddress,
+    extraData: '0x',
+    baseFeePerGas: '0x3b9aca00',
+    transactions: []
+  };
+  const results: Record<string, (params: unknown[]) => unknown> = {
+    eth_chainId: () => ethers.toQuantity(chainId),
+    net_version: () => String(chainId),
+    eth_accounts: () => ACCOUNTS.map(account => account.toLowerCase()),
+    eth_blockNumber: () => block.number,
+    eth_getBlockByNumber: () => block,
+    eth_gasPrice: () => '0x3b9aca00',
+    eth_maxPriorityFeePerGas: () => '0x3b9aca00',
+    eth_estimateGas: () => '0xb411',
+    eth_getTransactionCount: () => '0x0',
+    eth_getCode: () => '0x6080',
+    eth_sendTransaction: params => {
+      sent.push(params[0]);
+      return ethers.id(`tx-${sent.length}`);
+    }
+  };
+
+  const server = createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      const payload = JSON.parse(body);
+      const answer = ({ id, method, params }: { id: number; method: string; params: unknown[] }) => results[method]
+        ? { jsonrpc: '2.0', id, result: results[method](params) }
+        : { jsonrpc: '2.0', id, error: { code: -32601, message: `Method ${method} not found` } };
+      response.setHeader('Content-Type', 'application/json');
+      response.end(JSON.stringify(Array.isArray(payload) ? payload.map(answer) : answer(payload)));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    sent,
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
+
+// Resolves with the next state the connection reports
+function nextChange(connection: WalletConnection): Promise<WalletState | null> {
+  return new Promise((resolve, reject) => {
+    const stop = connection.watch(state => {
+      stop();
+      resolve(state);
+    }, reject);
+  });
+}
+
+function writeCase(overrides: Partial<TestCase> = {}): TestCase {
+  return {
+    id: 'set-value',
+    name: 'Set the value',
+    description: '',
+    steps: [{
+      id: 'set',
+      action: 'CONTRACT_CALL',
+      params: { method: 'setValue', contractAddress: CONTRACT, args: ['42'] },
+      description: 'Call setValue'
+    }],
+    expectedResult: 'The value is stored',
+    status: 'pending',
+    ...overrides
+  };
+}
+
+describe('wallet mode', () => {
+  let node: FakeNode;
+  let prompts: string[];
+  let rejected: Set<string>;
+  let wallet: MockEip1193Provider;
+
+  beforeEach(async () => {
+    node = await startNode(31337);
+    prompts = [];
+    rejected = new Set();
+    wallet = new MockEip1193Provider({
+      rpcUrl: node.url,
+      approve: ({ method }) => {
+        prompts.push(method);
+        return !rejected.has(method);
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await node.close();
+  });
+
+  it('shares the selected account and follows account changes', async () => {
+    const connection = new WalletConnection(wallet);
+    expect(await connection.state()).toBeNull();
+
+    expect(await connection.connect()).toEqual({ account: ACCOUNTS[0], chainId: 31337 });
+    expect(prompts).toEqual(['eth_requestAccounts']);
+
+    const changed = nextChange(connection);
+    await wallet.selectAccount(1);
+    expect(await changed).toEqual({ account: ACCOUNTS[1], chainId: 31337 });
+
+    const executor = new TestExecutor();
+    expect(await executor.connectWallet(wallet)).toEqual({ account: ACCOUNTS[1], chainId: 31337 });
+    expect(executor.getWalletAccount()).toBe(ACCOUNTS[1]);
+
+    const disconnected = nextChange(connection);
+    wallet.disconnect();
+    expect(await disconnected).toBeNull();
+  });
+
+  it('adds a chain the wallet does not know before switching to it', async () => {
+    const other = await startNode(11155111);
+    try {
+      const network: NetworkConfig = {
+        id: 'sepolia',
+        name: 'Sepolia',
+        chainId: 11155111,
+        rpcUrl: other.url,
+        nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 }
+      };
+      const connection = new WalletConnection(wallet);
+      await connection.connect();
+
+      const changed = nextChange(connection);
+      await connection.switchChain(network);
+      expect(await changed).toEqual({ account: ACCOUNTS[0], chainId: 11155111 });
+      expect(prompts).toEqual(['eth_requestAccounts', 'wallet_switchEthereumChain', 'wallet_addEthereumChain']);
+
+      const executor = new TestExecutor();
+      await executor.connectWallet(wallet);
+      expect(await executor.getChainId()).toBe(11155111);
+    } finally {
+      await other.close();
+    }
+  });
+
+  it('reports a declined connection as a user rejection', async () => {
+    rejected.add('eth_requestAccounts');
+    const connection = new WalletConnection(wallet);
+
+    const error = await connection.connect().catch(caught => caught);
+    expect(isUserRejection(error)).toBe(true);
+    expect(await connection.state()).toBeNull();
+  });
+
+  describe('TestExecutor', () => {
+    let executor: TestExecutor;
+
+    beforeEach(async () => {
+      await new WalletConnection(wallet).connect();
+      executor = new TestExecutor();
+      await executor.connectWallet(wallet);
+      executor.registerAbi(CONTRACT, ABI);
+    });
+
+    it('sends nothing when the batched confirmation is declined', async () => {
+      const confirmed: string[][] = [];
+      const result = await executor.executeTest(writeCase(), {
+        confirm: async planned => {
+          confirmed.push(planned.map(transaction => transaction.method));
+          return false;
+        }
+      });
+
+      expect(confirmed).toEqual([['setValue(uint256)']]);
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Declined 1 wallet transactions; nothing was sent');
+      expect(node.sent).toEqual([]);
+    });
+
+    it('fails the step when the user rejects the transaction in the wallet', async () => {
+      rejected.add('eth_sendTransaction');
+
+      const result = await executor.executeTest(writeCase());
+
+      expect(prompts).toContain('eth_sendTransaction');
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Step set was rejected in the wallet');
+      expect(node.sent).toEqual([]);
+    });
+
+    it('previews the wallet transactions and skips cases it cannot sign', async () => {
+      const fuzzCase = writeCase({ id: 'fuzz-set-value', name: 'Fuzz setValue', fuzz: { stepId: 'set', iterations: 20, seed: 7 } });
+
+      const preview = await executor.previewTransactions([writeCase(), fuzzCase]);
+
+      expect(preview.account).toBe(ACCOUNTS[0]);
+      expect(preview.chainId).toBe(31337);
+      expect(preview.transactions).toHaveLength(1);
+      expect(preview.transactions[0]).toMatchObject({ method: 'setValue(uint256)', fromWallet: true, gasLimit: '46097' });
+      expect(preview.totalMaxCost).toBe(preview.transactions[0].maxCost);
+      expect(preview.skipped).toEqual([{ testCaseName: 'Fuzz setValue', reason: expect.stringContaining('Fuzz cases') }]);
+
+      const result = await executor.executeTest(fuzzCase, { confirm: async () => true });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('wallet mode does not sign');
+      expect(prompts).not.toContain('eth_sendTransaction');
+      expect(node.sent).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { ethers } from 'ethers';
+import { NetworkConfig } from '../types/Network';
+import { WalletState } from '../types/Wallet';
+
+type Listener = (...args: unknown[]) => void;
+
+// An EIP-1193 provider as browser wallets inject it; the events are optional in ethers' typing
+export interface InjectedProvider extends ethers.Eip1193Provider {
+  on?(event: string, listener: Listener): unknown;
+  removeListener?(event: string, listener: Listener): unknown;
+}
+
+// EIP-1193 and EIP-3326 error codes
+export const USER_REJECTED = 4001;
+export const UNAUTHORIZED = 4100;
+export const UNRECOGNIZED_CHAIN = 4902;
+
+// window.ethereum, looked up on globalThis so the module also loads outside the browser
+export function findInjectedProvider(): InjectedProvider | undefined {
+  return (globalThis as { ethereum?: InjectedProvider }).ethereum;
+}
+
+// Account access, chain switching and change notifications of one injected wallet
+export class WalletConnection {
+  constructor(readonly provider: InjectedProvider) {}
+
+  // Prompts the user to share an account
+  async connect(): Promise<WalletState> {
+    await this.provider.request({ method: 'eth_requestAccounts' });
+    const state = await this.state();
+    if (!state) {
+      throw new Error('The wallet shared no accounts');
+    }
+    return state;
+  }
+
+  // The selected account and chain, or null when the wallet no longer shares an account
+  async state(): Promise<WalletState | null> {
+    const accounts = (await this.provider.request({ method: 'eth_accounts' })) as string[];
+    if (!accounts?.length) {
+      return null;
+    }
+    const chainId = Number(await this.provider.request({ method: 'eth_chainId' }));
+    return { account: ethers.getAddress(accounts[0]), chainId };
+  }
+
+  // Asks the wallet to switch, adding the network first when the wallet does not know it
+  async switchChain(network: NetworkConfig): Promise<void> {
+    if (network.chainId === undefined) {
+      throw new Error(`${network.name} has no chain id to switch the wallet to`);
+    }
+    const chainId = ethers.toQuantity(network.chainId);
+    try {
+      await this.provider.request({ method: 'wallet_switchEthereumChain', params: [{ chainId }] });
+    } catch (error) {
+      if (errorCode(error) !== UNRECOGNIZED_CHAIN) {
+        throw error;
+      }
+      await this.provider.request({
+        method: 'wallet_addEthereumChain',
+        params: [{
+          chainId,
+          chainName: network.name,
+          rpcUrls: [network.rpcUrl],
+          nativeCurrency: network.nativeCurrency,
+          blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined
+        }]
+      });
+    }
+  }
+
+  // Calls back with the new state after every account or chain change; returns the unsubscribe function
+  watch(onChange: (state: WalletState | null) => void, onError: (error: unknown) => void): () => void {
+    const refresh = () => {
+      this.state().then(onChange, onError);
+    };
+    this.provider.on?.('accountsChanged', refresh);
+    this.provider.on?.('chainChanged', refresh);
+    return () => {
+      this.provider.removeListener?.('accountsChanged', refresh);
+      this.provider.removeListener?.('chainChanged', refresh);
+    };
+  }
+}
+
+export function isUserRejection(error: unknown): boolean {
+  return ethers.isError(error, 'ACTION_REJECTED') || errorCode(error) === USER_REJECTED;
+}
+
+function errorCode(error: unknown): unknown {
+  return (error as { code?: unknown })?.code;
+}
@@ -0,0 +1,76 @@
+// A literal expected value, or a reference to the output of an earlier step or to an account
+export type ExpectedValue = string | number | boolean | StepReference | AddressReference;
+
+export interface StepReference {
+  stepRef: string;
+  path?: string;
+}
+
+// Resolved by the executor at run time: "sender" is the account sending the step, or a named actor
+export interface AddressReference {
+  addressOf: string;
+}
+
+export type AddressValue = string | AddressReference;
+
+export type ComparisonOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'matches';
+
+export interface ReturnValueAssertion {
+  type: 'returnValue';
+  operator: ComparisonOperator;
+  expected: ExpectedValue;
+  // Index or output name inside the decoded result, e.g. "0" or "balance"
+  path?: string;
+}
+
+export interface EventAssertion {
+  type: 'event';
+  // Event name from the contract ABI or a human-readable fragment
+  event: string;
+  // Expected arguments in order; null matches anything
+  args?: (ExpectedValue | null)[];
+  // Address that must have emitted the event, defaults to the step's contract
+  emitter?: AddressValue;
+}
+
+export interface BalanceDeltaAssertion {
+  type: 'balanceDelta';
+  account: AddressValue;
+  delta: string;
+  // ERC-20 token address; native balance when omitted
+  token?: string;
+}
+
+export interface StorageAssertion {
+  type: 'storage';
+  slot: string;
+  expected: ExpectedValue;
+  // Contract to read the slot from, defaults to the step's contract
+  address?: string;
+}
+
+export interface RevertAssertion {
+  type: 'revert';
+  // Expected Error(string) reason
+  reason?: string;
+  // Custom error name or human-readable fragment
+  customError?: string;
+  args?: (ExpectedValue | null)[];
+  // Expected Panic(uint256) code, e.g. 0x11 for arithmetic overflow
+  panicCode?: number;
+}
+
+export type Assertion =
+  | ReturnValueAssertion
+  | EventAssertion
+  | BalanceDeltaAssertion
+  | StorageAssertion
+  | RevertAssertion;
+
+export interface AssertionResult {
+  stepId: string;
+  assertion: Assertion;
+  passed: boolean;
+  message: string;
+  actual?: string;
+}
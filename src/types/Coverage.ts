@@ -0,0 +1,85 @@
+export type BranchKind = 'if' | 'ternary' | 'require' | 'assert';
+
+// The two ways through a branch: true and false for if and ternary, pass and revert for require and assert
+export type BranchArm = 'true' | 'false' | 'pass' | 'revert';
+
+export type RevertPathKind = 'require' | 'assert' | 'revert';
+
+export interface CoverageCounter {
+  covered: number;
+  total: number;
+}
+
+export interface CoverageTotals {
+  functions: CoverageCounter;
+  lines: CoverageCounter;
+  // Counted per arm, so an if whose else never ran is half covered
+  branches: CoverageCounter;
+  revertPaths: CoverageCounter;
+}
+
+export interface FunctionCoverage {
+  // Contract.function, or Contract.modifier for modifiers
+  name: string;
+  line: number;
+  hits: number;
+}
+
+export interface LineCoverage {
+  line: number;
+  hits: number;
+}
+
+export interface BranchCoverage {
+  line: number;
+  kind: BranchKind;
+  // Condition as written in the source
+  label: string;
+  // Enclosing function or modifier
+  function?: string;
+  arms: { arm: BranchArm; hits: number }[];
+}
+
+export interface RevertPathCoverage {
+  line: number;
+  kind: RevertPathKind;
+  // Custom error name or reason string, else the statement as written
+  label: string;
+  function?: string;
+  // Executions that reverted here
+  hits: number;
+}
+
+export interface FileCoverage {
+  // Source path as compiled, e.g. contracts/Token.sol
+  path: string;
+  functions: FunctionCoverage[];
+  lines: LineCoverage[];
+  branches: BranchCoverage[];
+  revertPaths: RevertPathCoverage[];
+  totals: CoverageTotals;
+}
+
+// A branch arm no traced step took, with what a generator needs to aim a case at it
+export interface UncoveredBranch {
+  path: string;
+  line: number;
+  kind: BranchKind;
+  arm: BranchArm;
+  label: string;
+  // External functions that reach the branch: the enclosing function, or the functions using the enclosing modifier
+  functions: string[];
+}
+
+export interface CoverageReport {
+  // Contracts whose code ran and matched a compiled source
+  contracts: string[];
+  files: FileCoverage[];
+  totals: CoverageTotals;
+  uncovered: UncoveredBranch[];
+  tracedSteps: number;
+  // Addresses whose code ran but matched none of the compiled sources
+  unmapped: string[];
+  // Why tracing stopped, e.g. a backend without debug_traceTransaction
+  error?: string;
+}
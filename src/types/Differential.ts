@@ -0,0 +1,56 @@
+import { TestResult } from './TestCase';
+
+// One of the two deployments a differential run compares, e.g. the live implementation and its upgrade
+export interface DifferentialTarget {
+  label: string;
+  address: string;
+}
+
+export type DivergenceKind = 'outcome' | 'revert' | 'returnValue' | 'events' | 'balance' | 'gas' | 'missingStep';
+
+export interface Divergence {
+  kind: DivergenceKind;
+  // Missing for whole-case divergences, e.g. one side passing and the other failing
+  stepId?: string;
+  message: string;
+  baseline: string;
+  candidate: string;
+}
+
+export interface CaseComparison {
+  testCaseId: string;
+  testCaseName: string;
+  baseline: TestResult;
+  candidate: TestResult;
+  // Both sides together
+  durationMs: number;
+  divergences: Divergence[];
+}
+
+export type LayoutIssueSeverity = 'error' | 'warning';
+
+export interface LayoutIssue {
+  severity: LayoutIssueSeverity;
+  // Variable of the baseline layout the issue is about, or of the candidate for additions
+  variable: string;
+  slot: string;
+  message: string;
+}
+
+export interface StorageLayoutReport {
+  baselineContract: string;
+  candidateContract: string;
+  // Errors mean the candidate would read the proxy's existing storage wrongly
+  compatible: boolean;
+  issues: LayoutIssue[];
+}
+
+export interface DifferentialReport {
+  baseline: DifferentialTarget;
+  candidate: DifferentialTarget;
+  cases: CaseComparison[];
+  // Divergences other than gas, which an upgrade is expected to change
+  behavioralDivergences: number;
+  gasDivergences: number;
+  layout?: StorageLayoutReport;
+}
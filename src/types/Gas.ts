@@ -0,0 +1,28 @@
+export interface FunctionGasStats {
+  // Function signature, e.g. transfer(address,uint256)
+  method: string;
+  calls: number;
+  min: number;
+  max: number;
+  avg: number;
+  median: number;
+}
+
+export interface GasReport {
+  functions: FunctionGasStats[];
+}
+
+// Gas profile of a known-good run that later runs are compared against
+export interface GasBaseline {
+  contractAddress: string;
+  createdAt: string;
+  functions: Record<string, FunctionGasStats>;
+}
+
+export interface GasRegression {
+  method: string;
+  baseline: number;
+  current: number;
+  // Relative increase of the median, e.g. 0.12 for 12%
+  increase: number;
+}
@@ -0,0 +1,32 @@
+import { ComparisonOperator } from './Assertion';
+
+// One side of an invariant, evaluated against the chain after every call
+export type InvariantTerm =
+  | { kind: 'call'; method: string; args?: unknown[]; contractAddress?: string }
+  // Sum of method(holder) over the holders; 'actors' means every account taking part in the run
+  | { kind: 'sum'; method: string; holders: 'actors' | string[]; contractAddress?: string }
+  | { kind: 'nativeBalance'; address?: string }
+  | { kind: 'literal'; value: string };
+
+export interface Invariant {
+  id: string;
+  description: string;
+  left: InvariantTerm;
+  operator: ComparisonOperator;
+  right: InvariantTerm;
+}
+
+export interface InvariantCheck {
+  invariantId: string;
+  passed: boolean;
+  message: string;
+}
+
+export interface InvariantCall {
+  actor: string;
+  method: string;
+  args: unknown[];
+  // Wei sent with payable calls, as a decimal string
+  value?: string;
+  reverted: boolean;
+}
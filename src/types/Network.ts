@@ -0,0 +1,18 @@
+export interface NativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface NetworkConfig {
+  id: string;
+  name: string;
+  // Checked against eth_chainId on connect; the local network accepts whatever the node reports
+  chainId?: number;
+  rpcUrl: string;
+  // Base URL of a block explorer, e.g. https://etherscan.io
+  explorerUrl?: string;
+  nativeCurrency: NativeCurrency;
+  // Added by the user, or a built-in network with the user's own RPC URL; persisted
+  custom?: boolean;
+}
@@ -0,0 +1,35 @@
+export type TestKind = 'view' | 'write' | 'boundary' | 'fuzz' | 'integration';
+
+// One execution of some or all of a contract's cases, as kept in the run history
+export interface RunRecord {
+  id: string;
+  contractAddress: string;
+  // Network id; local nodes hand out the same addresses to every deployment, so history is kept per network and address
+  network: string;
+  // ISO timestamp
+  startedAt: string;
+  durationMs: number;
+  // Only the cases that ran, so re-running the failed cases records just those
+  cases: RunCaseRecord[];
+  // Stopped before every selected case ran
+  stopped: boolean;
+}
+
+export interface RunCaseRecord {
+  testCaseId: string;
+  name: string;
+  kind: TestKind;
+  success: boolean;
+  error?: string;
+  durationMs: number;
+}
+
+// A case whose outcome flipped since the last earlier run it was part of
+export interface StatusChange {
+  testCaseId: string;
+  name: string;
+  change: 'startedFailing' | 'fixed';
+  error?: string;
+  // startedAt of the earlier run, where the case had the opposite outcome
+  previousRunAt: string;
+}
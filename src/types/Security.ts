@@ -0,0 +1,29 @@
+import { TestCase } from './TestCase';
+
+export type Severity = 'high' | 'medium' | 'low' | 'info';
+
+export type SecurityDetector =
+  | 'unprotected-selfdestruct'
+  | 'unprotected-delegatecall'
+  | 'unprotected-payable'
+  | 'tx-origin'
+  | 'missing-zero-address-check'
+  | 'reentrancy';
+
+export interface SecurityFinding {
+  id: string;
+  detector: SecurityDetector;
+  severity: Severity;
+  title: string;
+  description: string;
+  // Signature of the function the finding is about
+  function: string;
+  // What the detector matched: a source excerpt, an opcode or an ABI property
+  evidence: string;
+  // False when the exploit attempt covers only part of the attack, so passing it does not rule the finding out
+  conclusive: boolean;
+  // Exploit attempt; its last step is the attack, and that step going through confirms the finding
+  testCase: TestCase;
+}
+
+export type FindingVerdict = 'confirmed' | 'dismissed' | 'unverified';
@@ -1,3 +1,8 @@
+import { JsonFragment } from 'ethers';
+import { Assertion, AssertionResult, StepReference } from './Assertion';
+import { Invariant } from './Invariant';
+import { CallFrame, DecodedEvent } from './Trace';
+
 export interface TestCase {
   id: string;
   name: string;
@@ -6,19 +11,168 @@ export interface TestCase {
   expectedResult: string;
   actualResult?: string;
   status: 'pending' | 'running' | 'passed' | 'failed';
+  // Run as a fuzz campaign instead of a single execution
+  fuzz?: FuzzConfig;
+  // Checked after every step
+  invariants?: Invariant[];
+  // Clause of the standard (e.g. an EIP) the case checks conformance with
+  specReference?: string;
+  // Kept in the suite but skipped by runners
+  disabled?: boolean;
+  // Attacker contracts deployed on the local chain before the steps run
+  attack?: AttackConfig;
+}
+
+// Reentrant receiver, receivers that revert or burn all gas on payment, and malicious ERC-20s
+export type AttackerKind = 'reentrantReceiver' | 'revertingReceiver' | 'gasGriefer' | 'hookToken' | 'feeToken';
+
+export interface AttackConfig {
+  attackers: AttackerKind[];
+  // Reentrancy is achieved when an attacker that called back into the target ends up with more than it deposited,
+  // DoS when a step of an honest caller reverts after the attacker's steps
+  goal: 'reentrancy' | 'dos';
+}
+
+export interface AttackReport {
+  goal: AttackConfig['goal'];
+  achieved: boolean;
+  summary: string;
+}
+
+export interface FuzzConfig {
+  // Step whose arguments are regenerated on every iteration
+  stepId: string;
+  iterations: number;
+  seed: number;
 }
 
 export interface TestStep {
   id: string;
-  action: string;
-  params: Record<string, any>;
+  action: StepAction;
+  params: StepParams;
   description: string;
+  expectedOutcome?: ExpectedOutcome;
+  expectations?: Assertion[];
+}
+
+// Steps that manipulate a local chain instead of calling the contract
+export type ChainAction =
+  | 'INCREASE_TIME'
+  | 'MINE_BLOCKS'
+  | 'SET_NEXT_BLOCK_TIMESTAMP'
+  | 'SET_NEXT_BLOCK_BASE_FEE'
+  | 'IMPERSONATE'
+  | 'STOP_IMPERSONATING'
+  | 'SET_BALANCE'
+  | 'SET_STORAGE';
+
+export type StepAction = 'CONTRACT_CALL' | ChainAction;
+
+// Whether a step is meant to succeed, revert, or may legitimately do either
+export type ExpectedOutcome = 'success' | 'revert' | 'either';
+
+export interface StepParams {
+  method: string;
+  contractAddress: string;
+  // Arguments may reference earlier step outputs with { stepRef, path } and accounts with { addressOf }
+  args: unknown[];
+  // Full ABI entry for the called function
+  fragment?: JsonFragment;
+  // Named actor (deployer, owner, userA, userB, attacker) or address sending the call; the deployer when omitted
+  actor?: string;
+  // Wei sent along, as a decimal string; payable functions only
+  value?: string;
+  // Relay attacker the call is routed through, so the attacker contract is msg.sender
+  via?: AttackerKind;
+  // Chain steps: seconds to advance the clock by, or the timestamp of the next block
+  seconds?: ChainQuantity;
+  timestamp?: ChainQuantity;
+  // Added to seconds or timestamp, e.g. 1 to land just past a deadline read by an earlier step
+  offset?: number;
+  blocks?: number;
+  // Wei, as decimal strings
+  baseFee?: string;
+  balance?: string;
+  // Actor or address that is impersonated or whose balance or storage is set; storage defaults to contractAddress
+  account?: string;
+  // Decimal or 0x-prefixed
+  slot?: string;
+  storageValue?: string;
+  [key: string]: unknown;
 }
 
+// A number, a decimal string, or the output of an earlier step
+export type ChainQuantity = number | string | StepReference;
+
 export interface TestResult {
   testCaseId: string;
   success: boolean;
   error?: string;
   logs: string[];
   timestamp: number;
-}
\ No newline at end of file
+  steps?: StepResult[];
+  assertions?: AssertionResult[];
+  failedAssertion?: AssertionResult;
+  fuzz?: FuzzReport;
+  // Failed on the backend (timeout, network, rate limit) rather than in the contract
+  retryable?: boolean;
+  attack?: AttackReport;
+}
+
+export interface FuzzReport {
+  seed: number;
+  iterations: number;
+  // Zero-based iteration that first failed; replaying the seed reaches it again
+  failingIteration?: number;
+  originalInput?: unknown[];
+  // Minimal failing arguments after shrinking
+  counterexample?: unknown[];
+  shrinkSteps?: number;
+}
+
+export interface StepResult {
+  stepId: string;
+  // Signature of the called function, e.g. transfer(address,uint256), or what a chain step did
+  method: string;
+  kind: 'call' | 'transaction' | 'chain';
+  // Arguments after step references and actor addresses were resolved
+  args?: unknown[];
+  reverted: boolean;
+  revert?: DecodedRevert;
+  // Decoded return value of a read call
+  returnValue?: unknown;
+  receipt?: StepReceipt;
+  events?: DecodedEvent[];
+  // Native balance changes of the actors and the called contract (as 'contract'), gas fees left out; only
+  // recorded when the run asks for them
+  balanceChanges?: Record<string, string>;
+  // Call tree of the step, fetched only when the test fails and the backend supports tracing
+  trace?: CallFrame;
+}
+
+export interface StepReceipt {
+  hash: string;
+  blockNumber: number;
+  status: number;
+  gasUsed: string;
+  effectiveGasPrice: string;
+  calldataBytes: number;
+  logs: StepLog[];
+}
+
+export interface StepLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+export type RevertKind = 'error' | 'panic' | 'custom' | 'empty' | 'unknown';
+
+export interface DecodedRevert {
+  kind: RevertKind;
+  reason?: string;
+  panicCode?: number;
+  errorName?: string;
+  args?: unknown[];
+  data?: string;
+}
@@ -0,0 +1,22 @@
+import { JsonFragment } from 'ethers';
+import { TestCase } from './TestCase';
+
+// Bumped on incompatible changes to the exported file format
+export const SUITE_SCHEMA_VERSION = 1;
+
+export interface TestSuite {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  contractAddress: string;
+  network?: string;
+  // Lets imported suites be validated and run without the original ABI input
+  abi?: JsonFragment[];
+  testCases: TestCase[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SuiteSummary = Pick<TestSuite, 'id' | 'name' | 'contractAddress' | 'network' | 'updatedAt'> & {
+  caseCount: number;
+};
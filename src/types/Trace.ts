@@ -0,0 +1,31 @@
+import { DecodedRevert } from './TestCase';
+
+// One frame of a debug_traceTransaction / debug_traceCall call tree
+export interface CallFrame {
+  // CALL, STATICCALL, DELEGATECALL, CREATE, ...
+  type: string;
+  from: string;
+  to?: string;
+  value?: string;
+  gasUsed?: string;
+  input: string;
+  output?: string;
+  // Decoded against the callee's registered ABI, when it is known
+  method?: string;
+  args?: unknown[];
+  result?: unknown[];
+  error?: string;
+  revert?: DecodedRevert;
+  calls: CallFrame[];
+}
+
+export interface DecodedEvent {
+  address: string;
+  logIndex: number;
+  // Missing when no registered ABI knows the event
+  name?: string;
+  signature?: string;
+  args?: unknown[];
+  topics: string[];
+  data: string;
+}
@@ -0,0 +1,35 @@
+export interface WalletState {
+  account: string;
+  chainId: number;
+}
+
+// A write step as it would be sent, estimated against the current chain state
+export interface PlannedTransaction {
+  testCaseId: string;
+  testCaseName: string;
+  stepId: string;
+  // Signature of the called function
+  method: string;
+  from: string;
+  // Signed by the connected wallet rather than by one of the unfunded actor wallets
+  fromWallet: boolean;
+  to: string;
+  // Wei, as decimal strings
+  value: string;
+  gasLimit?: string;
+  // Gas limit at the current max fee per gas, plus value
+  maxCost?: string;
+  // Why there is no estimate, e.g. the step reverts on the current state or uses an earlier step's output
+  note?: string;
+}
+
+export interface TransactionPreview {
+  account: string;
+  chainId: number;
+  maxFeePerGas: string;
+  transactions: PlannedTransaction[];
+  // Sum of maxCost over the wallet's own transactions
+  totalMaxCost: string;
+  // Cases that cannot run against a wallet at all
+  skipped: { testCaseName: string; reason: string }[];
+}
@@ -0,0 +1,41 @@
+export class TimeoutError extends Error {}
+
+// Bounds every await of one unit of work by a shared deadline and an abort signal.
+// A rejected race abandons the awaited promise; a hung RPC request keeps running in the background
+export class Deadline {
+  private expiresAt: number;
+
+  constructor(timeoutMs: number | undefined, private message: string, private signal?: AbortSignal) {
+    this.expiresAt = timeoutMs === undefined ? Infinity : Date.now() + timeoutMs;
+  }
+
+  race<T>(promise: Promise<T>): Promise<T> {
+    this.signal?.throwIfAborted();
+    const remaining = this.expiresAt - Date.now();
+    if (remaining <= 0) {
+      return Promise.reject(new TimeoutError(this.message));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = Number.isFinite(remaining)
+        ? setTimeout(() => settle(() => reject(new TimeoutError(this.message))), remaining)
+        : undefined;
+      const onAbort = () => settle(() => reject(abortReason(this.signal)));
+      const settle = (finish: () => void) => {
+        clearTimeout(timer);
+        this.signal?.removeEventListener('abort', onAbort);
+        finish();
+      };
+      this.signal?.addEventListener('abort', onAbort);
+      promise.then(value => settle(() => resolve(value)), error => settle(() => reject(error)));
+    });
+  }
+}
+
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Deadline(undefined, '', signal).race(new Promise(resolve => setTimeout(resolve, ms)));
+}
+
+function abortReason(signal?: AbortSignal): Error {
+  return signal?.reason instanceof Error ? signal.reason : new Error('Aborted');
+}
@@ -0,0 +1,22 @@
+import { ethers } from 'ethers';
+
+// Renders decoded ABI values (bigints, Results, nested structs) for logs and reports
+export function stringify(value: unknown): string {
+  if (value instanceof ethers.Result) {
+    return JSON.stringify(value.toArray(true), bigintReplacer);
+  }
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'object' && value !== null) {
+    return JSON.stringify(value, bigintReplacer);
+  }
+  return String(value);
+}
+
+export function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+function bigintReplacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
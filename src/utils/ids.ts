@@ -0,0 +1,17 @@
+import { ethers } from 'ethers';
+import { stringify } from './format';
+
+// Derived from what a case does rather than when it was made, so regenerating a suite keeps its ids
+export function stableId(prefix: string, ...parts: unknown[]): string {
+  return `${prefix}-${ethers.id(stringify(parts)).slice(2, 14)}`;
+}
+
+// Repeated ids get a numeric suffix, e.g. when a model emits two cases with the same name
+export function uniqueIds<T extends { id: string }>(items: T[]): T[] {
+  const seen = new Map<string, number>();
+  return items.map(item => {
+    const count = seen.get(item.id) ?? 0;
+    seen.set(item.id, count + 1);
+    return count === 0 ? item : { ...item, id: `${item.id}-${count + 1}` };
+  });
+}
@@ -0,0 +1,22 @@
+import { ethers } from 'ethers';
+
+// mulberry32: small, fast and good enough to make fuzz campaigns replayable from a seed
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+// Same text, same seed; used to give generated fuzz cases a reproducible seed
+export function seedFrom(text: string): number {
+  return parseInt(ethers.id(text).slice(2, 10), 16);
+}
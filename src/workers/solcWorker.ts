@@ -0,0 +1,14 @@
+import { InProcessSolidityCompiler } from '../services/SolidityCompiler';
+import { errorMessage } from '../utils/format';
+
+// Hosts solc-js for WorkerSolidityCompiler; messages are { id, input } in and { id, output | error } out
+const compiler = new InProcessSolidityCompiler();
+
+self.onmessage = async (event: MessageEvent<{ id: number; input: string }>) => {
+  const { id, input } = event.data;
+  try {
+    self.postMessage({ id, output: await compiler.compile(input) });
+  } catch (error) {
+    self.postMessage({ id, error: errorMessage(error) });
+  }
+};
@@ -7,4 +7,8 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  // The solc worker lazily imports the compiler, which needs a code-splitting worker build
+  worker: {
+    format: 'es',
+  },
 });